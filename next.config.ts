@@ -2,6 +2,8 @@ import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
+  // The compiler API behind the symbol tools is loaded from node_modules, not bundled
+  serverExternalPackages: ['typescript'],
   // Allow external images if needed
   images: {
     remotePatterns: [
@@ -0,0 +1,79 @@
+// ============================================================================
+// APPLY API - Write a reviewed dry-run changeset to GitHub or the local workspace
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GitHubClient, formatChangesetMessage } from '@/lib/github';
+import { LocalFileSystem } from '@/lib/filesystem';
+import { applyChangeset, ChangesetTarget } from '@/lib/overlayFs';
+import { attachRevertRecord, githubLocation, snapshotChangeset } from '@/lib/revert';
+import { hashApiKey } from '@/lib/runRegistry';
+import { ChatRequest, DryRunChangeset, RunRevertRecord } from '@/types';
+
+// POST - { changeset, runId, settings, repoContext }
+// Every file must still match the content the dry run started from; otherwise nothing is written.
+// With runId (and the key that started it), the dry run's run gets a revert record for the write.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as Pick<ChatRequest, 'settings' | 'repoContext'> & { changeset?: DryRunChangeset; runId?: string };
+    const { changeset, runId, settings, repoContext } = body;
+
+    if (!changeset || !Array.isArray(changeset.files) || changeset.files.length === 0) {
+      return NextResponse.json({ error: 'changeset with files is required' }, { status: 400 });
+    }
+
+    let target: ChangesetTarget;
+    let revert: RunRevertRecord;
+
+    if (settings?.fileAccessMode === 'local' && settings.localWorkspacePath) {
+      revert = { target: 'local', location: settings.localWorkspacePath, files: snapshotChangeset(changeset.files, true) };
+      const localFs = new LocalFileSystem(settings.localWorkspacePath);
+      target = {
+        readFile: (path) => localFs.readFile(path).catch(() => null),
+        writeFiles: async (files) => {
+          for (const file of files) {
+            if (file.content === null) await localFs.deleteFile(file.path);
+            else await localFs.writeFile(file.path, file.content);
+          }
+        },
+      };
+    } else {
+      const githubToken = request.headers.get('x-github-token');
+      if (!githubToken || !repoContext?.owner || !repoContext?.repo) {
+        return NextResponse.json({ error: 'GitHub token and repository required' }, { status: 401 });
+      }
+      const github = new GitHubClient(githubToken, repoContext.owner, repoContext.repo);
+      const branch = repoContext.branch || 'main';
+      // Files are checked at this head and committed on top of it, so a push in between is caught too
+      const headSha = await github.getBranchHead(branch);
+      revert = { target: 'github', location: githubLocation(repoContext.owner, repoContext.repo, branch), files: snapshotChangeset(changeset.files) };
+      target = {
+        readFile: (path) => github.getFileContent(path, headSha, false).then(file => file.content, () => null),
+        writeFiles: async (files) => {
+          const commit = await github.commitChangeset(
+            branch,
+            headSha,
+            files.map(file => ({ path: file.path, content: file.content })),
+            formatChangesetMessage(changeset.files.map(({ before: _before, after: _after, ...change }) => change))
+          );
+          if (!commit.success) throw new Error(commit.error || 'Commit failed');
+          revert.commitSha = commit.sha;
+        },
+      };
+    }
+
+    const result = await applyChangeset(changeset, target);
+    if (result.conflicts.length > 0) {
+      return NextResponse.json({ success: false, ...result }, { status: 409 });
+    }
+
+    const anthropicKey = request.headers.get('x-anthropic-key');
+    const revertable = runId && anthropicKey ? await attachRevertRecord(runId, hashApiKey(anthropicKey), revert) : false;
+
+    return NextResponse.json({ success: true, ...result, skippedCommands: changeset.commands, commitSha: revert.commitSha, revertable });
+  } catch (error) {
+    console.error('Apply error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
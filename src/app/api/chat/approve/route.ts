@@ -0,0 +1,56 @@
+// ============================================================================
+// APPROVAL API - Accept, reject or edit a tool call that is waiting for review
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveApproval } from '@/lib/approvals';
+import { hashApiKey } from '@/lib/runRegistry';
+import { ApprovalDecision } from '@/types';
+
+// POST - { approvalId, action: 'accept' | 'reject' | 'edit', input?, reason? }
+export async function POST(request: NextRequest) {
+  try {
+    const anthropicKey = request.headers.get('x-anthropic-key');
+    if (!anthropicKey) {
+      return NextResponse.json({ error: 'Anthropic API key required' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { approvalId, action, input, reason } = body as {
+      approvalId?: string;
+      action?: string;
+      input?: unknown;
+      reason?: string;
+    };
+
+    if (!approvalId) {
+      return NextResponse.json({ error: 'approvalId is required' }, { status: 400 });
+    }
+
+    let decision: ApprovalDecision;
+    if (action === 'accept') {
+      decision = { action: 'accept' };
+    } else if (action === 'reject') {
+      decision = { action: 'reject', reason: typeof reason === 'string' ? reason : undefined };
+    } else if (action === 'edit') {
+      if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return NextResponse.json({ error: 'Edited input must be a JSON object' }, { status: 400 });
+      }
+      decision = { action: 'edit', input: input as Record<string, unknown> };
+    } else {
+      return NextResponse.json({ error: 'action must be accept, reject or edit' }, { status: 400 });
+    }
+
+    // Only the key that started the run can resolve its approvals
+    const result = resolveApproval(approvalId, hashApiKey(anthropicKey), decision);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Approve error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
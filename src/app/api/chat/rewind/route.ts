@@ -0,0 +1,75 @@
+// ============================================================================
+// REWIND API - Restore the code to a conversation checkpoint
+// Reverts the runs after the checkpoint together, in one commit or write
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GitHubClient } from '@/lib/github';
+import { LocalFileSystem } from '@/lib/filesystem';
+import { hashApiKey, loadRun } from '@/lib/runRegistry';
+import { RevertTarget, createGitHubRevertTarget, createLocalRevertTarget, revertRuns } from '@/lib/revert';
+import { ChatRequest } from '@/types';
+
+// GET - ?runIds=a,b: which of the runs the server still stores, so stale checkpoints can be shown as such
+export async function GET(request: NextRequest) {
+  const anthropicKey = request.headers.get('x-anthropic-key');
+  if (!anthropicKey) {
+    return NextResponse.json({ error: 'Anthropic API key required' }, { status: 401 });
+  }
+
+  const runIds = (new URL(request.url).searchParams.get('runIds') || '').split(',').filter(Boolean);
+  const ownerHash = hashApiKey(anthropicKey);
+  const stored: string[] = [];
+  for (const id of runIds) {
+    const snapshot = await loadRun(id).catch(() => null);
+    if (snapshot && snapshot.ownerHash === ownerHash) stored.push(id);
+  }
+  return NextResponse.json({ stored });
+}
+
+// POST - { runIds (oldest first), settings, repoContext }
+// Files edited outside those runs since are reported as conflicts (409) and nothing is written.
+export async function POST(request: NextRequest) {
+  try {
+    const anthropicKey = request.headers.get('x-anthropic-key');
+    if (!anthropicKey) {
+      return NextResponse.json({ error: 'Anthropic API key required' }, { status: 401 });
+    }
+
+    const { runIds, settings, repoContext } = await request.json() as Pick<ChatRequest, 'settings' | 'repoContext'> & { runIds?: string[] };
+    if (!Array.isArray(runIds) || runIds.length === 0) {
+      return NextResponse.json({ error: 'runIds is required' }, { status: 400 });
+    }
+
+    // Runs that are gone from the store are left for revertRuns to report
+    const ownerHash = hashApiKey(anthropicKey);
+    for (const id of runIds) {
+      const snapshot = await loadRun(id);
+      if (snapshot && snapshot.ownerHash !== ownerHash) {
+        return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+      }
+    }
+
+    let target: RevertTarget;
+    if (settings?.fileAccessMode === 'local' && settings.localWorkspacePath) {
+      target = createLocalRevertTarget(new LocalFileSystem(settings.localWorkspacePath), settings.localWorkspacePath);
+    } else {
+      const githubToken = request.headers.get('x-github-token');
+      if (!githubToken || !repoContext?.owner || !repoContext?.repo) {
+        return NextResponse.json({ error: 'GitHub token and repository required' }, { status: 401 });
+      }
+      const github = new GitHubClient(githubToken, repoContext.owner, repoContext.repo);
+      target = createGitHubRevertTarget(github, repoContext.owner, repoContext.repo, repoContext.branch || 'main');
+    }
+
+    const result = await revertRuns(runIds, target);
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.conflicts.length > 0 ? 409 : 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Rewind error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
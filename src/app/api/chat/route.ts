@@ -5,9 +5,31 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ClaudeClient, getSystemPrompt, generateCodeContext } from '@/lib/claude';
-import { GitHubClient, formatFileTree } from '@/lib/github';
+import { GitHubClient, formatFileTree, formatChangesetMessage } from '@/lib/github';
 import { LocalFileSystem } from '@/lib/filesystem';
-import { ChatRequest, Settings, RepoFile, FileChange, TokenUsage } from '@/types';
+import { summarizeConversation, formatSummaryForPrompt, SUMMARY_MODEL } from '@/lib/summarizer';
+import { runToolCalls } from '@/lib/toolScheduler';
+import { createRun, createRunStream, hashApiKey, LiveRun } from '@/lib/runRegistry';
+import { requiresApproval, requestApproval, formatRejection } from '@/lib/approvals';
+import { getSearchProvider, formatSearchResults } from '@/lib/webSearch';
+import { resolveCommandPolicy, evaluateCommand, formatPolicyViolation } from '@/lib/commandPolicy';
+import { runCommand, formatCommandResult, createOutputBatcher } from '@/lib/commandRunner';
+import { estimateInputTokens, checkRoundBudget, getSpendStore } from '@/lib/budget';
+import { routeModel, isFailedToolResult, addModelCost } from '@/lib/modelRouter';
+import { OverlayFileSystem, changesetWrites, failedRunChunks } from '@/lib/overlayFs';
+import { countIdentifier, isIdentifier, renameIdentifier } from '@/lib/renameSymbol';
+import { replaceUnique } from '@/lib/strReplace';
+import { describeFileChange } from '@/lib/diff';
+import { GrepOptions, GrepResult, extensionGlobs, formatGrepMatches, grepFiles } from '@/lib/grep';
+import { RevertJournal, githubLocation, snapshotChangeset } from '@/lib/revert';
+import { CloneFileChange, CloneWorkspace, cloneChanges, prepareClone, pushClone, releaseClone } from '@/lib/cloneWorkspace';
+import { CodeIndex, RankedChunk, getCodeIndex } from '@/lib/codeIndex';
+import { ModuleGraph, formatDependencyGraph, getModuleGraph } from '@/lib/moduleGraph';
+import { SOURCE_GLOBS, findDefinitions, findReferences, formatOutline, formatSymbolLocations, getSymbolProject, isSymbolSource, listSymbols } from '@/lib/symbols';
+import { applyPatchSet, FilePatch, gitBlobSha, LineEdit, parseUnifiedDiff, PatchTarget } from '@/lib/patch';
+import { LoopAnalyzer, formatLoopHint, formatReplanInstruction, formatStopSummary } from '@/lib/loopAnalysis';
+import { generatePlan, formatPlanForPrompt, getPlanTool, applyPlanUpdate, advancePlan, normalizePlan } from '@/lib/planner';
+import { ChatRequest, DryRunChangeset, Settings, RepoFile, FileChange, TokenUsage, TaskPlan, Citation, ModelType, RunRevertRecord, SymbolLocation, APP_CONSTANTS, DEFAULT_SETTINGS } from '@/types';
 
 // Enhanced caching for cost optimization
 const fileTreeCache = new Map<string, { tree: string; timestamp: number }>();
@@ -15,6 +37,9 @@ const fileContentCache = new Map<string, { content: string; timestamp: number }>
 const CACHE_TTL = 60 * 60 * 1000; // 1 hour for optimal performance
 const CONTENT_CACHE_TTL = 30 * 60 * 1000; // 30 minutes for file contents
 const MAX_CACHE_SIZE = 100;
+const INDEX_WAIT_MS = 3000; // Longest a request waits for the code index to catch up
+const MAX_SYMBOL_RESULTS = 100;
+const MAX_GRAPH_DEPTH = 5;
 
 function cleanupCache(): void {
   const now = Date.now();
@@ -166,6 +191,10 @@ export async function PUT(request: NextRequest) {
     lastCleanup = now;
   }
 
+  // A prepared clone is busy until released - by the run loop once it starts, or below if setup throws first
+  let clone: CloneWorkspace | null = null;
+  let cloneHandedToRun = false;
+
   try {
     const body = await request.json() as ChatRequest;
     const { settings, repoContext } = body;
@@ -181,11 +210,47 @@ export async function PUT(request: NextRequest) {
     const claude = new ClaudeClient(anthropicKey, settings.model);
     const isLocalMode = settings.fileAccessMode === 'local' && settings.localWorkspacePath;
     const hasRepoContext = Boolean(repoContext && repoContext.owner && repoContext.repo);
-    
-    const github = !isLocalMode && hasRepoContext && githubToken
+    const isCloneMode = settings.fileAccessMode === 'clone';
+
+    if (isCloneMode && (!githubToken || !hasRepoContext)) {
+      return NextResponse.json({ error: 'GitHub token and repository required for clone mode' }, { status: 400 });
+    }
+
+    // A plan approved in the UI comes back from the client - check its shape before the loop relies on it
+    const approvedPlan = body.plan != null ? normalizePlan(body.plan) : null;
+    if (body.plan != null && !approvedPlan) {
+      return NextResponse.json({ error: 'Invalid plan: steps need a title, a known status and a list of files' }, { status: 400 });
+    }
+
+    // Clone mode works like local mode on a managed checkout and pushes the result at the end
+    if (isCloneMode) {
+      try {
+        clone = await prepareClone(githubToken!, repoContext.owner, repoContext.repo, repoContext.branch || 'main');
+      } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : 'Clone failed' }, { status: 409 });
+      }
+    }
+    const workspacePath = clone ? clone.path : isLocalMode ? settings.localWorkspacePath! : null;
+
+    const github = !isLocalMode && !clone && hasRepoContext && githubToken
       ? new GitHubClient(githubToken, repoContext.owner, repoContext.repo)
       : null;
-    const localFs = isLocalMode ? new LocalFileSystem(settings.localWorkspacePath!) : null;
+    // Clone runs still open pull requests through the API
+    const remote = clone ? new GitHubClient(githubToken!, repoContext.owner, repoContext.repo) : github;
+    const localFs = workspacePath ? new LocalFileSystem(workspacePath) : null;
+
+    // GitHub edits are staged in memory and committed once at the end of the run (reads see the
+    // branch as it was when the run started). Dry runs stage local edits too and never commit.
+    const dryRun = Boolean(body.dryRun && (localFs || github));
+    const baseSha = github ? await github.getBranchHead(repoContext.branch) : undefined;
+    const overlay = github
+      ? new OverlayFileSystem(async (path) => (await github.getFileContent(path, baseSha)).content)
+      : dryRun && localFs ? new OverlayFileSystem(path => localFs.readFile(path)) : null;
+    // Local writes land immediately - keep what each file looked like first so the run can be reverted
+    const journal = localFs && !dryRun ? new RevertJournal() : null;
+    const localRevert = (): RunRevertRecord | undefined => journal && journal.size > 0
+      ? { target: 'local', location: workspacePath!, files: journal.snapshot() }
+      : undefined;
 
     // Get file tree only - NO AUTO-LOADING OF FILES
     let fileTree = '';
@@ -203,13 +268,32 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    // NO AUTO-LOADING - Claude explores with tools
+    // NO AUTO-LOADING of whole files - Claude explores with tools
     const loadedFiles: RepoFile[] = [];
 
-    const codeContext = hasRepoContext ? generateCodeContext(fileTree, loadedFiles) : '';
+    // Auto context: the indexed code most relevant to the latest message, within a token budget
+    const autoContextTokens = settings.autoContextTokens ?? DEFAULT_SETTINGS.autoContextTokens;
+    const indexKey = github ? `${repoContext.owner}/${repoContext.repo}/${repoContext.branch}` : workspacePath;
+    const codeIndex = autoContextTokens > 0 && indexKey ? getCodeIndex(indexKey) : null;
+    let relevantCode: RankedChunk[] = [];
+    if (codeIndex) {
+      const sync = github
+        ? github.getBlobTree(baseSha || repoContext.branch).then(tree => codeIndex.sync(
+            tree.entries.map(entry => ({ path: entry.path, version: entry.sha, size: entry.size })),
+            entry => github.getBlobContent(entry.version)
+          ))
+        : localFs!.fileVersions().then(entries => codeIndex.sync(entries, entry => localFs!.readFile(entry.path)));
+      // A first sync of a large repository takes a while - it finishes in the background
+      // and this message uses whatever is indexed so far
+      await Promise.race([sync.catch(error => console.warn('Code index sync failed:', error)), new Promise(resolve => setTimeout(resolve, INDEX_WAIT_MS))]);
+      const lastRequest = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+      relevantCode = codeIndex.select(lastRequest, { tokenBudget: autoContextTokens });
+    }
+
+    const codeContext = hasRepoContext || workspacePath ? generateCodeContext(fileTree, loadedFiles, relevantCode) : '';
 
     const systemPrompt = hasRepoContext || isLocalMode
-      ? getSystemPrompt(repoContext?.owner || '', repoContext?.repo || '', repoContext?.branch || 'main', settings.enableWebSearch, !!isLocalMode)
+      ? getSystemPrompt(repoContext?.owner || '', repoContext?.repo || '', repoContext?.branch || 'main', settings.enableWebSearch, !!isLocalMode, !!clone)
       : getChatOnlySystemPrompt(settings.enableWebSearch);
 
     // Build tools - ALWAYS include web search if enabled (not just when keywords match)
@@ -225,233 +309,553 @@ export async function PUT(request: NextRequest) {
     // ========================================================================
     // AGENTIC LOOP
     // ========================================================================
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          const fileChanges: FileChange[] = [];
-          const MAX_ROUNDS = settings.effort === 'high' ? 18 : settings.effort === 'medium' ? 12 : 8;
-          let totalCost = 0;
-          let totalSavedPercent = 0;
-          const COST_LIMIT = settings.tokenBudget?.enabled ? settings.tokenBudget.perMessage : 1.0;
-
-          const seenFiles = new Set<string>();
-          let lastToolCallsSignature = '';
-          let repeatCount = 0;
-          const MAX_REPEATS = 3; // Increased from 2 - allow more exploration
-
-          type ContentBlock =
-            | { type: 'text'; text: string }
-            | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
-            | { type: 'tool_result'; tool_use_id: string; content: string };
-
-          // CONTEXT COMPRESSION: Summarize old messages to reduce tokens
-          const compressMessages = (msgs: typeof messages): typeof messages => {
-            if (msgs.length <= 6) return msgs; // Keep short convos as-is
-            
-            // Keep last 4 messages full, summarize the rest
-            const keepFull = msgs.slice(-4);
-            const toCompress = msgs.slice(0, -4);
-            
-            // Create simple summary
-            const summary = `[Previous ${toCompress.length} messages summarized: User and assistant discussed the task. Key context preserved in recent messages.]`;
-            
+    // Each request gets a run that outlives the HTTP response - if the client
+    // disconnects, the loop keeps going and can be reattached via /api/chat/runs/:id
+    const run = createRun(hashApiKey(anthropicKey));
+    const emit = (chunk: Record<string, unknown>) => run.emit(chunk);
+
+    emit({ type: 'run_start', runId: run.id });
+    if (relevantCode.length > 0) {
+      emit({
+        type: 'context',
+        message: `Added ${relevantCode.length} code excerpt${relevantCode.length > 1 ? 's' : ''} from ${new Set(relevantCode.map(chunk => chunk.path)).size} file(s)`,
+        contextChunks: relevantCode.map(({ path, startLine, endLine, symbol }) => ({ path, startLine, endLine, symbol })),
+      });
+    }
+
+    // Assigned once the run's cost counters exist; also flushed when the run fails
+    let recordSpend: () => Promise<void> = async () => undefined;
+
+    cloneHandedToRun = true;
+    void (async () => {
+      try {
+        const fileChanges: FileChange[] = [];
+        const citations: Citation[] = [];
+        const MAX_ROUNDS = settings.effort === 'high' ? 18 : settings.effort === 'medium' ? 12 : 8;
+        let totalCost = 0;
+        const costByModel: Partial<Record<ModelType, number>> = {};
+        let totalSavedPercent = 0;
+        const COST_LIMIT = settings.tokenBudget?.enabled ? settings.tokenBudget.perMessage : 1.0;
+        const DAILY_LIMIT = settings.tokenBudget?.enabled ? settings.tokenBudget.perDay : undefined;
+
+        // Daily spend is tracked server-side per API key hash; record each round as it is paid for
+        const spendStore = getSpendStore();
+        let recordedCost = 0;
+        recordSpend = async () => {
+          const delta = totalCost - recordedCost;
+          if (delta <= 0) return;
+          recordedCost = totalCost;
+          try {
+            await spendStore.addSpend(run.snapshot.ownerHash, delta);
+          } catch (error) {
+            console.warn('Failed to record spend:', error instanceof Error ? error.message : error);
+          }
+        };
+
+        const seenFiles = new Set<string>();
+        const loopAnalyzer = new LoopAnalyzer({ seenFiles });
+
+        // What the previous round did - drives the per-round model choice
+        let previousTools: string[] = [];
+        let previousErrors = 0;
+        let previousStuck = false;
+
+        type ContentBlock =
+          | { type: 'text'; text: string }
+          | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+          | { type: 'tool_result'; tool_use_id: string; content: string };
+
+        // CONTEXT COMPRESSION: Summarize old messages with a cheap model to reduce tokens
+        const compressMessages = async (msgs: typeof messages): Promise<typeof messages> => {
+          if (msgs.length < APP_CONSTANTS.SUMMARY_MIN_MESSAGES) return msgs; // Keep short convos as-is
+
+          // Keep last messages full, summarize the rest
+          const keepFull = msgs.slice(-APP_CONSTANTS.SUMMARY_KEEP_RECENT);
+
+          try {
+            const { summary, cost, cached } = await summarizeConversation(anthropicKey, body.conversationId, msgs);
+            totalCost += cost;
+            addModelCost(costByModel, SUMMARY_MODEL, cost);
+
+            emit({
+              type: 'summary',
+              summary,
+              cost,
+              message: cached
+                ? `Using cached summary of ${summary.summarizedCount} earlier messages`
+                : `Summarized ${summary.summarizedCount} earlier messages`,
+            });
+
             return [
-              { role: 'user' as const, content: summary },
-              ...keepFull
+              { role: 'user' as const, content: formatSummaryForPrompt(summary) },
+              ...keepFull,
             ];
-          };
+          } catch (error) {
+            // Summarization is best-effort - fall back to a placeholder rather than failing the run
+            console.warn('Conversation summarization failed:', error instanceof Error ? error.message : error);
+            const toCompress = msgs.slice(0, -APP_CONSTANTS.SUMMARY_KEEP_RECENT);
+            return [
+              { role: 'user' as const, content: `[Previous ${toCompress.length} messages omitted. Key context preserved in recent messages.]` },
+              ...keepFull,
+            ];
+          }
+        };
+
+        const compressedMessages = await compressMessages(messages);
+        const convo: Array<{ role: 'user' | 'assistant'; content: string | ContentBlock[] }> = compressedMessages.map(m => ({
+          role: m.role,
+          content: m.content,
+        }));
+
+        // PLANNING PHASE: produce (or reuse a user-edited) plan before any tool runs
+        let plan: TaskPlan | null = null;
+        let executionPrompt = systemPrompt;
+        const canPlan = hasRepoContext || isLocalMode;
+
+        if (canPlan && (approvedPlan || (settings.planFirst ?? DEFAULT_SETTINGS.planFirst))) {
+          if (approvedPlan) {
+            plan = approvedPlan;
+          } else {
+            emit({ type: 'round_start', round: 0, message: 'Planning...' });
+            try {
+              const planned = await generatePlan(claude, compressedMessages, codeContext);
+              totalCost += planned.cost;
+              addModelCost(costByModel, claude.getModel(), planned.cost);
+              plan = planned.plan.steps.length > 0 ? planned.plan : null;
+            } catch (error) {
+              // Planning is best-effort - execute without a plan rather than failing the run
+              console.warn('Planning failed:', error instanceof Error ? error.message : error);
+            }
+          }
 
-          const compressedMessages = compressMessages(messages);
-          const convo: Array<{ role: 'user' | 'assistant'; content: string | ContentBlock[] }> = compressedMessages.map(m => ({
-            role: m.role,
-            content: m.content,
-          }));
+          if (plan) {
+            emit({ type: 'plan', plan, message: `Plan: ${plan.steps.length} steps` });
+            executionPrompt = systemPrompt + formatPlanForPrompt(plan);
+            tools.push(getPlanTool());
+          }
+        }
 
-          for (let round = 0; round < MAX_ROUNDS; round++) {
-            const pendingToolCalls: Array<{ id: string; name: string; input: Record<string, unknown> }> = [];
-            const assistantBlocks: ContentBlock[] = [];
+        // Tick plan steps off as edits land
+        const syncPlanWithEdits = () => {
+          if (!plan) return;
+          const editedFiles = new Set(fileChanges.map(change => change.path.replace(/^\/+/, '')));
+          for (const step of advancePlan(plan, editedFiles)) {
+            emit({ type: 'plan_update', step: { ...step } });
+          }
+        };
 
-            controller.enqueue(encoder.encode(JSON.stringify({
-              type: 'round_start',
-              round: round + 1,
-              message: round === 0 ? 'Working...' : `Round ${round + 1}...`,
-              seenFiles: [...seenFiles],
-            }) + '\n'));
-
-            const pushTextBlock = (delta: string) => {
-              if (!delta) return;
-              const last = assistantBlocks[assistantBlocks.length - 1];
-              if (last && last.type === 'text') {
-                last.text += delta;
-              } else {
-                assistantBlocks.push({ type: 'text', text: delta });
-              }
-            };
-
-            const streamGenerator = claude.streamChat(convo, systemPrompt, codeContext, {
-              tools: tools.length > 0 ? tools : undefined,
-              enableThinking: settings.enableExtendedThinking,
-              thinkingBudget: settings.thinkingBudget,
-              effort: settings.effort,
-              enableContextCompaction: settings.enableContextCompaction,
-              enableInterleavedThinking: settings.enableInterleavedThinking,
-              toolExecutionMode: settings.toolExecutionMode,
+        for (let round = 0; round < MAX_ROUNDS; round++) {
+          if (run.isCancelled()) {
+            emit({ type: 'text', content: '\n\n⏹️ Run cancelled.' });
+            break;
+          }
+
+          const pendingToolCalls: Array<{ id: string; name: string; input: Record<string, unknown> }> = [];
+          const assistantBlocks: ContentBlock[] = [];
+
+          const routed = routeModel(settings, {
+            round,
+            hasWorkspace: Boolean(hasRepoContext || isLocalMode),
+            previousTools,
+            previousErrors,
+            stuck: previousStuck,
+          });
+
+          emit({
+            type: 'round_start',
+            round: round + 1,
+            message: round === 0 ? 'Working...' : `Round ${round + 1}...`,
+            seenFiles: [...seenFiles],
+            model: routed.model,
+            phase: routed.phase,
+            reason: routed.reason,
+          });
+
+          const pushTextBlock = (delta: string) => {
+            if (!delta) return;
+            const last = assistantBlocks[assistantBlocks.length - 1];
+            if (last && last.type === 'text') {
+              last.text += delta;
+            } else {
+              assistantBlocks.push({ type: 'text', text: delta });
+            }
+          };
+
+          // PRE-FLIGHT BUDGET: project this round's cost before paying for it
+          claude.setModel(routed.model);
+          const roundTools = tools.length > 0 ? tools : undefined;
+          const estimate = await estimateInputTokens(claude, convo, executionPrompt, codeContext, roundTools);
+          const spentToday = await spendStore.getDailySpend(run.snapshot.ownerHash).catch(() => 0) + (totalCost - recordedCost);
+          const budget = checkRoundBudget({
+            model: routed.model,
+            inputTokens: estimate.tokens,
+            effort: settings.effort,
+            spentThisMessage: totalCost,
+            spentToday,
+            perMessage: COST_LIMIT,
+            perDay: DAILY_LIMIT,
+            allowDowngrade: (settings.tokenBudget?.overBudget ?? DEFAULT_SETTINGS.tokenBudget.overBudget) === 'downgrade',
+          });
+
+          emit({
+            type: 'budget',
+            round: round + 1,
+            model: budget.model,
+            action: budget.action,
+            projectedCost: budget.projectedCost,
+            inputTokens: estimate.tokens,
+            tokenSource: estimate.source,
+            spentToday,
+            message: budget.reason,
+          });
+
+          if (budget.action === 'refuse') {
+            emit({
+              type: 'text',
+              content: `\n\n⚠️ Budget limit: ${budget.reason}. Stopping before the next round.`,
             });
+            break;
+          }
+          if (budget.action === 'downgrade') {
+            claude.setModel(budget.model);
+          }
 
-            for await (const chunk of streamGenerator) {
-              if (chunk.type === 'text') {
-                controller.enqueue(encoder.encode(JSON.stringify({ ...chunk, round: round + 1 }) + '\n'));
-                pushTextBlock(chunk.content || '');
-              } else if (chunk.type === 'thinking') {
-                controller.enqueue(encoder.encode(JSON.stringify({ ...chunk, round: round + 1 }) + '\n'));
-              } else if (chunk.type === 'tool_use' && chunk.toolCall) {
-                const toolMessage = getToolStartMessage(chunk.toolCall.name, chunk.toolCall.input);
-                controller.enqueue(encoder.encode(JSON.stringify({
-                  type: 'tool_start',
-                  round: round + 1,
-                  toolCall: chunk.toolCall,
-                  message: toolMessage,
-                }) + '\n'));
-
-                pendingToolCalls.push({
-                  id: chunk.toolCall.id,
-                  name: chunk.toolCall.name,
-                  input: chunk.toolCall.input,
-                });
-                assistantBlocks.push({
-                  type: 'tool_use',
-                  id: chunk.toolCall.id,
-                  name: chunk.toolCall.name,
-                  input: chunk.toolCall.input,
+          const streamGenerator = claude.streamChat(convo, executionPrompt, codeContext, {
+            tools: roundTools,
+            enableThinking: settings.enableExtendedThinking,
+            thinkingBudget: settings.thinkingBudget,
+            effort: settings.effort,
+            enableContextCompaction: settings.enableContextCompaction,
+            enableInterleavedThinking: settings.enableInterleavedThinking,
+            toolExecutionMode: settings.toolExecutionMode,
+          });
+
+          for await (const chunk of streamGenerator) {
+            if (chunk.type === 'text') {
+              emit({ ...chunk, round: round + 1 });
+              pushTextBlock(chunk.content || '');
+            } else if (chunk.type === 'thinking') {
+              emit({ ...chunk, round: round + 1 });
+            } else if (chunk.type === 'tool_use' && chunk.toolCall) {
+              const toolMessage = getToolStartMessage(chunk.toolCall.name, chunk.toolCall.input);
+              emit({
+                type: 'tool_start',
+                round: round + 1,
+                toolCall: chunk.toolCall,
+                message: toolMessage,
+              });
+
+              pendingToolCalls.push({
+                id: chunk.toolCall.id,
+                name: chunk.toolCall.name,
+                input: chunk.toolCall.input,
+              });
+              assistantBlocks.push({
+                type: 'tool_use',
+                id: chunk.toolCall.id,
+                name: chunk.toolCall.name,
+                input: chunk.toolCall.input,
+              });
+            } else if (chunk.type === 'done') {
+              totalCost += chunk.cost || 0;
+              addModelCost(costByModel, claude.getModel(), chunk.cost || 0);
+              totalSavedPercent = chunk.savedPercent || 0;
+            
+              if (totalCost > COST_LIMIT) {
+                emit({
+                  type: 'text',
+                  content: `\n\n⚠️ Cost limit reached ($${totalCost.toFixed(2)}). Stopping.`,
                 });
-              } else if (chunk.type === 'done') {
-                totalCost += chunk.cost || 0;
-                totalSavedPercent = chunk.savedPercent || 0;
-                
-                if (totalCost > COST_LIMIT) {
-                  controller.enqueue(encoder.encode(JSON.stringify({
-                    type: 'text',
-                    content: `\n\n⚠️ Cost limit reached ($${totalCost.toFixed(2)}). Stopping.`,
-                  }) + '\n'));
-                  break;
-                }
+                break;
               }
             }
+          }
 
-            // Stop if no tools requested
-            if (pendingToolCalls.length === 0) {
-              break;
-            }
+          // Stop if no tools requested
+          if (pendingToolCalls.length === 0) {
+            break;
+          }
 
-            // No filesystem access
-            if (!github && !localFs) {
-              controller.enqueue(encoder.encode(JSON.stringify({
-                type: 'text',
-                content: '\n\n[No file system available. Please connect a repo or set local path.]',
-              }) + '\n'));
-              break;
+          // No filesystem access - web tools still work in chat-only mode
+          if (!github && !localFs && pendingToolCalls.some(t => t.name !== 'web_search' && t.name !== 'web_fetch')) {
+            emit({
+              type: 'text',
+              content: '\n\n[No file system available. Please connect a repo or set local path.]',
+            });
+            break;
+          }
+
+          // REMOVED: "onlyAnalysis" guardrail - it was blocking legitimate exploration
+
+          // Execute tools - read-only calls run concurrently, mutations stay ordered
+          const approvalMode = settings.approvalMode ?? DEFAULT_SETTINGS.approvalMode;
+          const changesByCall = new Map<string, FileChange[]>(); // Shown as diffs on the call's action block
+          const scheduled = await runToolCalls(pendingToolCalls, async (toolCall) => {
+            // Plan bookkeeping never touches the workspace and needs no approval
+            if (toolCall.name === 'update_plan' && plan) {
+              const { step, error } = applyPlanUpdate(plan, toolCall.input);
+              if (!step) return `Error: ${error}`;
+              emit({ type: 'plan_update', step: { ...step } });
+              return `✓ Step ${step.id} marked ${step.status}`;
             }
 
-            // Stuck detection - ONLY for exact repeated actions, increased threshold
-            const currentSignature = pendingToolCalls.map(t => `${t.name}:${JSON.stringify(t.input)}`).sort().join('|');
-
-            if (currentSignature === lastToolCallsSignature) {
-              repeatCount++;
-              if (repeatCount >= MAX_REPEATS) {
-                controller.enqueue(encoder.encode(JSON.stringify({
-                  type: 'stuck_warning',
-                  message: 'Repeated actions detected. Nudging...',
-                }) + '\n'));
-
-                const nudge: ContentBlock[] = pendingToolCalls.map(tc => ({
-                  type: 'tool_result',
-                  tool_use_id: tc.id,
-                  content: 'You repeated the same action. Try a different approach or make an edit.'
-                }));
-                convo.push({ role: 'assistant', content: assistantBlocks.length > 0 ? assistantBlocks : [{ type: 'text', text: '' }] });
-                convo.push({ role: 'user', content: nudge });
-                lastToolCallsSignature = '';
-                repeatCount = 0;
-                continue;
+            let call = toolCall;
+            let editedByUser = false;
+
+            // Human-in-the-loop gate - the loop pauses here until the user decides.
+            // Dry runs only touch the overlay, so there is nothing to approve yet.
+            if (!dryRun && requiresApproval(toolCall.name, approvalMode)) {
+              const decision = await requestApproval(run, toolCall);
+              if (decision.action === 'reject') {
+                return formatRejection(toolCall.name, decision.reason);
+              }
+              if (decision.action === 'edit') {
+                call = { ...toolCall, input: { ...toolCall.input, ...decision.input } };
+                editedByUser = true;
               }
-            } else {
-              lastToolCallsSignature = currentSignature;
-              repeatCount = 0;
             }
 
-            // REMOVED: "onlyAnalysis" guardrail - it was blocking legitimate exploration
+            let result = '';
+            // Mutations run one at a time, so everything appended meanwhile belongs to this call
+            const changesBefore = fileChanges.length;
+            try {
+              result = await executeToolCall(call, { localFs, github, overlay, journal, dryRun, workspacePath, baseSha, repoContext, seenFiles, fileChanges, citations, settings, run, emit });
+            } catch (error) {
+              result = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            }
+            if (fileChanges.length > changesBefore) {
+              const changed = fileChanges.slice(changesBefore);
+              changesByCall.set(toolCall.id, changed);
+              if (codeIndex) await reindexChanges(codeIndex, changed, overlay ?? localFs, Boolean(github));
+            }
+            if (editedByUser) {
+              result = `[The user edited this call before it ran. Input used: ${JSON.stringify(call.input)}]\n${result}`;
+            }
+            return clipToolResult(toolCall.name, result);
+          }, {
+            concurrency: settings.maxParallelTools ?? DEFAULT_SETTINGS.maxParallelTools,
+            onComplete: ({ call, result, startedAt, waitMs, durationMs }) => {
+              emit({
+                type: 'tool_result',
+                round: round + 1,
+                toolUseId: call.id,
+                name: call.name,
+                result,
+                fileChanges: changesByCall.get(call.id),
+                startedAt,
+                waitMs,
+                durationMs,
+              });
+              syncPlanWithEdits();
+            },
+          });
+
+          // Results go back to the model in the original call order
+          const toolResults: Array<{ type: 'tool_result'; tool_use_id: string; content: string }> = scheduled.map(({ call, result }) => ({
+            type: 'tool_result',
+            tool_use_id: call.id,
+            content: result,
+          }));
 
-            // Execute tools
-            const toolResults: Array<{ type: 'tool_result'; tool_use_id: string; content: string }> = [];
+          // Progress check - near-repeats and recurring failures escalate hint → re-plan → stop
+          const loop = loopAnalyzer.analyzeRound(pendingToolCalls, scheduled.map(({ result }) => result));
+          const failedResults = scheduled.map(({ result }) => result).filter(isFailedToolResult);
+          const userContent: ContentBlock[] = [...toolResults];
 
-            for (const toolCall of pendingToolCalls) {
-              let result = '';
-              try {
-                result = await executeToolCall(toolCall, { localFs, github, repoContext, seenFiles, fileChanges, settings });
-              } catch (error) {
-                result = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
-              }
+          if (loop.action !== 'continue') {
+            emit({
+              type: 'stuck_warning',
+              round: round + 1,
+              escalation: loop.action,
+              reason: loop.reason,
+              stalledRounds: loop.stalledRounds,
+              message: loop.action === 'hint'
+                ? 'Little progress - nudging...'
+                : loop.action === 'replan' ? 'Still stuck - re-planning...' : 'No progress - stopping',
+            });
+          }
 
-              const cap = toolCall.name === 'read_file' ? 6000 : 4000;
-              let clipped = result;
-              if (result.length > cap) {
-                clipped = result.slice(0, cap);
-                clipped += `\n\n--- OUTPUT TRUNCATED (${result.length} chars total) ---`;
-                if (toolCall.name === 'read_file') {
-                  clipped += `\nUse start_line/end_line to read specific sections.`;
-                } else if (toolCall.name === 'grep_search') {
-                  clipped += `\nNarrow search or check specific files.`;
+          if (loop.action === 'hint') {
+            userContent.push({ type: 'text', text: formatLoopHint(loop) });
+          } else if (loop.action === 'replan') {
+            userContent.push({ type: 'text', text: formatReplanInstruction(loop) });
+
+            // With a task plan, replace it with a fresh one built from what went wrong
+            if (plan) {
+              try {
+                const last = compressedMessages[compressedMessages.length - 1];
+                const editedSoFar = fileChanges.map(change => change.path);
+                const replanned = await generatePlan(claude, [
+                  ...compressedMessages.slice(0, -1),
+                  {
+                    role: 'user',
+                    content: `${last?.content ?? ''}\n\n${formatReplanInstruction(loop)}\nThe previous plan was:${formatPlanForPrompt(plan)}\nFiles changed so far: ${editedSoFar.join(', ') || 'none'}`,
+                  },
+                ], codeContext);
+                totalCost += replanned.cost;
+                addModelCost(costByModel, claude.getModel(), replanned.cost);
+                if (replanned.plan.steps.length > 0) {
+                  plan = replanned.plan;
+                  syncPlanWithEdits();
+                  executionPrompt = systemPrompt + formatPlanForPrompt(plan);
+                  emit({ type: 'plan', plan, message: `Re-planned: ${plan.steps.length} steps` });
                 }
+              } catch (error) {
+                console.warn('Re-planning failed:', error instanceof Error ? error.message : error);
               }
-              
-              controller.enqueue(encoder.encode(JSON.stringify({
-                type: 'tool_result',
-                round: round + 1,
-                toolUseId: toolCall.id,
-                name: toolCall.name,
-                result: clipped,
-              }) + '\n'));
-
-              toolResults.push({ type: 'tool_result', tool_use_id: toolCall.id, content: clipped });
             }
+          }
 
-            convo.push({ role: 'assistant', content: assistantBlocks.length > 0 ? assistantBlocks : [{ type: 'text', text: '' }] });
-            convo.push({ role: 'user', content: toolResults });
+          convo.push({ role: 'assistant', content: assistantBlocks.length > 0 ? assistantBlocks : [{ type: 'text', text: '' }] });
+          convo.push({ role: 'user', content: userContent });
+
+          previousTools = pendingToolCalls.map(t => t.name);
+          previousErrors = failedResults.length;
+          previousStuck = loop.action !== 'continue';
+
+          if (loop.action === 'stop') {
+            emit({
+              type: 'text',
+              content: `\n\n${formatStopSummary(loop, {
+                editedFiles: [...new Set(fileChanges.map(change => change.path))],
+                seenFiles: [...seenFiles],
+                lastErrors: failedResults,
+              })}`,
+            });
+            await recordSpend();
+            await run.checkpoint({ round: round + 1, convo, fileChanges, seenFiles: [...seenFiles], totalCost, revert: localRevert() });
+            break;
           }
 
-          // Auto-create PR
-          const { prUrl, prNumber } = await handlePullRequestCreation(fileChanges, github, !!hasRepoContext, repoContext, controller, encoder);
+          // Persist round state so the run can be inspected or replayed after a disconnect
+          await recordSpend();
+          await run.checkpoint({ round: round + 1, convo, fileChanges, seenFiles: [...seenFiles], totalCost, revert: localRevert() });
+        }
 
-          controller.enqueue(encoder.encode(JSON.stringify({
-            type: 'done',
-            cost: totalCost,
-            savedPercent: totalSavedPercent,
-            fileChanges: fileChanges.length > 0 ? fileChanges : undefined,
-            seenFiles: [...seenFiles],
-            prUrl,
-            prNumber,
-          }) + '\n'));
-
-          controller.close();
-        } catch (error) {
-          const message = error instanceof Error ? error.message : 'Stream error';
-          controller.enqueue(encoder.encode(JSON.stringify({ error: message }) + '\n'));
-          controller.close();
+        // Dry runs return the changeset for review; GitHub runs commit it in one go, then open a PR
+        const staged = overlay ? overlay.getChangeset() : undefined;
+        let pendingChangeset = dryRun ? staged : undefined;
+        let doneFileChanges: FileChange[] = fileChanges;
+        let commitSha: string | undefined;
+
+        if (dryRun && staged) {
+          emit({
+            type: 'text',
+            content: staged.files.length > 0
+              ? `\n\n🧪 **Dry run:** ${staged.files.length} file${staged.files.length > 1 ? 's' : ''} would change. Nothing was written - review the diff and apply it below.`
+              : '\n\n🧪 **Dry run:** no files would change.',
+          });
+        } else if (github && staged && baseSha) {
+          doneFileChanges = staged.files.map(({ before: _before, after: _after, ...change }) => change);
+          if (staged.files.length > 0) {
+            const request = [...messages].reverse().find(m => m.role === 'user')?.content;
+            const commit = await github.commitChangeset(
+              repoContext.branch,
+              baseSha,
+              changesetWrites(staged).map(file => ({ path: file.path, content: file.content })),
+              formatChangesetMessage(doneFileChanges, request)
+            );
+            if (commit.success && commit.sha) {
+              commitSha = commit.sha;
+              await run.checkpoint({
+                revert: {
+                  target: 'github',
+                  location: githubLocation(repoContext.owner, repoContext.repo, repoContext.branch),
+                  commitSha: commit.sha,
+                  files: snapshotChangeset(staged.files),
+                },
+              });
+              emit({
+                type: 'text',
+                content: `\n\n📦 Committed ${staged.files.length} file${staged.files.length > 1 ? 's' : ''} to \`${repoContext.branch}\` in [${commit.sha.slice(0, 7)}](${commit.url})`,
+              });
+            } else {
+              // Nothing landed - hand the changes back so they can be applied once resolved
+              emit({ type: 'text', content: `\n\n⚠️ Could not commit: ${commit.error}. The changes are kept below.` });
+              pendingChangeset = staged;
+              doneFileChanges = [];
+            }
+          }
+        } else if (clone && localFs && !dryRun) {
+          // Edits (and any commits the agent made) are on disk - commit the rest and push.
+          // Commands write files too, so what is pushed is read from git rather than the journal.
+          const request = [...messages].reverse().find(m => m.role === 'user')?.content;
+          const changed = await cloneChanges(clone);
+          const pushed = await pushClone(clone, githubToken!, formatChangesetMessage(fileChanges, request));
+          if (pushed.success && pushed.sha) {
+            commitSha = pushed.sha;
+            await run.checkpoint({
+              revert: {
+                target: 'github',
+                location: githubLocation(repoContext.owner, repoContext.repo, repoContext.branch),
+                commitSha: pushed.sha,
+                files: changed.map(file => ({
+                  path: file.path,
+                  beforeSha: file.before === null ? null : gitBlobSha(file.before),
+                  afterSha: file.after === null ? null : gitBlobSha(file.after),
+                })),
+              },
+            });
+            emit({
+              type: 'text',
+              content: `\n\n📦 Pushed to \`${repoContext.branch}\` in [${pushed.sha.slice(0, 7)}](${pushed.url})`,
+            });
+          } else if (!pushed.success) {
+            // The clone is reset on its next use - hand the changes back so they can be applied once resolved
+            emit({ type: 'text', content: `\n\n⚠️ Could not push: ${pushed.error}. The changes are kept below.` });
+            pendingChangeset = await cloneChangeset(changed);
+            doneFileChanges = [];
+          }
         }
-      },
-    });
 
-    return new Response(stream, {
+        const { prUrl, prNumber } = dryRun
+          ? {}
+          : await handlePullRequestCreation(doneFileChanges, remote, !!hasRepoContext, repoContext, emit);
+
+        emit({
+          type: 'done',
+          cost: totalCost,
+          costByModel,
+          savedPercent: totalSavedPercent,
+          fileChanges: !dryRun && doneFileChanges.length > 0 ? doneFileChanges : undefined,
+          commitSha,
+          dryRun: pendingChangeset,
+          seenFiles: [...seenFiles],
+          prUrl,
+          prNumber,
+          plan: plan ?? undefined,
+          citations: citations.length > 0 ? citations : undefined,
+        });
+
+        await recordSpend();
+        await run.finish(run.isCancelled() ? 'cancelled' : 'completed');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Stream error';
+        // Nothing was committed or pushed - staged edits go back to the client like a failed commit
+        const staged = overlay && overlay.stagedPaths().length > 0
+          ? overlay.getChangeset()
+          : clone && !dryRun ? await cloneChanges(clone).then(cloneChangeset).catch(() => undefined) : undefined;
+        for (const chunk of failedRunChunks(message, staged)) emit(chunk);
+        await recordSpend();
+        if (journal) await run.checkpoint({ revert: localRevert() });
+        await run.finish('failed', message);
+      } finally {
+        if (clone) releaseClone(clone);
+      }
+    })();
+
+    return new Response(createRunStream(run.id), {
       headers: {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
+        'X-Run-Id': run.id,
       },
     });
 
   } catch (error) {
     console.error('Stream API error:', error);
+    if (clone && !cloneHandedToRun) releaseClone(clone);
     const message = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ error: message }, { status: 500 });
   }
@@ -465,13 +869,21 @@ async function executeToolCall(
   context: {
     localFs: LocalFileSystem | null;
     github: GitHubClient | null;
+    overlay: OverlayFileSystem | null; // Staged writes - GitHub mode and dry runs
+    journal: RevertJournal | null; // Pre-edit content of local writes
+    dryRun: boolean;
+    workspacePath: string | null; // Local checkout or clone that localFs and commands work in
+    baseSha?: string; // Branch head the GitHub run started from, which its reads see
     repoContext: any;
     seenFiles: Set<string>;
     fileChanges: FileChange[];
+    citations: Citation[];
     settings: Settings;
+    run: LiveRun;
+    emit: (chunk: Record<string, unknown>) => void;
   }
 ): Promise<string> {
-  const { localFs, github, repoContext, seenFiles, fileChanges, settings } = context;
+  const { localFs, github, overlay, journal, dryRun, workspacePath, baseSha, repoContext, seenFiles, fileChanges, citations, settings, run, emit } = context;
 
   // READ FILE - With line range support
   if (toolCall.name === 'read_file') {
@@ -479,7 +891,9 @@ async function executeToolCall(
     let content: string;
     
     try {
-      if (localFs) {
+      if (overlay) {
+        content = await overlay.readFile(input.path);
+      } else if (localFs) {
         content = await localFs.readFile(input.path);
       } else if (github) {
         const file = await github.getFileContent(input.path, repoContext.branch);
@@ -489,7 +903,7 @@ async function executeToolCall(
       }
     } catch (error) {
       // Clear error message with repo context
-      const repoName = repoContext?.repo || settings.localWorkspacePath || 'unknown';
+      const repoName = repoContext?.repo || workspacePath || 'unknown';
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       if (errorMsg.includes('not found') || errorMsg.includes('ENOENT') || errorMsg.includes('404')) {
         return `Error: File "${input.path}" not found in ${repoName}.\nCheck the path or use search_files to find the correct file.`;
@@ -507,7 +921,7 @@ async function executeToolCall(
       // Line range requested - return specific lines with line numbers
       const selectedLines = lines.slice(startLine - 1, endLine);
       result = selectedLines.map((line, i) => `${startLine + i}: ${line}`).join('\n');
-      result = `--- ${input.path} (lines ${startLine}-${endLine} of ${lines.length}) ---\n${result}`;
+      result = `--- ${input.path} (lines ${startLine}-${endLine} of ${lines.length}, sha ${gitBlobSha(content).slice(0, 12)}) ---\n${result}`;
     } else {
       // Full file - truncate if too long (save tokens)
       const MAX = 6000;
@@ -518,7 +932,7 @@ async function executeToolCall(
         result += `\n\n--- TRUNCATED (showing ~${linesShown} of ${totalLines} lines) ---`;
         result += `\nFile continues. Use read_file with start_line/end_line to see more.`;
       }
-      result = `--- ${input.path} (${lines.length} lines, ${content.length} chars) ---\n${result}`;
+      result = `--- ${input.path} (${lines.length} lines, ${content.length} chars, sha ${gitBlobSha(content).slice(0, 12)}) ---\n${result}`;
     }
     
     seenFiles.add(input.path);
@@ -543,73 +957,353 @@ async function executeToolCall(
       : 'No files found.';
   }
 
-  // GREP SEARCH
+  // GREP SEARCH - True line numbers in both modes; GitHub mode searches the run's branch
   if (toolCall.name === 'grep_search') {
-    const input = toolCall.input as { query: string; file_extensions?: string };
-    
-    if (localFs) {
-      // localFs expects array and returns {path, line, content}[]
-      const extensions = input.file_extensions ? input.file_extensions.split(',').map(e => e.trim()) : undefined;
-      const results = await localFs.grepSearch(input.query, extensions);
-      if (results.length === 0) return 'No matches found.';
-      const formatted = results.slice(0, 50).map(r => `${r.path}:${r.line}: ${r.content}`);
-      return `Found ${results.length} matches:\n${formatted.join('\n')}`;
-    } else if (github) {
-      // github expects string and returns string[]
-      const results = await github.grepSearch(input.query, input.file_extensions);
-      return results.length > 0
-        ? `Found ${results.length} matches:\n${results.slice(0, 50).join('\n')}`
-        : 'No matches found.';
+    const input = toolCall.input as {
+      query: string;
+      regex?: boolean;
+      case_sensitive?: boolean;
+      include?: string[];
+      exclude?: string[];
+      context_lines?: number;
+      file_extensions?: string;
+    };
+    const options: GrepOptions = {
+      regex: input.regex,
+      caseSensitive: input.case_sensitive,
+      include: [...(input.include ?? []), ...extensionGlobs(input.file_extensions?.split(','))],
+      exclude: input.exclude,
+      contextLines: input.context_lines,
+      maxResults: 50,
+    };
+
+    let result: GrepResult;
+    try {
+      if (localFs) {
+        // grep -F narrows a literal, case-sensitive query to the files containing it
+        const paths = !input.regex && input.case_sensitive !== false
+          ? await localFs.findFilesContaining(input.query)
+          : await localFs.listFiles();
+        const source = overlay ?? localFs;
+        result = await grepFiles(
+          overlay ? [...new Set([...paths, ...overlay.stagedPaths()])] : paths,
+          path => source.readFile(path).catch(() => null),
+          input.query,
+          options
+        );
+      } else if (github) {
+        result = await github.grepSearch(input.query, repoContext.branch, options);
+        if (overlay) {
+          // Files staged in this run are searched as they are now, not as committed
+          const staged = await grepFiles(overlay.stagedPaths(), path => overlay.readFile(path).catch(() => null), input.query, options);
+          const matches = [...result.matches.filter(match => !overlay.has(match.path)), ...staged.matches];
+          result = {
+            matches: matches.slice(0, options.maxResults),
+            filesSearched: result.filesSearched + staged.filesSearched,
+            truncated: result.truncated || staged.truncated || matches.length > options.maxResults!,
+          };
+        }
+      } else {
+        return 'Grep search not available.';
+      }
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : 'Grep search failed'}`;
+    }
+
+    if (result.matches.length === 0) {
+      return `No matches found (searched ${result.filesSearched} files).${result.truncated ? ' Some files were not searched - narrow the search with include.' : ''}`;
     }
-    return 'Grep search not available.';
+    const fileCount = new Set(result.matches.map(match => match.path)).size;
+    return `Found ${result.matches.length} matches in ${fileCount} files${result.truncated ? ' (truncated - narrow with include/exclude or a more specific query)' : ''}:
+${formatGrepMatches(result.matches)}`;
+  }
+
+  // FIND DEFINITION / FIND REFERENCES
+  if (toolCall.name === 'find_definition' || toolCall.name === 'find_references') {
+    const input = toolCall.input as { symbol: string; path?: string; line?: number };
+    const definitions = toolCall.name === 'find_definition';
+    if (!isIdentifier(input.symbol)) return `Error: "${input.symbol}" is not an identifier`;
+    if (input.path && !isSymbolSource(input.path)) return `Error: ${toolCall.name} only supports TypeScript and JavaScript files`;
+
+    let locations: SymbolLocation[];
+    try {
+      const staged = overlay
+        ? await Promise.all(overlay.stagedPaths().filter(isSymbolSource).map(async path => ({ path, content: await overlay.readFile(path) })))
+        : [];
+      if (localFs && workspacePath) {
+        const project = getSymbolProject(workspacePath);
+        project.setStagedFiles(staged);
+        locations = definitions
+          ? project.findDefinition(input.symbol, input.path, input.line)
+          : project.findReferences(input.symbol, input.path, input.line);
+      } else if (github) {
+        // Files staged in this run are parsed as they are now, not as committed
+        const committed = await github.getFilesMentioning(input.symbol, repoContext.branch, SOURCE_GLOBS);
+        const files = [
+          ...committed.filter(file => !overlay?.has(file.path)),
+          ...staged.filter(file => countIdentifier(file.content, input.symbol) > 0 || file.path === input.path),
+        ];
+        // Imports resolve through the branch's tsconfig paths, so "@/lib/auth" matches src/lib/auth.ts
+        const resolver = await github.getModuleResolver(repoContext.branch, staged.map(file => file.path));
+        const found = findDefinitions(input.symbol, files, input.path, resolver);
+        locations = definitions ? found : findReferences(input.symbol, files, found.length === 1 ? found[0] : undefined, resolver);
+      } else {
+        return 'Symbol navigation not available.';
+      }
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : `${toolCall.name} failed`}`;
+    }
+
+    const noun = definitions ? 'definition' : 'reference';
+    if (locations.length === 0) return `No ${noun}s of ${input.symbol} found.`;
+    const shown = locations.slice(0, MAX_SYMBOL_RESULTS);
+    return `Found ${locations.length} ${noun}${locations.length === 1 ? '' : 's'} of ${input.symbol}${
+      locations.length > shown.length ? ` (showing the first ${shown.length})` : ''
+    }${github ? ' - matched by name and imports, types are not checked' : ''}:
+${formatSymbolLocations(shown)}`;
+  }
+
+  // LIST SYMBOLS
+  if (toolCall.name === 'list_symbols') {
+    const input = toolCall.input as { path: string };
+    if (!isSymbolSource(input.path)) return 'Error: list_symbols only supports TypeScript and JavaScript files';
+    let content: string;
+    try {
+      if (overlay) {
+        content = await overlay.readFile(input.path);
+      } else if (localFs) {
+        content = await localFs.readFile(input.path);
+      } else {
+        return 'Symbol navigation not available.';
+      }
+    } catch {
+      return `Error: File "${input.path}" not found`;
+    }
+
+    const symbols = listSymbols(input.path, content);
+    if (symbols.length === 0) return `No declarations in ${input.path}.`;
+    return `${symbols.length} declarations in ${input.path} (line: kind name):
+${formatOutline(symbols)}`;
+  }
+
+  // DEPENDENCY GRAPH
+  if (toolCall.name === 'dependency_graph') {
+    const input = toolCall.input as { path: string; direction?: 'imports' | 'dependents' | 'both'; depth?: number };
+    const depth = Math.max(1, Math.min(Math.floor(Number(input.depth) || 1), MAX_GRAPH_DEPTH));
+    if (!github && !localFs) return 'Dependency graph not available.';
+
+    let graph: ModuleGraph;
+    try {
+      const key = github ? `${repoContext.owner}/${repoContext.repo}/${repoContext.branch}` : workspacePath!;
+      graph = await loadModuleGraph(github, localFs, overlay, key, baseSha || repoContext?.branch);
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : 'Could not build the dependency graph'}`;
+    }
+    if (!graph.has(input.path)) return `Error: File "${input.path}" not found`;
+    return formatDependencyGraph(graph, input.path, { direction: input.direction ?? 'both', depth });
   }
 
   // STR_REPLACE
   if (toolCall.name === 'str_replace') {
     const input = toolCall.input as { path: string; old_str: string; new_str: string };
-    
-    if (localFs) {
-      // Read, replace, write back
-      const content = await localFs.readFile(input.path);
-      const count = (content.match(new RegExp(input.old_str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')) || []).length;
-      if (count === 0) {
-        return `Error: old_str not found in ${input.path}`;
-      }
-      if (count > 1) {
-        return `Error: old_str found ${count} times in ${input.path}. Must be unique.`;
-      }
-      const newContent = content.replace(input.old_str, input.new_str);
-      await localFs.writeFile(input.path, newContent);
-      fileChanges.push({ path: input.path, action: 'edit' });
-      return `✓ Edited ${input.path}`;
-    } else if (github) {
-      const result = await github.applyStrReplace(input.path, input.old_str, input.new_str, repoContext.branch);
-      if (result.success) {
-        fileChanges.push({ path: input.path, action: 'edit', additions: result.additions, deletions: result.deletions });
-        return `✓ Edited ${input.path}`;
-      }
-      return `Error: ${result.error}`;
+    if (!overlay && !localFs) return 'No file system available.';
+
+    let content: string;
+    try {
+      content = overlay ? await overlay.readFile(input.path) : await localFs!.readFile(input.path);
+    } catch {
+      return `Error: File "${input.path}" not found`;
     }
-    return 'No file system available.';
+
+    // On a miss the error shows the closest text; a whitespace-only miss is applied when enabled
+    const replaced = replaceUnique(input.path, content, input.old_str, input.new_str, {
+      autoFixWhitespace: settings.autoFixWhitespace ?? DEFAULT_SETTINGS.autoFixWhitespace,
+    });
+    if (!replaced.success || replaced.content === undefined) return replaced.error || `Error: old_str not found in ${input.path}`;
+
+    if (overlay) {
+      await overlay.writeFile(input.path, replaced.content);
+    } else {
+      await localFs!.writeFile(input.path, replaced.content);
+    }
+    fileChanges.push(describeFileChange(input.path, content, replaced.content));
+    journal?.record(input.path, content, replaced.content);
+    return `✓ Edited ${input.path}${dryRun ? ' (dry run - not written)' : ''}${replaced.note ? ` (${replaced.note} - copy old_str exactly next time)` : ''}`;
   }
 
   // CREATE FILE
   if (toolCall.name === 'create_file') {
     const input = toolCall.input as { path: string; content: string };
-    
-    if (localFs) {
-      await localFs.writeFile(input.path, input.content);
-      fileChanges.push({ path: input.path, action: 'create', additions: input.content.split('\n').length });
-      return `✓ Created ${input.path}`;
-    } else if (github) {
-      const result = await github.createFile(input.path, input.content, repoContext.branch);
-      if (result.success) {
-        fileChanges.push({ path: input.path, action: 'create', additions: result.additions });
-        return `✓ Created ${input.path}`;
+
+    if (!overlay && !localFs) return 'No file system available.';
+
+    const before = overlay
+      ? await overlay.readFile(input.path).catch(() => null)
+      : await localFs!.readFile(input.path).catch(() => null);
+    if (overlay) {
+      await overlay.writeFile(input.path, input.content);
+    } else {
+      await localFs!.writeFile(input.path, input.content);
+    }
+    fileChanges.push(describeFileChange(input.path, before, input.content));
+    journal?.record(input.path, before, input.content);
+    return `✓ ${before === null ? 'Created' : 'Overwrote'} ${input.path}${dryRun ? ' (dry run - not written)' : ''}`;
+  }
+
+  // APPLY PATCH - unified diff or line-range edits, validated in full before anything is written
+  if (toolCall.name === 'apply_patch') {
+    const input = toolCall.input as { patch?: string; files?: Array<{ path: string; sha?: string; edits: LineEdit[] }> };
+    let patches: FilePatch[];
+    try {
+      if (input.patch) {
+        patches = parseUnifiedDiff(input.patch);
+      } else if (input.files && input.files.length > 0) {
+        patches = input.files.map(file => ({ path: file.path.replace(/^\.?\/+/, ''), kind: 'modify' as const, sha: file.sha, edits: file.edits ?? [] }));
+      } else {
+        return 'Error: apply_patch needs either patch (a unified diff) or files (line-range edits)';
       }
-      return `Error: ${result.error}`;
+    } catch (error) {
+      return `Error: Could not parse the patch: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
-    return 'No file system available.';
+
+    const target: PatchTarget | null = overlay
+      ? {
+          readFile: (path) => overlay.readFile(path).catch(() => null),
+          writeFile: async (path, content) => { await overlay.writeFile(path, content); },
+          deleteFile: (path) => overlay.deleteFile(path),
+          moveFile: (fromPath, toPath) => overlay.moveFile(fromPath, toPath),
+        }
+      : localFs
+        ? {
+            readFile: (path) => localFs.readFile(path).catch(() => null),
+            writeFile: async (path, content) => {
+              journal?.record(path, await localFs.readFile(path).catch(() => null), content);
+              await localFs.writeFile(path, content);
+            },
+            deleteFile: async (path) => {
+              journal?.record(path, await localFs.readFile(path).catch(() => null), null);
+              await localFs.deleteFile(path);
+            },
+            moveFile: async (fromPath, toPath) => {
+              const content = await localFs.readFile(fromPath).catch(() => null);
+              await localFs.moveFile(fromPath, toPath);
+              journal?.record(fromPath, content, null);
+              journal?.record(toPath, null, content);
+            },
+          }
+        : null;
+    if (!target) return 'No file system available.';
+
+    const result = await applyPatchSet(patches, target);
+    if (!result.success) return `Error: ${result.error}`;
+
+    fileChanges.push(...result.files);
+    const summary = result.files.map(file =>
+      `- ${file.action} ${file.fromPath ? `${file.fromPath} → ` : ''}${file.path} (+${file.additions || 0} -${file.deletions || 0})`
+    );
+    return `✓ Patched ${result.files.length} file${result.files.length > 1 ? 's' : ''}${dryRun ? ' (dry run - not written)' : ''}\n${summary.join('\n')}${
+      result.notes.length > 0 ? `\n${result.notes.join('\n')}` : ''
+    }\nLine numbers and shas have changed - re-read before another line-range edit.`;
+  }
+
+  // DELETE FILE
+  if (toolCall.name === 'delete_file') {
+    const input = toolCall.input as { path: string };
+    let before: string;
+    try {
+      before = overlay ? await overlay.readFile(input.path) : localFs ? await localFs.readFile(input.path) : '';
+      if (overlay) {
+        await overlay.deleteFile(input.path);
+      } else if (localFs) {
+        await localFs.deleteFile(input.path);
+      } else {
+        return 'No file system available.';
+      }
+    } catch (error) {
+      return `Error: Could not delete ${input.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+    seenFiles.delete(input.path);
+    fileChanges.push(describeFileChange(input.path, before, null));
+    journal?.record(input.path, before, null);
+    return `✓ Deleted ${input.path}${dryRun ? ' (dry run - not written)' : ''}`;
+  }
+
+  // MOVE FILE
+  if (toolCall.name === 'move_file') {
+    const input = toolCall.input as { from_path: string; to_path: string };
+    let content: string;
+    try {
+      content = overlay ? await overlay.readFile(input.from_path) : localFs ? await localFs.readFile(input.from_path) : '';
+      if (overlay) {
+        await overlay.moveFile(input.from_path, input.to_path);
+      } else if (localFs) {
+        await localFs.moveFile(input.from_path, input.to_path);
+      } else {
+        return 'No file system available.';
+      }
+    } catch (error) {
+      return `Error: Could not move ${input.from_path} to ${input.to_path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+    if (seenFiles.delete(input.from_path)) seenFiles.add(input.to_path);
+    fileChanges.push(describeFileChange(input.to_path, content, content, input.from_path));
+    journal?.record(input.from_path, content, null);
+    journal?.record(input.to_path, null, content);
+    return `✓ Moved ${input.from_path} → ${input.to_path}${dryRun ? ' (dry run - not written)' : ''}\nImports that reference the old path were not updated.`;
+  }
+
+  // RENAME SYMBOL ACROSS FILES
+  if (toolCall.name === 'rename_symbol_across_files') {
+    const input = toolCall.input as { old_name: string; new_name: string; file_extensions?: string; paths?: string[] };
+    if (!isIdentifier(input.old_name) || !isIdentifier(input.new_name)) {
+      return 'Error: old_name and new_name must be plain identifiers (letters, digits, _ or $)';
+    }
+    if (!overlay && !localFs) return 'No file system available.';
+
+    const extensions = input.file_extensions ? input.file_extensions.split(',').map(e => e.trim().replace(/^\./, '')).filter(Boolean) : undefined;
+    const matchesExtension = (path: string) => !extensions || extensions.some(ext => path.endsWith(`.${ext}`));
+
+    // Candidates are a superset: every file is checked for whole-identifier matches below
+    let candidates: string[];
+    let searchNote = '';
+    if (input.paths && input.paths.length > 0) {
+      candidates = input.paths;
+    } else if (overlay && github) {
+      const results = await github.grepSearch(input.old_name, repoContext.branch, { fileExtensions: extensions, maxResults: 500 });
+      candidates = [...results.matches.map(r => r.path), ...overlay.stagedPaths()].filter(matchesExtension);
+      if (results.truncated) {
+        searchNote = '\nThe search stopped at its result limit, so some files may have been missed - pass paths to rename in specific files.';
+      }
+    } else {
+      const found = await localFs!.findFilesContaining(input.old_name, extensions);
+      candidates = overlay ? [...found, ...overlay.stagedPaths()].filter(matchesExtension) : found;
+    }
+
+    const readContent = (path: string) => overlay ? overlay.readFile(path) : localFs!.readFile(path);
+    const renamed: Array<{ path: string; count: number }> = [];
+    const clashes: string[] = [];
+    for (const path of [...new Set(candidates.map(p => p.replace(/^\.?\/+/, '')))]) {
+      let content: string;
+      try {
+        content = await readContent(path);
+      } catch {
+        continue; // Deleted in this run or listed by a stale search index
+      }
+      const result = renameIdentifier(content, input.old_name, input.new_name);
+      if (result.count === 0) continue;
+      if (countIdentifier(content, input.new_name) > 0) clashes.push(path);
+      if (overlay) await overlay.writeFile(path, result.content);
+      else await localFs!.writeFile(path, result.content);
+      fileChanges.push(describeFileChange(path, content, result.content));
+      journal?.record(path, content, result.content);
+      renamed.push({ path, count: result.count });
+    }
+
+    if (renamed.length === 0) {
+      return `Error: No whole-identifier occurrences of ${input.old_name} found${input.paths?.length ? ` in ${input.paths.join(', ')}` : ''}.${searchNote}`;
+    }
+    const total = renamed.reduce((sum, r) => sum + r.count, 0);
+    return `✓ Renamed ${input.old_name} → ${input.new_name}: ${total} occurrence${total > 1 ? 's' : ''} in ${renamed.length} file${renamed.length > 1 ? 's' : ''}${dryRun ? ' (dry run - not written)' : ''}
+${renamed.map(r => `- ${r.path} (${r.count})`).join('\n')}${clashes.length > 0 ? `\n⚠️ ${input.new_name} already existed in: ${clashes.join(', ')} - check for name collisions.` : ''}${searchNote}`;
   }
 
   // VERIFY EDIT
@@ -617,7 +1311,9 @@ async function executeToolCall(
     const input = toolCall.input as { path: string; expected_content: string };
     
     let content: string;
-    if (localFs) {
+    if (overlay) {
+      content = await overlay.readFile(input.path);
+    } else if (localFs) {
       content = await localFs.readFile(input.path);
     } else if (github) {
       const file = await github.getFileContent(input.path, repoContext.branch);
@@ -633,22 +1329,34 @@ async function executeToolCall(
   // RUN COMMAND
   if (toolCall.name === 'run_command') {
     const input = toolCall.input as { command: string };
+
+    if (overlay && dryRun) {
+      overlay.recordCommand(input.command);
+      return `[Dry run] Command not executed: ${input.command}\nIt is listed for the user to run after applying the changes. Do not rely on its output.`;
+    }
     
-    if (localFs) {
+    if (localFs && workspacePath) {
+      const policy = resolveCommandPolicy(settings.commandPolicy);
+      const violation = evaluateCommand(input.command, policy, workspacePath);
+      if (violation) {
+        emit({ type: 'command_denied', command: input.command, violation, message: violation.reason });
+        return formatPolicyViolation(input.command, violation);
+      }
+
+      // Stream output as it arrives; the command can be cancelled on its own via the runs API
+      const output = createOutputBatcher(lines => emit({ type: 'command_output', toolUseId: toolCall.id, lines }));
       try {
-        const { execSync } = await import('child_process');
-        const output = execSync(input.command, {
-          cwd: settings.localWorkspacePath,
-          encoding: 'utf-8',
-          maxBuffer: 10 * 1024 * 1024,
-          timeout: 60000,
+        const result = await runCommand(input.command, {
+          cwd: workspacePath,
+          limits: policy.limits,
+          allowNetwork: policy.allowNetwork,
+          onOutput: output.push,
+          signal: run.registerCommand(toolCall.id),
         });
-        return `$ ${input.command}\n\n${output}`;
-      } catch (error: any) {
-        const stdout = error.stdout || '';
-        const stderr = error.stderr || '';
-        const exitCode = error.status || 1;
-        return `$ ${input.command}\n\n${stdout}${stderr ? `\nSTDERR: ${stderr}` : ''}\nExit code: ${exitCode}`;
+        return formatCommandResult(input.command, result, policy.limits);
+      } finally {
+        output.close();
+        run.releaseCommand(toolCall.id);
       }
     }
     return 'run_command only works in local mode.';
@@ -657,8 +1365,18 @@ async function executeToolCall(
   // WEB SEARCH
   if (toolCall.name === 'web_search') {
     const input = toolCall.input as { query: string };
-    // This would call actual web search API - placeholder for now
-    return `Web search for "${input.query}" - results would appear here. (Web search integration pending)`;
+    const provider = getSearchProvider();
+    if (!provider) {
+      return `Web search is not configured on this server (set BRAVE_SEARCH_API_KEY, SEARXNG_URL or WEB_SEARCH_JSON_URL). Answer from your own knowledge or use web_fetch on a known URL.`;
+    }
+
+    try {
+      const results = await provider.search(input.query);
+      citations.push(...results.filter(r => !citations.some(c => c.url === r.url)));
+      return formatSearchResults(input.query, results);
+    } catch (error) {
+      return `Web search failed (${provider.name}): ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
   }
 
   // WEB FETCH
@@ -680,13 +1398,85 @@ async function executeToolCall(
 // HELPER FUNCTIONS
 // ============================================================================
 
+// Keep the code index in step with the run's edits. GitHub versions are blob SHAs, so once the
+// edits are committed the next sync finds them current; local files are re-read next time.
+async function reindexChanges(
+  index: CodeIndex,
+  changes: FileChange[],
+  source: { readFile(path: string): Promise<string> } | null,
+  blobVersions: boolean
+): Promise<void> {
+  for (const change of changes) {
+    if (change.fromPath) index.removeFile(change.fromPath);
+    const content = change.action === 'delete' || !source ? null : await source.readFile(change.path).catch(() => null);
+    index.updateFile(change.path, content, blobVersions && content !== null ? gitBlobSha(content) : '');
+  }
+}
+
+// The import graph of the workspace or branch as this run sees it: files staged in the
+// overlay stand in for (or remove) their committed versions
+async function loadModuleGraph(
+  github: GitHubClient | null,
+  localFs: LocalFileSystem | null,
+  overlay: OverlayFileSystem | null,
+  key: string,
+  ref?: string // GitHub: the commit the run's reads see
+): Promise<ModuleGraph> {
+  const graph = getModuleGraph(key);
+  if (github) {
+    const { entries } = await github.getBlobTree(ref || 'main');
+    await graph.sync(entries.map(entry => ({ path: entry.path, version: entry.sha, size: entry.size })), entry => github.getBlobContent(entry.version));
+  } else if (localFs) {
+    await graph.sync(await localFs.fileVersions(), entry => localFs.readFile(entry.path));
+  }
+  // The cached graph is shared by every run on the branch - staged edits go on a copy
+  const staged = overlay?.stagedPaths() ?? [];
+  if (staged.length === 0) return graph;
+  const layered = graph.clone();
+  for (const path of staged) {
+    layered.updateFile(path, await overlay!.readFile(path).catch(() => null), 'staged');
+  }
+  return layered;
+}
+
+// A clone run's changes as a changeset, for when they could not be pushed
+async function cloneChangeset(files: CloneFileChange[]): Promise<DryRunChangeset> {
+  const before = new Map(files.map(file => [file.path, file.before]));
+  const changeset = new OverlayFileSystem(async (path) => {
+    const content = before.get(path);
+    if (content === null || content === undefined) throw new Error(`File ${path} not found`);
+    return content;
+  });
+  for (const file of files) {
+    if (file.after === null) {
+      await changeset.deleteFile(file.path);
+    } else {
+      await changeset.writeFile(file.path, file.after);
+    }
+  }
+  return changeset.getChangeset();
+}
+
+function clipToolResult(toolName: string, result: string): string {
+  const cap = toolName === 'read_file' ? 6000 : 4000;
+  if (result.length <= cap) return result;
+
+  let clipped = result.slice(0, cap);
+  clipped += `\n\n--- OUTPUT TRUNCATED (${result.length} chars total) ---`;
+  if (toolName === 'read_file') {
+    clipped += `\nUse start_line/end_line to read specific sections.`;
+  } else if (toolName === 'grep_search') {
+    clipped += `\nNarrow search or check specific files.`;
+  }
+  return clipped;
+}
+
 async function handlePullRequestCreation(
   fileChanges: FileChange[],
   github: GitHubClient | null,
   hasRepoContext: boolean,
   repoContext: any,
-  controller: ReadableStreamDefaultController,
-  encoder: TextEncoder
+  emit: (chunk: Record<string, unknown>) => void
 ): Promise<{ prUrl?: string; prNumber?: number }> {
   if (fileChanges.length === 0 || !github || !hasRepoContext) {
     return {};
@@ -698,32 +1488,32 @@ async function handlePullRequestCreation(
       return {};
     }
 
-    controller.enqueue(encoder.encode(JSON.stringify({
+    emit({
       type: 'text',
       content: '\n\n📝 Creating pull request...',
-    }) + '\n'));
+    });
 
     const prTitle = `Claude: ${fileChanges.length} file${fileChanges.length > 1 ? 's' : ''} changed`;
     const prBody = `## Changes Made by Claude\n\n${fileChanges.map(f =>
-      `- **${f.action}** \`${f.path}\`${f.additions ? ` (+${f.additions})` : ''}${f.deletions ? ` (-${f.deletions})` : ''}`
+      `- **${f.action}** ${f.fromPath ? `\`${f.fromPath}\` → ` : ''}\`${f.path}\`${f.additions ? ` (+${f.additions})` : ''}${f.deletions ? ` (-${f.deletions})` : ''}`
     ).join('\n')}\n\n---\n*This PR was automatically created by Claude Coder.*`;
 
     const pr = await github.createPullRequest(prTitle, prBody, repoContext.branch, repoInfo.defaultBranch);
 
-    controller.enqueue(encoder.encode(JSON.stringify({
+    emit({
       type: 'text',
       content: `\n\n✅ **PR created:** [#${pr.number}](${pr.url})`,
-    }) + '\n'));
+    });
 
     return { prUrl: pr.url, prNumber: pr.number };
   } catch (prError) {
     const errorMsg = prError instanceof Error ? prError.message : 'Unknown error';
-    controller.enqueue(encoder.encode(JSON.stringify({
+    emit({
       type: 'text',
       content: errorMsg.includes('already exists') 
         ? '\n\n⚠️ PR already exists for this branch.'
         : `\n\n⚠️ Could not create PR: ${errorMsg}`,
-    }) + '\n'));
+    });
     return {};
   }
 }
@@ -739,10 +1529,28 @@ function getToolStartMessage(toolName: string, input: Record<string, unknown>):
       return `🔍 Searching for "${input.query}"...`;
     case 'grep_search':
       return `🔎 Grep: "${input.query}"...`;
+    case 'find_definition':
+      return `🧭 Finding definition of ${input.symbol}...`;
+    case 'find_references':
+      return `🧭 Finding references to ${input.symbol}...`;
+    case 'list_symbols':
+      return `🧭 Listing symbols in ${input.path}...`;
+    case 'dependency_graph':
+      return `🕸️ Mapping dependencies of ${input.path}...`;
     case 'str_replace':
       return `✏️ Editing ${input.path}...`;
     case 'create_file':
       return `📝 Creating ${input.path}...`;
+    case 'apply_patch':
+      return Array.isArray(input.files)
+        ? `🩹 Patching ${(input.files as Array<{ path: string }>).map(f => f.path).join(', ')}...`
+        : '🩹 Applying patch...';
+    case 'delete_file':
+      return `🗑️ Deleting ${input.path}...`;
+    case 'move_file':
+      return `📦 Moving ${input.from_path} → ${input.to_path}...`;
+    case 'rename_symbol_across_files':
+      return `🏷️ Renaming ${input.old_name} → ${input.new_name}...`;
     case 'verify_edit':
       return `✅ Verifying ${input.path}...`;
     case 'run_command':
@@ -0,0 +1,32 @@
+// ============================================================================
+// RUN COMMAND API - Cancel a single running command without stopping the run
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLiveRun, hashApiKey } from '@/lib/runRegistry';
+
+type RouteContext = { params: Promise<{ id: string; toolUseId: string }> };
+
+// DELETE - Kill the command started by the given run_command tool call.
+// The model receives the partial output with a "cancelled" note and carries on.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const anthropicKey = request.headers.get('x-anthropic-key');
+    if (!anthropicKey) {
+      return NextResponse.json({ error: 'Anthropic API key required' }, { status: 401 });
+    }
+
+    const { id, toolUseId } = await params;
+    const live = getLiveRun(id);
+    if (!live || live.snapshot.ownerHash !== hashApiKey(anthropicKey)) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const cancelled = live.cancelCommand(toolUseId);
+    return NextResponse.json({ success: cancelled, status: cancelled ? 'cancelling' : 'not_running' });
+  } catch (error) {
+    console.error('Command DELETE error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// ============================================================================
+// RUN REVERT API - Restore every file an agentic run changed, in one commit or write
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GitHubClient } from '@/lib/github';
+import { LocalFileSystem } from '@/lib/filesystem';
+import { hashApiKey, loadRun } from '@/lib/runRegistry';
+import { RevertTarget, createGitHubRevertTarget, createLocalRevertTarget, revertRun } from '@/lib/revert';
+import { ChatRequest } from '@/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST - { settings, repoContext }
+// Files edited again since the run are reported as conflicts (409) and nothing is written.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const anthropicKey = request.headers.get('x-anthropic-key');
+    if (!anthropicKey) {
+      return NextResponse.json({ error: 'Anthropic API key required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const snapshot = await loadRun(id);
+    if (!snapshot || snapshot.ownerHash !== hashApiKey(anthropicKey)) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const { settings, repoContext } = await request.json() as Pick<ChatRequest, 'settings' | 'repoContext'>;
+    let target: RevertTarget;
+
+    if (settings?.fileAccessMode === 'local' && settings.localWorkspacePath) {
+      target = createLocalRevertTarget(new LocalFileSystem(settings.localWorkspacePath), settings.localWorkspacePath);
+    } else {
+      const githubToken = request.headers.get('x-github-token');
+      if (!githubToken || !repoContext?.owner || !repoContext?.repo) {
+        return NextResponse.json({ error: 'GitHub token and repository required' }, { status: 401 });
+      }
+      const github = new GitHubClient(githubToken, repoContext.owner, repoContext.repo);
+      target = createGitHubRevertTarget(github, repoContext.owner, repoContext.repo, repoContext.branch || 'main');
+    }
+
+    const result = await revertRun(id, target);
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.conflicts.length > 0 ? 409 : 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Revert error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+// ============================================================================
+// AGENTIC RUN API - Reattach to a live run or replay a finished one
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRunStream, getLiveRun, hashApiKey, loadRun } from '@/lib/runRegistry';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Only the Anthropic key that started a run may read or cancel it
+async function authorizeRun(request: NextRequest, id: string) {
+  const anthropicKey = request.headers.get('x-anthropic-key');
+  if (!anthropicKey) {
+    return { error: NextResponse.json({ error: 'Anthropic API key required' }, { status: 401 }) };
+  }
+
+  const snapshot = await loadRun(id);
+  if (!snapshot || snapshot.ownerHash !== hashApiKey(anthropicKey)) {
+    return { error: NextResponse.json({ error: 'Run not found' }, { status: 404 }) };
+  }
+
+  return { snapshot };
+}
+
+// GET - Stream the run's events. ?from=N skips events the client already has.
+// ?format=json returns the snapshot (status, round, file changes) without streaming.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { snapshot, error } = await authorizeRun(request, id);
+    if (error) return error;
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('format') === 'json') {
+      const { events, convo, ownerHash, ...summary } = snapshot;
+      return NextResponse.json({ run: { ...summary, eventCount: events.length } });
+    }
+
+    const from = parseInt(searchParams.get('from') || '0', 10) || 0;
+
+    return new Response(createRunStream(id, from, snapshot), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Run-Id': id,
+        'X-Run-Status': snapshot.status,
+      },
+    });
+  } catch (error) {
+    console.error('Run GET error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE - Cancel a live run. It stops at the start of its next round.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { snapshot, error } = await authorizeRun(request, id);
+    if (error) return error;
+
+    const live = getLiveRun(id);
+    if (!live || live.isFinished) {
+      return NextResponse.json({ success: false, status: snapshot.status });
+    }
+
+    live.cancel();
+    return NextResponse.json({ success: true, status: 'cancelling' });
+  } catch (error) {
+    console.error('Run DELETE error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { GitHubClient } from '@/lib/github';
+import { FilePatch, parseUnifiedDiff } from '@/lib/patch';
 
 // Helper function for parameter validation
 function validateRequired(params: Record<string, any>, required: string[]) {
@@ -69,8 +70,24 @@ export async function GET(request: NextRequest) {
           return NextResponse.json({ error: 'Query required' }, { status: 400 });
         }
         const extensions = searchParams.get('extensions')?.split(',');
-        const results = await github.grepSearch(query, branch, { fileExtensions: extensions });
-        return NextResponse.json({ results });
+        const { matches, truncated } = await github.grepSearch(query, branch, {
+          fileExtensions: extensions,
+          regex: searchParams.get('regex') === 'true',
+          include: searchParams.get('include')?.split(','),
+          exclude: searchParams.get('exclude')?.split(','),
+        });
+        return NextResponse.json({ results: matches, truncated });
+      }
+
+      case 'dependents': {
+        // Impact analysis: every file that imports the changed files, directly or not
+        const paths = searchParams.get('paths')?.split(',').filter(Boolean) || (path ? [path] : []);
+        if (paths.length === 0) {
+          return NextResponse.json({ error: 'Path required' }, { status: 400 });
+        }
+        const depth = parseInt(searchParams.get('depth') || '') || undefined;
+        const graph = await github.getModuleGraph(branch);
+        return NextResponse.json({ dependents: graph.transitiveDependents(paths, depth) });
       }
 
       case 'repo': {
@@ -149,12 +166,45 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ success: true });
       }
 
+      case 'deleteFile': {
+        const { path, branch } = params;
+        const validation = validateRequired({ path }, ['path']);
+        if (validation) return validation;
+        
+        const result = await github.deleteFile(path, branch || 'main');
+        return NextResponse.json(result);
+      }
+
+      case 'moveFile': {
+        const { fromPath, toPath, branch } = params;
+        const validation = validateRequired({ fromPath, toPath }, ['fromPath', 'toPath']);
+        if (validation) return validation;
+        
+        const result = await github.moveFile(fromPath, toPath, branch || 'main');
+        return NextResponse.json(result);
+      }
+
       case 'strReplace': {
-        const { path, oldStr, newStr, branch } = params;
+        const { path, oldStr, newStr, branch, autoFixWhitespace } = params;
         if (!path || !oldStr || newStr === undefined) {
           return NextResponse.json({ error: 'Path, oldStr, and newStr required' }, { status: 400 });
         }
-        const result = await github.applyStrReplace(path, oldStr, newStr, branch || 'main');
+        const result = await github.applyStrReplace(path, oldStr, newStr, branch || 'main', { autoFixWhitespace: Boolean(autoFixWhitespace) });
+        return NextResponse.json(result);
+      }
+
+      case 'applyPatch': {
+        const { patch, branch } = params;
+        const validation = validateRequired({ patch }, ['patch']);
+        if (validation) return validation;
+        
+        let patches: FilePatch[];
+        try {
+          patches = parseUnifiedDiff(patch);
+        } catch (error) {
+          return NextResponse.json({ success: false, error: error instanceof Error ? error.message : 'Invalid patch' }, { status: 400 });
+        }
+        const result = await github.applyPatch(patches, branch || 'main');
         return NextResponse.json(result);
       }
 
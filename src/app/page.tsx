@@ -16,6 +16,7 @@ import {
   Lock,
   Box,
   Undo2,
+  FlaskConical,
 } from 'lucide-react';
 import {
   Message,
@@ -25,7 +26,19 @@ import {
   UploadedFile,
   Artifact,
   FileChange,
+  ConversationSummary,
+  TaskPlan,
+  PlanStep,
+  Citation,
+  ToolAction,
+  CommandOutputLine,
+  ApprovalRequest,
+  ApprovalDecision,
+  DryRunChangeset,
+  RevertRunResult,
+  ConversationCheckpoint,
   DEFAULT_SETTINGS,
+  APP_CONSTANTS,
   ModelType,
   MODEL_DISPLAY_NAMES,
   WebSearchMode,
@@ -43,6 +56,7 @@ import LoadingSpinner from '@/components/LoadingSpinner';
 import CostTracker from '@/components/CostTracker';
 import QuickSettings from '@/components/QuickSettings';
 import ProgressBar from '@/components/ProgressBar';
+import ApprovalCard from '@/components/ApprovalCard';
 import { useDebugger } from '@/components/DebuggerProvider';
 
 // ============================================================================
@@ -122,6 +136,8 @@ export default function Home() {
   const [progressMessage, setProgressMessage] = useState<string>('');
   const [progressCurrent, setProgressCurrent] = useState<number>(0);
   const [progressTotal, setProgressTotal] = useState<number>(0);
+  const [pendingApprovals, setPendingApprovals] = useState<ApprovalRequest[]>([]);
+  const [dryRun, setDryRun] = useState(false);
 
   // --------------------------------------------------------------------------
   // STATE - Settings
@@ -147,6 +163,8 @@ export default function Home() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const activeRunIdRef = useRef<string | null>(null);
+  const resumeAttemptedRef = useRef<boolean>(false);
   const repoDropdownRef = useRef<HTMLDivElement>(null);
   const modelDropdownRef = useRef<HTMLDivElement>(null);
 
@@ -197,15 +215,18 @@ export default function Home() {
   );
 
   const logRoundEvent = useCallback(
-    (round: number, message?: string) => {
+    (round: number, message?: string, routing?: { model: ModelType; phase?: string; reason?: string }) => {
       logEvent({
         category: 'Plan',
         severity: 'Info',
         title: `Round ${round}`,
-        summary: message || `Round ${round} started`,
+        summary: routing
+          ? `${message || `Round ${round} started`} · ${MODEL_DISPLAY_NAMES[routing.model]?.name || routing.model}${routing.phase ? ` (${routing.phase})` : ''}`
+          : message || `Round ${round} started`,
         details: {
           round,
           message,
+          ...routing,
         },
       });
     },
@@ -442,6 +463,60 @@ export default function Home() {
     }
   }, [currentConversationId, conversations]);
 
+  // --------------------------------------------------------------------------
+  // EFFECTS - Mark checkpoints whose runs the server no longer stores
+  // --------------------------------------------------------------------------
+  useEffect(() => {
+    const checkpoints = conversations.find(c => c.id === currentConversationId)?.checkpoints?.filter(cp => !cp.unavailable) || [];
+    if (!anthropicKey || checkpoints.length === 0) return;
+
+    let cancelled = false;
+    fetch(`/api/chat/rewind?runIds=${checkpoints.map(cp => cp.runId).join(',')}`, { headers: { 'x-anthropic-key': anthropicKey } })
+      .then(response => response.ok ? response.json() as Promise<{ stored: string[] }> : null)
+      .then(result => {
+        if (cancelled || !result) return;
+        const stored = new Set(result.stored);
+        if (checkpoints.every(cp => stored.has(cp.runId))) return;
+        setConversations(prev => prev.map(c => c.id === currentConversationId
+          ? { ...c, checkpoints: c.checkpoints?.map(cp => stored.has(cp.runId) ? cp : { ...cp, unavailable: true }) }
+          : c
+        ));
+      })
+      .catch(() => undefined); // Checked again next time the conversation is opened
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [anthropicKey, currentConversationId]);
+
+  // --------------------------------------------------------------------------
+  // EFFECTS - Reattach to an agentic run interrupted by a reload
+  // --------------------------------------------------------------------------
+  useEffect(() => {
+    if (resumeAttemptedRef.current || !anthropicKey || isStreaming) return;
+    const saved = localStorage.getItem('activeRun');
+    if (!saved) return;
+
+    let activeRun: { runId: string; conversationId: string; userMessage: Message; assistantMessageId: string };
+    try {
+      activeRun = JSON.parse(saved);
+    } catch {
+      localStorage.removeItem('activeRun');
+      return;
+    }
+
+    const conversation = conversations.find(c => c.id === activeRun.conversationId);
+    if (!conversation) return; // Conversations may not be restored yet
+    if (currentConversationId !== conversation.id) {
+      setCurrentConversationId(conversation.id);
+      return; // Resume once the conversation's messages are loaded
+    }
+
+    resumeAttemptedRef.current = true;
+    handleResumeRun(activeRun, conversation);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [anthropicKey, conversations, currentConversationId, isStreaming]);
+
   // --------------------------------------------------------------------------
   // FUNCTIONS - Login with password
   // --------------------------------------------------------------------------
@@ -613,6 +688,14 @@ export default function Home() {
   // FUNCTIONS - Stop streaming
   // --------------------------------------------------------------------------
   const handleStop = () => {
+    // The server-side run survives a disconnect, so cancel it explicitly
+    if (activeRunIdRef.current) {
+      fetch(`/api/chat/runs/${activeRunIdRef.current}`, {
+        method: 'DELETE',
+        headers: { 'x-anthropic-key': anthropicKey },
+      }).catch(() => undefined);
+      activeRunIdRef.current = null;
+    }
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
@@ -620,6 +703,262 @@ export default function Home() {
     }
   };
 
+  // --------------------------------------------------------------------------
+  // FUNCTIONS - Resolve a pending tool approval
+  // --------------------------------------------------------------------------
+  const handleApprovalDecision = async (approval: ApprovalRequest, decision: ApprovalDecision) => {
+    try {
+      const response = await fetch('/api/chat/approve', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-anthropic-key': anthropicKey,
+        },
+        body: JSON.stringify({ approvalId: approval.id, ...decision }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Approval request failed');
+      }
+      // The card disappears when the approval_resolved chunk arrives
+    } catch (error) {
+      logEvent({
+        category: 'Error',
+        severity: 'Error',
+        title: 'Approval failed',
+        summary: error instanceof Error ? error.message : 'Unknown error',
+        details: { approvalId: approval.id, tool: approval.toolCall.name },
+      });
+      setPendingApprovals(prev => prev.filter(a => a.id !== approval.id));
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // FUNCTIONS - Cancel a single running command (the run keeps going)
+  // --------------------------------------------------------------------------
+  const handleCancelCommand = async (toolUseId: string) => {
+    const runId = activeRunIdRef.current;
+    if (!runId) return;
+    try {
+      const response = await fetch(`/api/chat/runs/${runId}/commands/${encodeURIComponent(toolUseId)}`, {
+        method: 'DELETE',
+        headers: { 'x-anthropic-key': anthropicKey },
+      });
+      const data = await response.json().catch(() => ({}));
+      logCommandEvent('Cancel command', data.success ? 'Command cancelled' : 'Command was not running', {
+        runId,
+        toolUseId,
+        status: data.status,
+      });
+    } catch (error) {
+      logErrorEvent('Cancel command failed', error, { runId, toolUseId });
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // FUNCTIONS - Edit or execute a task plan
+  // --------------------------------------------------------------------------
+  const handlePlanChange = (messageId: string, plan: TaskPlan) => {
+    const update = (list: Message[]) => list.map(m => m.id === messageId ? { ...m, plan } : m);
+    setMessages(prev => update(prev));
+    setConversations(prev => prev.map(c =>
+      c.id === currentConversationId ? { ...c, messages: update(c.messages) } : c
+    ));
+  };
+
+  const handleRunPlan = (plan: TaskPlan) => {
+    const remaining = plan.steps.filter(step => step.status === 'pending' || step.status === 'in_progress');
+    logEvent({
+      category: 'Plan',
+      severity: 'Info',
+      title: 'Plan execution requested',
+      summary: `${remaining.length} of ${plan.steps.length} steps remaining`,
+      details: { plan },
+    });
+    void handleSendMessage({
+      content: `Execute the plan: ${remaining.map(step => `${step.id}. ${step.title}`).join('; ')}`,
+      plan,
+    });
+  };
+
+  // Restore the files a run changed; refused when any of them was edited again since
+  const handleRevertRun = async (messageId: string, runId: string) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'x-anthropic-key': anthropicKey };
+    if (githubToken && settings.fileAccessMode !== 'local') {
+      headers['x-github-token'] = githubToken;
+    }
+
+    const response = await fetch(`/api/chat/runs/${runId}/revert`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        settings,
+        repoContext: currentRepo ? { owner: currentRepo.owner, repo: currentRepo.name, branch: currentBranch || 'main' } : undefined,
+      }),
+    });
+    const result = await response.json().catch(() => ({})) as Partial<RevertRunResult>;
+
+    if (!response.ok || !result.success) {
+      const conflicts = result.conflicts ?? [];
+      logEvent({
+        category: 'File',
+        severity: 'Error',
+        title: 'Run not reverted',
+        summary: result.error || `Revert failed (${response.status})`,
+        details: { runId, conflicts },
+      });
+      throw new Error(conflicts.length > 0
+        ? `${result.error}\n${conflicts.map(c => `${c.path}: ${c.reason}`).join('\n')}`
+        : result.error || 'Revert failed');
+    }
+
+    const revertedAt = new Date().toISOString();
+    const update = (list: Message[]) => list.map(m => m.id === messageId ? { ...m, revertedAt } : m);
+    setMessages(prev => update(prev));
+    setConversations(prev => prev.map(c =>
+      c.id === currentConversationId ? { ...c, messages: update(c.messages) } : c
+    ));
+    (result.files ?? []).forEach(change => logFileEvent(
+      `${change.action} ${change.path}`,
+      `Reverted run ${runId.slice(0, 8)}`,
+      { path: change.path, action: change.action, commitSha: result.commitSha }
+    ));
+  };
+
+  // Time travel: drop every message after this one and revert the runs behind their checkpoints
+  const handleRewindToMessage = async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index < 0 || index === messages.length - 1) return;
+
+    const later = messages.slice(index + 1);
+    const laterIds = new Set(later.map(m => m.id));
+    const checkpoints = conversations.find(c => c.id === currentConversationId)?.checkpoints || [];
+    const pending = checkpoints.filter(cp => laterIds.has(cp.messageId) && !later.find(m => m.id === cp.messageId)?.revertedAt);
+    if (pending.some(cp => cp.unavailable)) {
+      alert('Could not rewind: a later checkpoint is no longer stored on the server, so its code changes cannot be reverted.');
+      return;
+    }
+    const runIds = pending.map(cp => cp.runId);
+
+    const question = runIds.length > 0
+      ? `Rewind to this message? ${later.length} later message(s) will be removed and the code changes of ${runIds.length} run(s) reverted.`
+      : `Rewind to this message? ${later.length} later message(s) will be removed. No code changes need reverting.`;
+    if (!confirm(question)) return;
+
+    if (runIds.length > 0) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json', 'x-anthropic-key': anthropicKey };
+      if (githubToken && settings.fileAccessMode !== 'local') {
+        headers['x-github-token'] = githubToken;
+      }
+      const response = await fetch('/api/chat/rewind', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          runIds,
+          settings,
+          repoContext: currentRepo ? { owner: currentRepo.owner, repo: currentRepo.name, branch: currentBranch || 'main' } : undefined,
+        }),
+      });
+      const result = await response.json().catch(() => ({})) as Partial<RevertRunResult>;
+      if (!response.ok || !result.success) {
+        const conflicts = result.conflicts ?? [];
+        logEvent({
+          category: 'File',
+          severity: 'Error',
+          title: 'Rewind failed',
+          summary: result.error || `Rewind failed (${response.status})`,
+          details: { messageId, runIds, conflicts },
+        });
+        alert(`Could not rewind: ${result.error || 'Unknown error'}${conflicts.length > 0 ? `\n${conflicts.map(c => `${c.path}: ${c.reason}`).join('\n')}` : ''}`);
+        return;
+      }
+      (result.files ?? []).forEach(change => logFileEvent(
+        `${change.action} ${change.path}`,
+        'Restored by rewind',
+        { path: change.path, action: change.action, commitSha: result.commitSha }
+      ));
+    }
+
+    const kept = messages.slice(0, index + 1);
+    setMessages(kept);
+    setConversations(prev => prev.map(c =>
+      c.id === currentConversationId
+        ? { ...c, messages: kept, checkpoints: c.checkpoints?.filter(cp => !laterIds.has(cp.messageId)), updatedAt: new Date() }
+        : c
+    ));
+    logCommandEvent('Rewind', `Rewound to message ${messageId}`, { removedMessages: later.length, revertedRuns: runIds.length });
+  };
+
+  // Sidebar checkpoint markers open the conversation at that message
+  const handleSelectCheckpoint = (conversationId: string, messageId: string) => {
+    setCurrentConversationId(conversationId);
+    setTimeout(() => document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' }), 50);
+  };
+
+  // Write a reviewed dry-run changeset in one step; refused if any file drifted
+  const handleApplyDryRun = async (messageId: string, changeset: DryRunChangeset) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'x-anthropic-key': anthropicKey };
+    if (githubToken && settings.fileAccessMode !== 'local') {
+      headers['x-github-token'] = githubToken;
+    }
+
+    // The dry run's run records the write, so it can be reverted and rewound like any other
+    const runId = messages.find(m => m.id === messageId)?.runId;
+    const response = await fetch('/api/chat/apply', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        changeset,
+        runId,
+        settings,
+        repoContext: currentRepo ? { owner: currentRepo.owner, repo: currentRepo.name, branch: currentBranch || 'main' } : undefined,
+      }),
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      const conflicts = Array.isArray(result.conflicts) ? result.conflicts as Array<{ path: string; reason: string }> : [];
+      logEvent({
+        category: 'File',
+        severity: 'Error',
+        title: 'Dry run not applied',
+        summary: conflicts.length > 0
+          ? `${conflicts.length} file(s) changed since the dry run`
+          : result.error || `Apply failed (${response.status})`,
+        details: { conflicts, error: result.error },
+      });
+      throw new Error(conflicts.length > 0
+        ? conflicts.map(c => `${c.path}: ${c.reason}`).join('\n')
+        : result.error || 'Apply failed');
+    }
+
+    const applied = { ...changeset, appliedAt: new Date().toISOString() };
+    // Once the run holds a revert record, the applied files show with the usual revert action
+    const filesChanged = result.revertable ? changeset.files.map(({ before: _before, after: _after, ...change }) => change) : undefined;
+    const update = (list: Message[]) => list.map(m => m.id === messageId ? { ...m, dryRun: applied, ...(filesChanged ? { filesChanged } : {}) } : m);
+    const checkpoint: ConversationCheckpoint | undefined = result.revertable && runId
+      ? {
+          messageId,
+          runId,
+          createdAt: applied.appliedAt,
+          target: settings.fileAccessMode === 'local' ? 'local' : 'github',
+          commitSha: result.commitSha,
+          filesChanged: changeset.files.length,
+        }
+      : undefined;
+    setMessages(prev => update(prev));
+    setConversations(prev => prev.map(c =>
+      c.id === currentConversationId
+        ? { ...c, messages: update(c.messages), checkpoints: checkpoint ? [...(c.checkpoints || []), checkpoint] : c.checkpoints }
+        : c
+    ));
+    changeset.files.forEach(change => logFileEvent(
+      `${change.action} ${change.path}`,
+      'Applied from dry run',
+      { path: change.path, fromPath: change.fromPath, action: change.action, additions: change.additions, deletions: change.deletions }
+    ));
+  };
+
   // --------------------------------------------------------------------------
   // FUNCTIONS - Refresh repo cache
   // --------------------------------------------------------------------------
@@ -639,15 +978,16 @@ export default function Home() {
   // --------------------------------------------------------------------------
   // FUNCTIONS - Send message
   // --------------------------------------------------------------------------
-  const handleSendMessage = async () => {
-    if (!inputValue.trim() || isStreaming) return;
+  const handleSendMessage = async (override?: { content: string; plan?: TaskPlan }) => {
+    const content = override?.content ?? inputValue;
+    if (!content.trim() || isStreaming) return;
 
     // Create or get conversation
     let convId = currentConversationId;
     if (!convId) {
       const newConv: Conversation = {
         id: `conv-${Date.now()}`,
-        title: inputValue.slice(0, 50),
+        title: content.slice(0, 50),
         messages: [],
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -666,13 +1006,14 @@ export default function Home() {
       repo: currentRepo?.fullName,
       branch: currentBranch,
       model: settings.model,
+      executesPlan: Boolean(override?.plan),
     });
 
     // Create user message
     const userMessage: Message = {
       id: `msg-${Date.now()}`,
       role: 'user',
-      content: inputValue,
+      content,
       timestamp: new Date(),
       files: uploadedFiles.length > 0 ? [...uploadedFiles] : undefined,
     };
@@ -686,73 +1027,103 @@ export default function Home() {
       isStreaming: true,
     };
 
-    // Save input value for conversation title before clearing
-    const savedInputValue = inputValue;
-
     // Update UI
     const newMessages = [...messages, userMessage, assistantMessage];
     setMessages(newMessages);
-    setInputValue('');
+    if (!override) setInputValue('');
     setUploadedFiles([]);
     setIsStreaming(true);
 
-    // Create abort controller for stop button
-    abortControllerRef.current = new AbortController();
-
-    try {
-      // Prepare API request - repo context is optional
-      const apiMessages = newMessages
-        .filter(m => !m.isStreaming)
-        .map(m => ({ role: m.role, content: m.content }));
+    await streamAgenticRun({
+      convId,
+      baseMessages: messages,
+      userMessage,
+      assistantMessage,
+      openStream: async (signal) => {
+        // Prepare API request - repo context is optional
+        const apiMessages = newMessages
+          .filter(m => !m.isStreaming)
+          .map(m => ({ role: m.role, content: m.content }));
+
+        const requestStart = performance.now();
+
+        // Build headers
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          'x-anthropic-key': anthropicKey,
+        };
+        // Only add GitHub token if NOT in local mode or if we have a token
+        if (githubToken && settings.fileAccessMode !== 'local') {
+          headers['x-github-token'] = githubToken;
+        }
 
-      const requestStart = performance.now();
+        // Determine if web search should be enabled based on mode
+        const webSearchEnabled = settings.webSearchMode !== 'off';
+        const effectiveSettings = {
+          ...settings,
+          enableWebSearch: webSearchEnabled,
+        };
 
-      // Build headers
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'x-anthropic-key': anthropicKey,
-      };
-      // Only add GitHub token if NOT in local mode or if we have a token
-      if (githubToken && settings.fileAccessMode !== 'local') {
-        headers['x-github-token'] = githubToken;
-      }
+        // Use PUT for streaming
+        const response = await fetch('/api/chat', {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({
+            messages: apiMessages,
+            conversationId: convId,
+            plan: override?.plan,
+            dryRun: dryRun || undefined,
+            settings: effectiveSettings,
+            repoContext: (settings.fileAccessMode === 'local' || currentRepo) ? {
+              owner: currentRepo?.owner || '',
+              repo: currentRepo?.name || '',
+              branch: currentBranch || 'main',
+              fileTree: repoCache?.fileTree,
+              loadedFiles: repoCache?.loadedFiles,
+            } : undefined,
+            files: userMessage.files,
+          }),
+          signal,
+        });
 
-      // Determine if web search should be enabled based on mode
-      const webSearchEnabled = settings.webSearchMode !== 'off';
-      const effectiveSettings = {
-        ...settings,
-        enableWebSearch: webSearchEnabled,
-      };
+        logNetworkEvent('Chat request sent', {
+          endpoint: '/api/chat',
+          method: 'PUT',
+          branch: currentBranch,
+          repo: currentRepo?.fullName,
+          includesFiles: Boolean(userMessage.files?.length),
+          model: settings.model,
+          webSearchMode: settings.webSearchMode,
+          responseStatus: response.status,
+        }, performance.now() - requestStart);
+
+        return response;
+      },
+    });
+  };
 
-      // Use PUT for streaming
-      const response = await fetch('/api/chat', {
-        method: 'PUT',
-        headers,
-        body: JSON.stringify({
-          messages: apiMessages,
-          settings: effectiveSettings,
-          repoContext: (settings.fileAccessMode === 'local' || currentRepo) ? {
-            owner: currentRepo?.owner || '',
-            repo: currentRepo?.name || '',
-            branch: currentBranch || 'main',
-            fileTree: repoCache?.fileTree,
-            loadedFiles: repoCache?.loadedFiles,
-          } : undefined,
-          files: userMessage.files,
-        }),
-        signal: abortControllerRef.current.signal,
-      });
+  // --------------------------------------------------------------------------
+  // FUNCTIONS - Consume an agentic run stream (new request or reattached run)
+  // --------------------------------------------------------------------------
+  const streamAgenticRun = async ({
+    convId,
+    baseMessages,
+    userMessage,
+    assistantMessage,
+    openStream,
+  }: {
+    convId: string;
+    baseMessages: Message[];
+    userMessage: Message;
+    assistantMessage: Message;
+    openStream: (signal: AbortSignal) => Promise<Response>;
+  }) => {
+    // Create abort controller for stop button
+    abortControllerRef.current = new AbortController();
 
-      logNetworkEvent('Chat request sent', {
-        endpoint: '/api/chat',
-        method: 'PUT',
-        branch: currentBranch,
-        repo: currentRepo?.fullName,
-        includesFiles: Boolean(userMessage.files?.length),
-        model: settings.model,
-        webSearchMode: settings.webSearchMode,
-        responseStatus: response.status,
-      }, performance.now() - requestStart);
+    try {
+      const requestStart = performance.now();
+      const response = await openStream(abortControllerRef.current.signal);
 
       if (!response.ok) {
         throw new Error('API request failed');
@@ -767,6 +1138,7 @@ export default function Home() {
       let accumulatedContent = '';
       let accumulatedThinking = '';
       let finalCost = 0;
+      let finalCostByModel: Message['costByModel'];
       let finalSavedPercent = 0;
       let finalPrUrl: string | undefined;
       const allArtifacts: Artifact[] = [];
@@ -775,6 +1147,25 @@ export default function Home() {
       let newLoadedFiles: Array<{ path: string; content: string }> | undefined;
       let lastRoundSeen = 0;
       let stopReason: string | null = null;
+      let contextSummary: ConversationSummary | undefined;
+      let currentPlan: TaskPlan | undefined;
+      let finalCitations: Citation[] | undefined;
+      let finalDryRun: DryRunChangeset | undefined;
+      let finalRunId: string | undefined;
+      let finalCommitSha: string | undefined;
+      let serverFileChanges = false; // Only the server's list means the changes actually landed
+      let toolActions: ToolAction[] = [];
+
+      // Tool actions render live in the ActionBlock (run_command output as a terminal)
+      const updateToolActions = (update: (actions: ToolAction[]) => ToolAction[]) => {
+        toolActions = update(toolActions);
+        const snapshot = toolActions;
+        setMessages(prev => prev.map(m =>
+          m.id === assistantMessage.id
+            ? { ...m, toolActions: snapshot }
+            : m
+        ));
+      };
 
       while (true) {
         const { done, value } = await reader.read();
@@ -802,16 +1193,157 @@ export default function Home() {
               if (chunk.content?.includes('Cost limit reached')) {
                 stopReason = 'Stopped: cost limit';
               }
+            } else if (chunk.type === 'run_start') {
+              // Remember the run so a reload can reattach instead of losing it
+              activeRunIdRef.current = chunk.runId;
+              finalRunId = chunk.runId;
+              localStorage.setItem('activeRun', JSON.stringify({
+                runId: chunk.runId,
+                conversationId: convId,
+                userMessage,
+                assistantMessageId: assistantMessage.id,
+              }));
             } else if (chunk.type === 'round_start') {
               setProgressMessage(chunk.message || 'Processing...');
               setProgressCurrent(chunk.round || 0);
               setProgressTotal(Math.max(chunk.round || 0, progressTotal));
               if (chunk.round) {
                 lastRoundSeen = Math.max(lastRoundSeen, chunk.round);
-                logRoundEvent(chunk.round, chunk.message);
+                logRoundEvent(chunk.round, chunk.message, chunk.model ? { model: chunk.model, phase: chunk.phase, reason: chunk.reason } : undefined);
+              }
+            } else if (chunk.type === 'summary') {
+              if (chunk.summary) {
+                contextSummary = chunk.summary;
+                setMessages(prev => prev.map(m =>
+                  m.id === assistantMessage.id
+                    ? { ...m, contextSummary: chunk.summary }
+                    : m
+                ));
+              }
+              logEvent({
+                category: 'Note',
+                severity: 'Info',
+                title: 'Context summarized',
+                summary: chunk.message || 'Older messages summarized',
+                details: { summary: chunk.summary, cost: chunk.cost },
+              });
+            } else if (chunk.type === 'context') {
+              logEvent({
+                category: 'Note',
+                severity: 'Info',
+                title: 'Code context selected',
+                summary: chunk.message || 'Relevant code added to the context',
+                details: { chunks: chunk.contextChunks },
+              });
+            } else if (chunk.type === 'plan') {
+              if (chunk.plan) {
+                currentPlan = chunk.plan;
+                setMessages(prev => prev.map(m =>
+                  m.id === assistantMessage.id
+                    ? { ...m, plan: chunk.plan }
+                    : m
+                ));
+              }
+              logEvent({
+                category: 'Plan',
+                severity: 'Info',
+                title: 'Plan created',
+                summary: chunk.plan?.goal || chunk.message || 'Task plan ready',
+                details: { plan: chunk.plan },
+              });
+            } else if (chunk.type === 'plan_update') {
+              const step: PlanStep | undefined = chunk.step;
+              if (step && currentPlan) {
+                const updatedPlan: TaskPlan = {
+                  ...currentPlan,
+                  steps: currentPlan.steps.map(s => s.id === step.id ? step : s),
+                };
+                currentPlan = updatedPlan;
+                setMessages(prev => prev.map(m =>
+                  m.id === assistantMessage.id
+                    ? { ...m, plan: updatedPlan }
+                    : m
+                ));
               }
+              logEvent({
+                category: 'Plan',
+                severity: 'Info',
+                title: `Step ${step?.id ?? '?'} ${step?.status ?? 'updated'}`,
+                summary: step?.title || 'Plan step updated',
+                details: { step },
+              });
+            } else if (chunk.type === 'budget') {
+              if (chunk.action === 'refuse') {
+                stopReason = 'Stopped: budget limit';
+              }
+              logEvent({
+                category: 'Note',
+                severity: chunk.action === 'proceed' ? 'Info' : 'Warning',
+                title: chunk.action === 'proceed'
+                  ? `Round ${chunk.round} budget check`
+                  : chunk.action === 'downgrade' ? `Round ${chunk.round} downgraded` : `Round ${chunk.round} refused`,
+                summary: chunk.message || `Projected $${(chunk.projectedCost || 0).toFixed(4)} on ${chunk.model}`,
+                details: {
+                  model: chunk.model,
+                  projectedCost: chunk.projectedCost,
+                  inputTokens: chunk.inputTokens,
+                  tokenSource: chunk.tokenSource,
+                  spentToday: chunk.spentToday,
+                },
+              });
+            } else if (chunk.type === 'stuck_warning') {
+              if (chunk.escalation === 'stop') {
+                stopReason = 'Stopped: no progress';
+              }
+              setProgressMessage(chunk.message || 'Re-thinking approach...');
+              logEvent({
+                category: 'Plan',
+                severity: chunk.escalation === 'hint' ? 'Info' : 'Warning',
+                title: chunk.escalation === 'hint'
+                  ? 'Progress hint'
+                  : chunk.escalation === 'replan' ? 'Forced re-plan' : 'Stopped: no progress',
+                summary: chunk.reason || chunk.message || 'Loop detected',
+                details: {
+                  round: chunk.round,
+                  escalation: chunk.escalation,
+                  stalledRounds: chunk.stalledRounds,
+                },
+              });
+            } else if (chunk.type === 'command_denied') {
+              logEvent({
+                category: 'Command',
+                severity: 'Warning',
+                title: 'Command denied',
+                summary: `${chunk.command} — ${chunk.violation?.reason || 'blocked by policy'}`,
+                details: { command: chunk.command, violation: chunk.violation },
+              });
+            } else if (chunk.type === 'approval_required') {
+              if (chunk.approval) {
+                setPendingApprovals(prev => [...prev.filter(a => a.id !== chunk.approval.id), chunk.approval]);
+                setProgressMessage(chunk.message || 'Waiting for approval...');
+              }
+              logToolEvent('Approval requested', chunk.approval?.toolCall?.name || 'Tool call', {
+                tool: chunk.approval?.toolCall?.name,
+                input: chunk.approval?.toolCall?.input,
+                approvalId: chunk.approval?.id,
+              });
+            } else if (chunk.type === 'approval_resolved') {
+              setPendingApprovals(prev => prev.filter(a => a.id !== chunk.approvalId));
+              logToolEvent('Approval resolved', chunk.decision || 'resolved', {
+                approvalId: chunk.approvalId,
+                decision: chunk.decision,
+              });
             } else if (chunk.type === 'tool_start') {
               setProgressMessage(chunk.message || 'Running tool...');
+              if (chunk.toolCall) {
+                updateToolActions(actions => [...actions, {
+                  id: chunk.toolCall.id,
+                  type: chunk.toolCall.name,
+                  status: 'running',
+                  summary: chunk.message || chunk.toolCall.name,
+                  command: chunk.toolCall.name === 'run_command' ? chunk.toolCall.input?.command : undefined,
+                }]);
+              }
               logToolEvent('Tool started', chunk.message || 'Tool execution', {
                 tool: chunk.toolCall?.name,
                 input: chunk.toolCall?.input,
@@ -835,18 +1367,50 @@ export default function Home() {
                   path: input.path,
                   action: chunk.toolCall.name === 'create_file' ? 'create' : 'edit',
                 });
+              } else if (chunk.toolCall?.name === 'delete_file') {
+                allFileChanges.push({ path: chunk.toolCall.input.path, action: 'delete' });
+              } else if (chunk.toolCall?.name === 'move_file') {
+                const input = chunk.toolCall.input;
+                allFileChanges.push({ path: input.to_path, fromPath: input.from_path, action: 'move' });
               }
+            } else if (chunk.type === 'command_output') {
+              const lines: CommandOutputLine[] = chunk.lines || [];
+              updateToolActions(actions => actions.map(a =>
+                a.id === chunk.toolUseId
+                  ? { ...a, output: [...(a.output || []), ...lines].slice(-APP_CONSTANTS.MAX_TERMINAL_LINES) }
+                  : a
+              ));
             } else if (chunk.type === 'tool_result') {
-              logToolEvent('Tool result', chunk.toolCall?.name || 'Tool returned', {
-                tool: chunk.toolCall?.name,
-                callId: chunk.toolCall?.id,
+              const result: string = chunk.result || '';
+              const exitCode = result.match(/\nExit code: (\S+)/)?.[1];
+              const failed = /^(Error|✗)/.test(result) || (exitCode !== undefined && exitCode !== '0');
+              updateToolActions(actions => actions.map(a =>
+                a.id === chunk.toolUseId
+                  ? { ...a, status: failed ? 'error' : 'complete', result, fileChanges: chunk.fileChanges }
+                  : a
+              ));
+              if (chunk.name === 'run_command') {
+                logCommandEvent(
+                  failed ? 'Command failed' : 'Command finished',
+                  toolActions.find(a => a.id === chunk.toolUseId)?.command || 'run_command',
+                  { callId: chunk.toolUseId, exitCode },
+                  chunk.durationMs
+                );
+              }
+              logToolEvent('Tool result', chunk.name || chunk.toolCall?.name || 'Tool returned', {
+                tool: chunk.name || chunk.toolCall?.name,
+                callId: chunk.toolUseId || chunk.toolCall?.id,
                 output: chunk.result || chunk.content,
-              });
+                waitMs: chunk.waitMs,
+              }, chunk.durationMs);
             } else if (chunk.type === 'done') {
               finalCost = chunk.cost || 0;
+              finalCostByModel = chunk.costByModel;
               finalSavedPercent = chunk.savedPercent || 0;
               if (chunk.fileChanges) {
-                allFileChanges.push(...chunk.fileChanges);
+                // The server's list has exact stats and diffs - it supersedes the entries guessed from tool calls
+                allFileChanges.splice(0, allFileChanges.length, ...chunk.fileChanges);
+                serverFileChanges = true;
               }
               if (chunk.prUrl) {
                 finalPrUrl = chunk.prUrl;
@@ -857,6 +1421,18 @@ export default function Home() {
               if (chunk.loadedFiles) {
                 newLoadedFiles = chunk.loadedFiles;
               }
+              if (chunk.plan) {
+                currentPlan = chunk.plan;
+              }
+              if (chunk.citations) {
+                finalCitations = chunk.citations;
+              }
+              if (chunk.dryRun) {
+                finalDryRun = chunk.dryRun;
+              }
+              if (chunk.commitSha) {
+                finalCommitSha = chunk.commitSha;
+              }
             } else if (chunk.error) {
               throw new Error(chunk.error);
             }
@@ -899,16 +1475,34 @@ export default function Home() {
         content: accumulatedContent,
         isStreaming: false,
         cost: finalCost,
+        costByModel: finalCostByModel,
         savedPercent: finalSavedPercent,
         thinkingContent: accumulatedThinking || undefined,
         artifacts: allArtifacts.length > 0 ? allArtifacts : undefined,
         filesChanged: allFileChanges.length > 0 ? allFileChanges : undefined,
+        runId: finalRunId,
         prUrl: finalPrUrl,
+        contextSummary,
+        plan: currentPlan,
+        citations: finalCitations,
+        dryRun: finalDryRun,
+        toolActions: toolActions.length > 0 ? toolActions : undefined,
       };
 
-      const finalMessages = [...messages, userMessage, updatedAssistant];
+      const finalMessages = [...baseMessages, userMessage, updatedAssistant];
       setMessages(finalMessages);
 
+      const checkpoint: ConversationCheckpoint | undefined = serverFileChanges && finalRunId
+        ? {
+            messageId: updatedAssistant.id,
+            runId: finalRunId,
+            createdAt: new Date().toISOString(),
+            target: settings.fileAccessMode === 'local' ? 'local' : 'github',
+            commitSha: finalCommitSha,
+            filesChanged: allFileChanges.length,
+          }
+        : undefined;
+
       if (allFileChanges.length > 0) {
         allFileChanges.forEach(change =>
           logFileEvent(
@@ -928,6 +1522,7 @@ export default function Home() {
         'Chat stream completed',
         {
           cost: finalCost,
+          costByModel: finalCostByModel,
           savedPercent: finalSavedPercent,
           artifacts: allArtifacts.length,
           filesChanged: allFileChanges.length,
@@ -966,11 +1561,12 @@ export default function Home() {
           ? {
               ...c,
               // Use savedInputValue and check original messages length (before this turn)
-              title: c.title === 'New conversation' || c.messages.length === 0 ? savedInputValue.slice(0, 50) : c.title,
+              title: c.title === 'New conversation' || c.messages.length === 0 ? userMessage.content.slice(0, 50) : c.title,
               messages: finalMessages,
               updatedAt: new Date(),
               totalCost: (c.totalCost || 0) + finalCost,
               filesChanged: allFileChanges.length > 0 ? [...(c.filesChanged || []), ...allFileChanges] : c.filesChanged,
+              checkpoints: checkpoint ? [...(c.checkpoints || []), checkpoint] : c.checkpoints,
             }
           : c
       ));
@@ -993,18 +1589,54 @@ export default function Home() {
           content: 'Sorry, an error occurred. Please try again.',
           isStreaming: false,
         };
-        setMessages([...messages, userMessage, errorMessage]);
+        setMessages([...baseMessages, userMessage, errorMessage]);
         logErrorEvent('Chat pipeline error', error, {
           conversationId: convId,
-          message: inputValue,
+          message: userMessage.content,
         });
       }
     } finally {
       setIsStreaming(false);
       abortControllerRef.current = null;
+      activeRunIdRef.current = null;
+      setPendingApprovals([]);
+      localStorage.removeItem('activeRun');
     }
   };
 
+  // --------------------------------------------------------------------------
+  // FUNCTIONS - Reattach to a run that was still going when the page unloaded
+  // --------------------------------------------------------------------------
+  const handleResumeRun = async (activeRun: { runId: string; userMessage: Message; assistantMessageId: string }, conversation: Conversation) => {
+    const userMessage: Message = { ...activeRun.userMessage, timestamp: new Date(activeRun.userMessage.timestamp) };
+    const assistantMessage: Message = {
+      id: activeRun.assistantMessageId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      isStreaming: true,
+    };
+
+    setMessages([...conversation.messages, userMessage, assistantMessage]);
+    setIsStreaming(true);
+    logCommandEvent('Resume run', `Reattaching to run ${activeRun.runId}`, {
+      runId: activeRun.runId,
+      conversationId: conversation.id,
+    });
+
+    await streamAgenticRun({
+      convId: conversation.id,
+      baseMessages: conversation.messages,
+      userMessage,
+      assistantMessage,
+      // Replays the full event log, then follows the run if it is still live
+      openStream: (signal) => fetch(`/api/chat/runs/${activeRun.runId}`, {
+        headers: { 'x-anthropic-key': anthropicKey },
+        signal,
+      }),
+    });
+  };
+
   // --------------------------------------------------------------------------
   // FUNCTIONS - Handle key press
   // --------------------------------------------------------------------------
@@ -1073,7 +1705,7 @@ export default function Home() {
     const filesChanged = latestChangeMessage?.filesChanged || [];
     const changeSummary = filesChanged
       .map(f =>
-        `- **${f.action}** \`${f.path}\`${f.additions ? ` (+${f.additions})` : ''}${
+        `- **${f.action}** ${f.fromPath ? `\`${f.fromPath}\` → ` : ''}\`${f.path}\`${f.additions ? ` (+${f.additions})` : ''}${
           f.deletions ? ` (-${f.deletions})` : ''
         }`
       )
@@ -1414,6 +2046,7 @@ export default function Home() {
         currentConversationId={currentConversationId}
         onNewChat={handleNewChat}
         onSelectConversation={setCurrentConversationId}
+        onSelectCheckpoint={handleSelectCheckpoint}
         totalCost={totalCost}
       />
 
@@ -1507,38 +2140,29 @@ export default function Home() {
           </div>
 
           <div className="flex items-center gap-2">
-            {/* Undo button - shows if last message had file changes */}
-            {messages.length > 0 && messages[messages.length - 1]?.filesChanged && (
-              <button
-                onClick={async () => {
-                  if (confirm('Undo last file changes? This will revert using git.')) {
-                    try {
-                      await fetch('/api/github', {
-                        method: 'POST',
-                        headers: {
-                          'Content-Type': 'application/json',
-                          'x-github-token': githubToken,
-                        },
-                        body: JSON.stringify({
-                          action: 'revert',
-                          owner: currentRepo?.owner,
-                          repo: currentRepo?.name,
-                          branch: currentBranch,
-                        }),
-                      });
-                      alert('Changes reverted!');
-                    } catch (e) {
-                      alert('Failed to undo: ' + (e as Error).message);
+            {/* Undo button - reverts the last message's run if it changed files */}
+            {(() => {
+              const last = messages[messages.length - 1];
+              if (!last?.runId || !last.filesChanged?.length || last.revertedAt || isStreaming) return null;
+              return (
+                <button
+                  onClick={async () => {
+                    if (confirm('Undo last file changes? Every file the last run changed is restored.')) {
+                      try {
+                        await handleRevertRun(last.id, last.runId!);
+                      } catch (e) {
+                        alert('Failed to undo: ' + (e as Error).message);
+                      }
                     }
-                  }
-                }}
-                className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-[var(--warning)]/10 text-[var(--warning)] hover:bg-[var(--warning)]/20 transition-colors text-sm"
-                title="Undo last file changes"
-              >
-                <Undo2 className="w-4 h-4" />
-                Undo
-              </button>
-            )}
+                  }}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-[var(--warning)]/10 text-[var(--warning)] hover:bg-[var(--warning)]/20 transition-colors text-sm"
+                  title="Undo last file changes"
+                >
+                  <Undo2 className="w-4 h-4" />
+                  Undo
+                </button>
+              );
+            })()}
 
             {/* Cost display */}
             <CostTracker
@@ -1593,8 +2217,29 @@ export default function Home() {
                     message={message}
                     onViewPR={(prUrl?: string) => handleViewPR(prUrl)}
                     onDiscard={() => handleDiscard()}
+                    onPlanChange={(plan) => handlePlanChange(message.id, plan)}
+                    onRunPlan={isStreaming ? undefined : handleRunPlan}
+                    onCancelCommand={message.isStreaming ? handleCancelCommand : undefined}
+                    onApplyDryRun={(changeset) => handleApplyDryRun(message.id, changeset)}
+                    onRevertRun={message.runId ? () => handleRevertRun(message.id, message.runId!) : undefined}
+                    checkpoint={conversations.find(c => c.id === currentConversationId)?.checkpoints?.find(cp => cp.messageId === message.id)}
+                    onRewind={!isStreaming && message.role === 'assistant' && message.id !== messages[messages.length - 1]?.id
+                      ? () => handleRewindToMessage(message.id)
+                      : undefined}
                   />
                 ))}
+                {/* Tool calls waiting for approval */}
+                {pendingApprovals.length > 0 && (
+                  <div className="max-w-3xl mx-auto px-2 sm:px-4">
+                    {pendingApprovals.map((approval) => (
+                      <ApprovalCard
+                        key={approval.id}
+                        approval={approval}
+                        onDecide={handleApprovalDecision}
+                      />
+                    ))}
+                  </div>
+                )}
                 {/* Progress indicator */}
                 {isStreaming && progressTotal > 0 && (
                   <div className="max-w-3xl mx-auto px-2 sm:px-4 py-4">
@@ -1750,6 +2395,19 @@ export default function Home() {
                 </div>
               </button>
 
+              {/* Dry run toggle */}
+              <button
+                onClick={() => setDryRun(prev => !prev)}
+                className={`p-3 rounded-full transition-colors ${
+                  dryRun
+                    ? 'bg-[var(--accent-dim)] text-[var(--accent)]'
+                    : 'hover:bg-[var(--accent-dim)] text-[var(--text-tertiary)]'
+                }`}
+                title={`Dry run: ${dryRun ? 'ON - changes are previewed, not written' : 'OFF'}`}
+              >
+                <FlaskConical className="w-5 h-5" />
+              </button>
+
               {/* Extended thinking toggle */}
               <button
                 onClick={toggleExtendedThinking}
@@ -1774,7 +2432,7 @@ export default function Home() {
                 </button>
               ) : (
                 <button
-                  onClick={handleSendMessage}
+                  onClick={() => handleSendMessage()}
                   disabled={!inputValue.trim()}
                   className="p-3 rounded-full bg-[var(--accent)] text-white hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-transform shadow-md hover:scale-105"
                   title="Send"
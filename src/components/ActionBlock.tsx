@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   ChevronDown,
   ChevronRight,
@@ -9,26 +9,30 @@ import {
   Search,
   Edit,
   FilePlus,
+  FileDiff,
+  Trash2,
+  MoveRight,
+  Replace,
   Loader2,
   Check,
   AlertCircle,
-  CheckCircle2
+  CheckCircle2,
+  Terminal,
+  Square,
+  Crosshair,
+  Link,
+  ListTree,
+  Network
 } from 'lucide-react';
-
-export interface ToolAction {
-  id: string;
-  type: 'web_search' | 'web_fetch' | 'read_file' | 'str_replace' | 'create_file' | 'grep_search' | 'search_files' | 'verify_edit';
-  status: 'running' | 'complete' | 'error';
-  summary: string;
-  details?: string;
-  result?: string;
-}
+import { ToolAction } from '@/types';
+import CodeDiff from './CodeDiff';
 
 interface ActionBlockProps {
   actions: ToolAction[];
+  onCancelCommand?: (toolUseId: string) => void;
 }
 
-export default function ActionBlock({ actions }: ActionBlockProps) {
+export default function ActionBlock({ actions, onCancelCommand }: ActionBlockProps) {
   const [expanded, setExpanded] = useState(false);
 
   if (!actions || actions.length === 0) return null;
@@ -37,9 +41,14 @@ export default function ActionBlock({ actions }: ActionBlockProps) {
   const hasError = actions.some(a => a.status === 'error');
   const runningCount = actions.filter(a => a.status === 'running').length;
 
+  // Running commands stay visible even when the step list is collapsed
+  const runningCommands = actions.filter(a => a.type === 'run_command' && a.status === 'running');
+
   // Single action - show inline
   if (actions.length === 1) {
-    return <SingleAction action={actions[0]} />;
+    return actions[0].type === 'run_command'
+      ? <TerminalAction action={actions[0]} onCancel={onCancelCommand} />
+      : <SingleAction action={actions[0]} />;
   }
 
   // Multiple actions - show as "N steps"
@@ -71,7 +80,17 @@ export default function ActionBlock({ actions }: ActionBlockProps) {
       {expanded && (
         <div className="px-4 pb-3 space-y-2 border-t border-[var(--claude-border)] pt-3">
           {actions.map((action) => (
-            <SingleAction key={action.id} action={action} compact />
+            action.type === 'run_command'
+              ? <TerminalAction key={action.id} action={action} onCancel={onCancelCommand} />
+              : <SingleAction key={action.id} action={action} compact />
+          ))}
+        </div>
+      )}
+
+      {!expanded && runningCommands.length > 0 && (
+        <div className="px-4 pb-3 border-t border-[var(--claude-border)]">
+          {runningCommands.map((action) => (
+            <TerminalAction key={action.id} action={action} onCancel={onCancelCommand} />
           ))}
         </div>
       )}
@@ -79,6 +98,77 @@ export default function ActionBlock({ actions }: ActionBlockProps) {
   );
 }
 
+// Terminal-style view of a run_command call with live output
+function TerminalAction({ action, onCancel }: { action: ToolAction; onCancel?: (toolUseId: string) => void }) {
+  const [expanded, setExpanded] = useState(action.status === 'running');
+  const outputRef = useRef<HTMLDivElement>(null);
+  const isRunning = action.status === 'running';
+  const lines = action.output || [];
+
+  // Follow the output while the command runs
+  useEffect(() => {
+    if (isRunning && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [lines.length, isRunning]);
+
+  const exitCode = action.result?.match(/\nExit code: (\S+)/)?.[1];
+
+  return (
+    <div className="my-3 rounded-xl border border-[var(--claude-border)] overflow-hidden bg-[#1e1e1e]">
+      <div className="flex items-center gap-2 px-3 py-2 bg-[#2d2d2d]">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 min-w-0 flex-1 text-left"
+        >
+          {isRunning ? (
+            <Loader2 className="w-3.5 h-3.5 text-[var(--claude-terracotta)] animate-spin flex-shrink-0" />
+          ) : action.status === 'error' ? (
+            <AlertCircle className="w-3.5 h-3.5 text-[var(--claude-error)] flex-shrink-0" />
+          ) : (
+            <Terminal className="w-3.5 h-3.5 text-[var(--claude-success)] flex-shrink-0" />
+          )}
+          <code className="text-xs font-mono text-gray-200 truncate">$ {action.command || action.summary}</code>
+        </button>
+        {!isRunning && exitCode !== undefined && (
+          <span className={`text-xs font-mono ${exitCode === '0' ? 'text-gray-400' : 'text-red-400'}`}>
+            exit {exitCode}
+          </span>
+        )}
+        {isRunning && onCancel && (
+          <button
+            onClick={() => onCancel(action.id)}
+            className="flex items-center gap-1 px-2 py-0.5 rounded text-xs text-gray-300 hover:bg-[#3d3d3d] transition-colors"
+            title="Stop this command (the run continues)"
+          >
+            <Square className="w-3 h-3" />
+            Stop
+          </button>
+        )}
+        {expanded ? (
+          <ChevronDown className="w-3.5 h-3.5 text-gray-400" />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5 text-gray-400" />
+        )}
+      </div>
+
+      {expanded && (
+        <div ref={outputRef} className="max-h-64 overflow-y-auto px-3 py-2 font-mono text-xs leading-relaxed">
+          {lines.length === 0 ? (
+            <span className="text-gray-500">{isRunning ? 'Waiting for output...' : 'No output'}</span>
+          ) : (
+            lines.map((line, index) => (
+              <div key={index} className={`whitespace-pre-wrap break-all ${line.stream === 'stderr' ? 'text-red-300' : 'text-gray-200'}`}>
+                {line.text || ' '}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function SingleAction({ action, compact = false }: { action: ToolAction; compact?: boolean }) {
   const [expanded, setExpanded] = useState(false);
 
@@ -88,9 +178,18 @@ function SingleAction({ action, compact = false }: { action: ToolAction; compact
     read_file: <FileText className="w-4 h-4" />,
     str_replace: <Edit className="w-4 h-4" />,
     create_file: <FilePlus className="w-4 h-4" />,
+    apply_patch: <FileDiff className="w-4 h-4" />,
+    delete_file: <Trash2 className="w-4 h-4" />,
+    move_file: <MoveRight className="w-4 h-4" />,
+    rename_symbol_across_files: <Replace className="w-4 h-4" />,
     grep_search: <Search className="w-4 h-4" />,
     search_files: <Search className="w-4 h-4" />,
+    find_definition: <Crosshair className="w-4 h-4" />,
+    find_references: <Link className="w-4 h-4" />,
+    list_symbols: <ListTree className="w-4 h-4" />,
+    dependency_graph: <Network className="w-4 h-4" />,
     verify_edit: <CheckCircle2 className="w-4 h-4" />,
+    run_command: <Terminal className="w-4 h-4" />,
   };
 
   const statusColors = {
@@ -99,28 +198,44 @@ function SingleAction({ action, compact = false }: { action: ToolAction; compact
     error: 'text-[var(--claude-error)]',
   };
 
+  const changes = action.fileChanges?.filter(file => file.diff) ?? [];
+
   if (compact) {
     return (
-      <div className="flex items-center gap-2 py-2 text-sm">
-        <span className={statusColors[action.status]}>
-          {action.status === 'running' ? (
-            <Loader2 className="w-3.5 h-3.5 animate-spin" />
-          ) : action.status === 'error' ? (
-            <AlertCircle className="w-3.5 h-3.5" />
-          ) : (
-            <Check className="w-3.5 h-3.5" />
+      <div>
+        <div className="flex items-center gap-2 py-2 text-sm">
+          <span className={statusColors[action.status]}>
+            {action.status === 'running' ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : action.status === 'error' ? (
+              <AlertCircle className="w-3.5 h-3.5" />
+            ) : (
+              <Check className="w-3.5 h-3.5" />
+            )}
+          </span>
+          <span className="text-[var(--claude-text-muted)]">{icons[action.type]}</span>
+          <span className="text-[var(--claude-text-secondary)]">{action.summary}</span>
+          {changes.length > 0 && (
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded text-xs text-[var(--claude-text-muted)] hover:bg-[var(--claude-sand-light)] transition-colors"
+            >
+              <FileDiff className="w-3 h-3" />
+              {expanded ? 'Hide diff' : 'Diff'}
+            </button>
           )}
-        </span>
-        <span className="text-[var(--claude-text-muted)]">{icons[action.type]}</span>
-        <span className="text-[var(--claude-text-secondary)]">{action.summary}</span>
+        </div>
+        {expanded && <FileDiffs changes={changes} />}
       </div>
     );
   }
 
+  const expandable = Boolean(action.result) || changes.length > 0;
+
   return (
     <div className="my-3 rounded-xl border border-[var(--claude-border)] bg-[var(--claude-surface-sunken)] overflow-hidden">
       <button
-        onClick={() => action.result && setExpanded(!expanded)}
+        onClick={() => expandable && setExpanded(!expanded)}
         className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-[var(--claude-sand-light)] transition-colors"
       >
         <span className={statusColors[action.status]}>
@@ -135,7 +250,7 @@ function SingleAction({ action, compact = false }: { action: ToolAction; compact
         <span className="text-sm font-medium text-[var(--claude-text-secondary)]">
           {action.summary}
         </span>
-        {action.result && (
+        {expandable && (
           <div className="ml-auto">
             {expanded ? (
               <ChevronDown className="w-4 h-4 text-[var(--claude-text-muted)]" />
@@ -146,13 +261,27 @@ function SingleAction({ action, compact = false }: { action: ToolAction; compact
         )}
       </button>
 
-      {expanded && action.result && (
-        <div className="px-4 pb-4 pt-2 border-t border-[var(--claude-border)]">
-          <pre className="text-xs font-mono text-[var(--claude-text-secondary)] whitespace-pre-wrap bg-[var(--claude-surface)] p-3 rounded-lg overflow-x-auto max-h-48 overflow-y-auto">
-            {action.result}
-          </pre>
+      {expanded && expandable && (
+        <div className="px-4 pb-4 pt-2 border-t border-[var(--claude-border)] space-y-2">
+          {action.result && (
+            <pre className="text-xs font-mono text-[var(--claude-text-secondary)] whitespace-pre-wrap bg-[var(--claude-surface)] p-3 rounded-lg overflow-x-auto max-h-48 overflow-y-auto">
+              {action.result}
+            </pre>
+          )}
+          <FileDiffs changes={changes} />
         </div>
       )}
     </div>
   );
 }
+
+function FileDiffs({ changes }: { changes: NonNullable<ToolAction['fileChanges']> }) {
+  if (changes.length === 0) return null;
+  return (
+    <div className="space-y-2 pb-2">
+      {changes.map((file, index) => (
+        <CodeDiff key={`${file.path}-${index}`} file={file} />
+      ))}
+    </div>
+  );
+}
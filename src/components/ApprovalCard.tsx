@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ShieldAlert, Check, X, Pencil } from 'lucide-react';
+import { ApprovalDecision, ApprovalRequest } from '@/types';
+
+interface ApprovalCardProps {
+  approval: ApprovalRequest;
+  onDecide: (approval: ApprovalRequest, decision: ApprovalDecision) => Promise<void>;
+}
+
+export default function ApprovalCard({ approval, onDecide }: ApprovalCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedInput, setEditedInput] = useState(() => JSON.stringify(approval.toolCall.input, null, 2));
+  const [editError, setEditError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const decide = async (decision: ApprovalDecision) => {
+    setIsSubmitting(true);
+    try {
+      await onDecide(approval, decision);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmitEdit = () => {
+    try {
+      const input = JSON.parse(editedInput);
+      if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        setEditError('Input must be a JSON object');
+        return;
+      }
+      setEditError('');
+      void decide({ action: 'edit', input });
+    } catch {
+      setEditError('Invalid JSON');
+    }
+  };
+
+  const lineClass = (line: string) => {
+    if (approval.kind !== 'diff') return '';
+    if (line.startsWith('+++') || line.startsWith('---')) return 'text-[var(--claude-text-muted)]';
+    if (line.startsWith('+')) return 'bg-green-50 dark:bg-green-950/20 text-green-800 dark:text-green-200';
+    if (line.startsWith('-')) return 'bg-red-50 dark:bg-red-950/20 text-red-800 dark:text-red-200';
+    return '';
+  };
+
+  return (
+    <div className="my-3 rounded-xl border border-[var(--claude-terracotta)] bg-[var(--claude-surface-sunken)] overflow-hidden">
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-[var(--claude-border)]">
+        <ShieldAlert className="w-4 h-4 text-[var(--claude-terracotta)]" />
+        <span className="text-sm font-medium text-[var(--claude-text)]">
+          Approve <code className="font-mono">{approval.toolCall.name}</code>?
+        </span>
+        {typeof approval.toolCall.input.path === 'string' && (
+          <span className="text-xs font-mono text-[var(--claude-text-muted)] truncate">
+            {approval.toolCall.input.path}
+          </span>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="p-3 space-y-2">
+          <textarea
+            value={editedInput}
+            onChange={(e) => setEditedInput(e.target.value)}
+            rows={Math.min(20, editedInput.split('\n').length + 1)}
+            className="w-full p-3 rounded-lg border border-[var(--claude-border)] bg-[var(--claude-surface)] font-mono text-xs text-[var(--claude-text)] focus:outline-none focus:border-[var(--claude-terracotta)]"
+          />
+          {editError && <p className="text-xs text-[var(--claude-error)]">{editError}</p>}
+        </div>
+      ) : (
+        <pre className="max-h-80 overflow-auto p-3 text-xs font-mono">
+          {approval.preview.split('\n').map((line, index) => (
+            <div key={index} className={lineClass(line)}>{line || ' '}</div>
+          ))}
+        </pre>
+      )}
+
+      <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-[var(--claude-border)]">
+        {isEditing ? (
+          <>
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={isSubmitting}
+              className="px-3 py-1.5 rounded-lg text-sm text-[var(--claude-text-secondary)] hover:bg-[var(--claude-sand-light)] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmitEdit}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-[var(--claude-terracotta)] text-white hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              <Check className="w-3.5 h-3.5" />
+              Run edited
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => void decide({ action: 'reject' })}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-[var(--claude-error)] hover:bg-[var(--claude-sand-light)] transition-colors disabled:opacity-50"
+            >
+              <X className="w-3.5 h-3.5" />
+              Reject
+            </button>
+            <button
+              onClick={() => setIsEditing(true)}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-[var(--claude-text-secondary)] hover:bg-[var(--claude-sand-light)] transition-colors disabled:opacity-50"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+              Edit
+            </button>
+            <button
+              onClick={() => void decide({ action: 'accept' })}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-[var(--claude-terracotta)] text-white hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              <Check className="w-3.5 h-3.5" />
+              Accept
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,26 +2,36 @@
 
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Sparkles } from 'lucide-react';
-import { Message } from '@/types';
+import { Flag, History, Sparkles } from 'lucide-react';
+import { ConversationCheckpoint, DryRunChangeset, Message, TaskPlan } from '@/types';
 import ThinkingBlock from './ThinkingBlock';
+import SummaryBlock from './SummaryBlock';
+import PlanChecklist from './PlanChecklist';
 import ActionBlock from './ActionBlock';
 import CodeBlock from './CodeBlock';
 import CostTracker from './CostTracker';
 import PostEditActions from './PostEditActions';
 import Citations from './Citations';
+import DryRunChanges from './DryRunChanges';
 
 interface ChatMessageProps {
   message: Message;
   onViewPR?: (prUrl?: string) => void;
   onDiscard?: () => void;
+  onPlanChange?: (plan: TaskPlan) => void;
+  onRunPlan?: (plan: TaskPlan) => void;
+  onCancelCommand?: (toolUseId: string) => void;
+  onApplyDryRun?: (changeset: DryRunChangeset) => Promise<void>;
+  onRevertRun?: () => Promise<void>;
+  checkpoint?: ConversationCheckpoint;
+  onRewind?: () => void;
 }
 
-export default function ChatMessage({ message, onViewPR, onDiscard }: ChatMessageProps) {
+export default function ChatMessage({ message, onViewPR, onDiscard, onPlanChange, onRunPlan, onCancelCommand, onApplyDryRun, onRevertRun, checkpoint, onRewind }: ChatMessageProps) {
   const isUser = message.role === 'user';
 
   return (
-    <div className="w-full">
+    <div id={`message-${message.id}`} className="w-full">
       <div className={`group w-full flex ${isUser ? 'justify-end' : 'justify-start'}`}>
         <div className={`max-w-3xl w-full ${isUser ? '' : ''}`}>
           {!isUser && (
@@ -40,6 +50,11 @@ export default function ChatMessage({ message, onViewPR, onDiscard }: ChatMessag
                 : 'bg-transparent pl-0'
             }`}
           >
+            {/* Summary of earlier turns that replaced them in context */}
+            {message.contextSummary && (
+              <SummaryBlock summary={message.contextSummary} />
+            )}
+
             {/* Thinking block */}
             {message.thinkingContent && (
               <ThinkingBlock
@@ -48,9 +63,19 @@ export default function ChatMessage({ message, onViewPR, onDiscard }: ChatMessag
               />
             )}
 
+            {/* Task plan */}
+            {message.plan && (
+              <PlanChecklist
+                plan={message.plan}
+                isStreaming={message.isStreaming}
+                onChange={onPlanChange}
+                onRun={onRunPlan}
+              />
+            )}
+
             {/* Tool actions */}
             {message.toolActions && message.toolActions.length > 0 && (
-              <ActionBlock actions={message.toolActions} />
+              <ActionBlock actions={message.toolActions} onCancelCommand={onCancelCommand} />
             )}
 
             {/* Message content */}
@@ -104,7 +129,7 @@ export default function ChatMessage({ message, onViewPR, onDiscard }: ChatMessag
                     totalDeletions,
                     prUrl: message.prUrl,
                     previewUrl: message.previewUrl,
-                    status: message.prUrl ? 'pr_created' : 'pushed',
+                    status: message.revertedAt ? 'reverted' : message.prUrl ? 'pr_created' : 'pushed',
                   }}
                   onViewPR={(prUrl) => {
                     if (onViewPR) {
@@ -114,10 +139,46 @@ export default function ChatMessage({ message, onViewPR, onDiscard }: ChatMessag
                     }
                   }}
                   onDiscard={onDiscard}
+                  onRevert={onRevertRun}
                 />
               );
             })()}
 
+            {/* Changes a dry run would make */}
+            {message.dryRun && (
+              <DryRunChanges changeset={message.dryRun} onApply={onApplyDryRun} />
+            )}
+
+            {/* Checkpoint left by this message's code changes, and rewinding to it */}
+            {!isUser && (checkpoint || onRewind) && (
+              <div className="mt-3 flex items-center gap-3 text-xs text-[var(--text-tertiary)]">
+                {checkpoint && (
+                  <span
+                    className={`inline-flex items-center gap-1.5 ${checkpoint.unavailable ? 'opacity-50 line-through' : ''}`}
+                    title={checkpoint.unavailable
+                      ? 'No longer stored on the server - cannot be rewound past'
+                      : `${checkpoint.filesChanged} file${checkpoint.filesChanged === 1 ? '' : 's'} changed`}
+                  >
+                    <Flag className={`w-3 h-3 ${checkpoint.unavailable ? '' : 'text-[var(--accent)]'}`} />
+                    Checkpoint
+                    <span className="font-mono">
+                      {checkpoint.commitSha ? checkpoint.commitSha.slice(0, 7) : 'local snapshot'}
+                    </span>
+                  </span>
+                )}
+                {onRewind && (
+                  <button
+                    onClick={onRewind}
+                    className="inline-flex items-center gap-1 opacity-0 group-hover:opacity-100 hover:text-[var(--text-primary)] transition-opacity"
+                    title="Remove the later messages and revert their code changes"
+                  >
+                    <History className="w-3 h-3" />
+                    Rewind to here
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Citations from web search */}
             {message.citations && message.citations.length > 0 && (
               <Citations citations={message.citations} />
@@ -129,6 +190,7 @@ export default function ChatMessage({ message, onViewPR, onDiscard }: ChatMessag
                 <CostTracker
                   cost={message.cost}
                   savedPercent={message.savedPercent}
+                  costByModel={message.costByModel}
                   compact
                 />
               </div>
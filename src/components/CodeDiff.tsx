@@ -1,37 +1,272 @@
 'use client';
 
-import React from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { ChevronsUpDown, Columns2, Rows2 } from 'lucide-react';
+import { FileChange } from '@/types';
+import {
+  DiffViewHunk,
+  DiffViewLine,
+  SplitRow,
+  foldUnchanged,
+  languageForPath,
+  parseDiffView,
+  toSplitRows,
+} from '@/lib/diffView';
+
+type DiffMode = 'unified' | 'split';
 
 interface CodeDiffProps {
-  oldCode: string;
-  newCode: string;
-  language?: string;
+  file: FileChange;
+  defaultMode?: DiffMode;
+}
+
+const MAX_HIGHLIGHTED_LINES = 2000; // Larger diffs render as plain text
+
+// Minimal shape of the token tree react-syntax-highlighter hands to a renderer
+interface TokenNode {
+  type: 'element' | 'text';
+  value?: string | number;
+  properties?: { className?: string[] };
+  children?: TokenNode[];
 }
 
-export default function CodeDiff({ oldCode, newCode, language = 'typescript' }: CodeDiffProps) {
+const lineBackground: Record<DiffViewLine['kind'], string> = {
+  context: '',
+  delete: 'bg-red-50 dark:bg-red-950/20',
+  add: 'bg-green-50 dark:bg-green-950/20',
+};
+
+const changeBackground: Record<DiffViewLine['kind'], string> = {
+  context: '',
+  delete: 'bg-red-200/70 dark:bg-red-800/40 rounded-sm',
+  add: 'bg-green-200/70 dark:bg-green-800/40 rounded-sm',
+};
+
+// Token colors for the active theme, chosen once per diff rather than per line
+const HighlightStyle = createContext(oneLight);
+
+// The app switches themes with the dark class on <html>, like Tailwind's dark: variants
+function useDarkTheme(): boolean {
+  const [dark, setDark] = useState(false);
+  useEffect(() => {
+    const root = document.documentElement;
+    const update = () => setDark(root.classList.contains('dark'));
+    update();
+    const observer = new MutationObserver(update);
+    observer.observe(root, { attributes: true, attributeFilter: ['class'] });
+    return () => observer.disconnect();
+  }, []);
+  return dark;
+}
+
+export default function CodeDiff({ file, defaultMode = 'unified' }: CodeDiffProps) {
+  const [mode, setMode] = useState<DiffMode>(defaultMode);
+  const dark = useDarkTheme();
+  const hunks = useMemo(() => parseDiffView(file.diff || ''), [file.diff]);
+  const lineCount = hunks.reduce((sum, hunk) => sum + hunk.lines.length, 0);
+  const language = lineCount > MAX_HIGHLIGHTED_LINES ? 'text' : languageForPath(file.path);
+
+  if (hunks.length === 0) {
+    return (
+      <p className="px-3 py-2 text-xs text-[var(--claude-text-muted)]">
+        {file.action === 'move' ? 'Moved without changes' : 'No changes to show'}
+      </p>
+    );
+  }
+
   return (
-    <div className="rounded-xl overflow-hidden border border-[var(--claude-border)]">
-      <div className="grid grid-cols-2 divide-x divide-[var(--claude-border)]">
-        {/* Before */}
-        <div className="bg-red-50 dark:bg-red-950/20">
-          <div className="px-4 py-2 bg-red-100 dark:bg-red-900/30 border-b border-red-200 dark:border-red-800">
-            <span className="text-sm font-medium text-red-700 dark:text-red-300">Before</span>
-          </div>
-          <pre className="p-4 text-sm overflow-x-auto">
-            <code className="text-red-800 dark:text-red-200">{oldCode}</code>
-          </pre>
+    <div className="rounded-lg border border-[var(--claude-border)] bg-[var(--claude-surface)] overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-[var(--claude-border)] bg-[var(--claude-surface-sunken)]">
+        <span className="text-xs font-mono text-[var(--claude-text-secondary)] truncate">
+          {file.fromPath ? `${file.fromPath} → ${file.path}` : file.path}
+        </span>
+        <div className="ml-auto flex items-center rounded-md border border-[var(--claude-border)] overflow-hidden">
+          <ModeButton active={mode === 'unified'} onClick={() => setMode('unified')} title="Unified">
+            <Rows2 className="w-3.5 h-3.5" />
+          </ModeButton>
+          <ModeButton active={mode === 'split'} onClick={() => setMode('split')} title="Side by side">
+            <Columns2 className="w-3.5 h-3.5" />
+          </ModeButton>
         </div>
+      </div>
 
-        {/* After */}
-        <div className="bg-green-50 dark:bg-green-950/20">
-          <div className="px-4 py-2 bg-green-100 dark:bg-green-900/30 border-b border-green-200 dark:border-green-800">
-            <span className="text-sm font-medium text-green-700 dark:text-green-300">After</span>
-          </div>
-          <pre className="p-4 text-sm overflow-x-auto">
-            <code className="text-green-800 dark:text-green-200">{newCode}</code>
-          </pre>
-        </div>
+      <div className="max-h-[32rem] overflow-auto">
+        <HighlightStyle.Provider value={dark ? oneDark : oneLight}>
+          <table className="w-full border-collapse font-mono text-xs leading-5">
+            <tbody>
+              {hunks.map((hunk, index) => (
+                <HunkRows key={`${mode}-${index}`} hunk={hunk} mode={mode} language={language} />
+              ))}
+            </tbody>
+          </table>
+        </HighlightStyle.Provider>
       </div>
     </div>
   );
 }
+
+function ModeButton({ active, onClick, title, children }: { active: boolean; onClick: () => void; title: string; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`px-1.5 py-1 transition-colors ${
+        active
+          ? 'bg-[var(--claude-sand-light)] text-[var(--claude-text)]'
+          : 'text-[var(--claude-text-muted)] hover:bg-[var(--claude-sand-light)]'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function HunkRows({ hunk, mode, language }: { hunk: DiffViewHunk; mode: DiffMode; language: string }) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const columns = mode === 'split' ? 4 : 3;
+
+  const segments = mode === 'split'
+    ? foldUnchanged<SplitRow>(toSplitRows(hunk.lines), row => row.left?.kind === 'context')
+    : foldUnchanged<DiffViewLine>(hunk.lines, line => line.kind === 'context');
+
+  return (
+    <>
+      {hunk.skippedBefore > 0 && (
+        <tr>
+          <td colSpan={columns} className="px-3 py-0.5 text-[var(--claude-text-muted)] bg-[var(--claude-surface-sunken)]">
+            ⋯ {hunk.skippedBefore} unchanged line{hunk.skippedBefore === 1 ? '' : 's'}
+          </td>
+        </tr>
+      )}
+      <tr>
+        <td colSpan={columns} className="px-3 py-0.5 text-[var(--claude-terracotta)] bg-[var(--claude-surface-sunken)]">
+          {hunk.header}
+        </td>
+      </tr>
+      {segments.map((segment, index) => {
+        if (segment.folded && !expanded.has(index)) {
+          return (
+            <tr key={index}>
+              <td colSpan={columns} className="p-0">
+                <button
+                  onClick={() => setExpanded(prev => new Set(prev).add(index))}
+                  className="w-full flex items-center gap-2 px-3 py-0.5 text-left text-[var(--claude-text-muted)] hover:bg-[var(--claude-sand-light)] transition-colors"
+                >
+                  <ChevronsUpDown className="w-3 h-3" />
+                  Show {segment.rows.length} unchanged lines
+                </button>
+              </td>
+            </tr>
+          );
+        }
+        return (
+          <React.Fragment key={index}>
+            {mode === 'split'
+              ? (segment.rows as SplitRow[]).map((row, rowIndex) => <SplitLine key={rowIndex} row={row} language={language} />)
+              : (segment.rows as DiffViewLine[]).map((line, rowIndex) => <UnifiedLine key={rowIndex} line={line} language={language} />)}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <td className="w-10 px-2 text-right align-top select-none text-[var(--claude-text-muted)]">
+      {value ?? ''}
+    </td>
+  );
+}
+
+function UnifiedLine({ line, language }: { line: DiffViewLine; language: string }) {
+  return (
+    <tr className={lineBackground[line.kind]}>
+      <LineNumber value={line.oldNumber} />
+      <LineNumber value={line.newNumber} />
+      <td className="pr-3 whitespace-pre align-top">
+        <LineContent line={line} language={language} />
+      </td>
+    </tr>
+  );
+}
+
+function SplitLine({ row, language }: { row: SplitRow; language: string }) {
+  const side = (line: DiffViewLine | undefined, number: number | undefined) => (
+    <>
+      <LineNumber value={number} />
+      <td className={`w-1/2 pr-3 whitespace-pre align-top ${line ? lineBackground[line.kind] : 'bg-[var(--claude-surface-sunken)]'}`}>
+        {line && <LineContent line={line} language={language} />}
+      </td>
+    </>
+  );
+  return (
+    <tr>
+      {side(row.left, row.left?.oldNumber)}
+      {side(row.right, row.right?.newNumber)}
+    </tr>
+  );
+}
+
+function LineContent({ line, language }: { line: DiffViewLine; language: string }) {
+  const marker = line.kind === 'add' ? '+' : line.kind === 'delete' ? '-' : ' ';
+  const style = useContext(HighlightStyle);
+  return (
+    <>
+      <span className="select-none text-[var(--claude-text-muted)]">{marker}</span>
+      <SyntaxHighlighter
+        language={language}
+        style={style}
+        PreTag="span"
+        CodeTag="span"
+        codeTagProps={{}}
+        customStyle={{ background: 'transparent', padding: 0, margin: 0, fontSize: 'inherit', fontFamily: 'inherit', lineHeight: 'inherit' }}
+        renderer={({ rows, stylesheet }) => renderTokens(rows as TokenNode[], stylesheet, line)}
+      >
+        {line.text || ' '}
+      </SyntaxHighlighter>
+      {line.noNewline && (
+        <span className="ml-2 select-none text-[var(--claude-text-muted)]" title="No newline at end of file">⊘</span>
+      )}
+    </>
+  );
+}
+
+// Syntax-coloured tokens, split wherever a changed range starts or ends so those parts can be marked
+function renderTokens(rows: TokenNode[], stylesheet: Record<string, React.CSSProperties>, line: DiffViewLine): React.ReactNode {
+  const leaves: Array<{ text: string; style: React.CSSProperties }> = [];
+  const walk = (node: TokenNode, classNames: string[]) => {
+    if (node.type === 'text') {
+      const style = classNames.reduce<React.CSSProperties>((merged, name) => ({ ...merged, ...stylesheet[name] }), {});
+      leaves.push({ text: String(node.value ?? ''), style });
+      return;
+    }
+    for (const child of node.children ?? []) walk(child, [...classNames, ...(node.properties?.className ?? [])]);
+  };
+  rows.forEach(row => walk(row, []));
+
+  const changes = line.changes ?? [];
+  const pieces: React.ReactNode[] = [];
+  let offset = 0;
+  for (const leaf of leaves) {
+    let start = 0;
+    while (start < leaf.text.length) {
+      const at = offset + start;
+      const inside = changes.find(([from, to]) => at >= from && at < to);
+      const next = inside
+        ? inside[1]
+        : Math.min(...changes.map(([from]) => from).filter(from => from > at), Infinity);
+      const end = Math.min(leaf.text.length, next - offset);
+      pieces.push(
+        <span key={pieces.length} style={leaf.style} className={inside ? changeBackground[line.kind] : undefined}>
+          {leaf.text.slice(start, end)}
+        </span>
+      );
+      start = end;
+    }
+    offset += leaf.text.length;
+  }
+  return pieces;
+}
@@ -2,10 +2,12 @@
 
 import React from 'react';
 import { DollarSign, TrendingDown } from 'lucide-react';
+import { ModelType, MODEL_DISPLAY_NAMES } from '@/types';
 
 interface CostTrackerProps {
   cost: number;
   savedPercent?: number;
+  costByModel?: Partial<Record<ModelType, number>>;
   sessionTotal?: number;
   compact?: boolean;
 }
@@ -13,6 +15,7 @@ interface CostTrackerProps {
 export default function CostTracker({
   cost,
   savedPercent = 0,
+  costByModel,
   sessionTotal,
   compact = false,
 }: CostTrackerProps) {
@@ -21,10 +24,19 @@ export default function CostTracker({
     return `$${value.toFixed(2)}`;
   };
 
+  // Only worth showing when routing actually used more than one model
+  const modelCosts = Object.entries(costByModel || {}) as Array<[ModelType, number]>;
+  const breakdown = modelCosts.length > 1
+    ? modelCosts.map(([model, value]) => `${MODEL_DISPLAY_NAMES[model]?.name || model} ${formatCost(value)}`)
+    : [];
+
   if (compact) {
     return (
       <div className="inline-flex items-center gap-2 text-xs text-[var(--claude-text-muted)]">
         <span>{formatCost(cost)}</span>
+        {breakdown.length > 0 && (
+          <span>({breakdown.join(' · ')})</span>
+        )}
         {savedPercent > 0 && (
           <span className="text-[var(--claude-success)]">
             saved {savedPercent}%
@@ -43,7 +55,9 @@ export default function CostTracker({
           <p className="text-sm font-medium text-[var(--claude-text)]">
             {formatCost(cost)}
           </p>
-          <p className="text-xs text-[var(--claude-text-muted)]">this message</p>
+          <p className="text-xs text-[var(--claude-text-muted)]">
+            {breakdown.length > 0 ? breakdown.join(' · ') : 'this message'}
+          </p>
         </div>
       </div>
 
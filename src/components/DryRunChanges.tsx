@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FlaskConical, Check, Copy, Terminal } from 'lucide-react';
+import { DryRunChangeset } from '@/types';
+
+interface DryRunChangesProps {
+  changeset: DryRunChangeset;
+  onApply?: (changeset: DryRunChangeset) => Promise<void>;
+}
+
+export default function DryRunChanges({ changeset, onApply }: DryRunChangesProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyError, setApplyError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const additions = changeset.files.reduce((sum, file) => sum + (file.additions || 0), 0);
+  const deletions = changeset.files.reduce((sum, file) => sum + (file.deletions || 0), 0);
+
+  const handleApply = async () => {
+    if (!onApply) return;
+    setIsApplying(true);
+    setApplyError('');
+    try {
+      await onApply(changeset);
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : 'Apply failed');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(changeset.patch);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const lineClass = (line: string) => {
+    if (line.startsWith('+++') || line.startsWith('---')) return 'text-[var(--claude-text-muted)]';
+    if (line.startsWith('@@')) return 'text-[var(--claude-terracotta)]';
+    if (line.startsWith('+')) return 'bg-green-50 dark:bg-green-950/20 text-green-800 dark:text-green-200';
+    if (line.startsWith('-')) return 'bg-red-50 dark:bg-red-950/20 text-red-800 dark:text-red-200';
+    return '';
+  };
+
+  if (changeset.files.length === 0 && changeset.commands.length === 0) return null;
+
+  return (
+    <div className="my-3 rounded-xl border border-[var(--claude-border)] bg-[var(--claude-surface-sunken)] overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-[var(--claude-sand-light)] transition-colors"
+      >
+        <FlaskConical className="w-4 h-4 text-[var(--claude-terracotta)]" />
+        <span className="text-sm font-medium text-[var(--claude-text-secondary)]">
+          Dry run: {changeset.files.length} file{changeset.files.length === 1 ? '' : 's'}
+        </span>
+        <span className="text-xs font-mono">
+          <span className="text-[var(--claude-success)]">+{additions}</span>{' '}
+          <span className="text-[var(--claude-error)]">-{deletions}</span>
+        </span>
+        {changeset.appliedAt && (
+          <span className="flex items-center gap-1 text-xs text-[var(--claude-success)]">
+            <Check className="w-3 h-3" /> Applied
+          </span>
+        )}
+        <div className="ml-auto">
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-[var(--claude-text-muted)]" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-[var(--claude-text-muted)]" />
+          )}
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-[var(--claude-border)]">
+          {changeset.patch && (
+            <pre className="max-h-96 overflow-auto p-3 text-xs font-mono">
+              {changeset.patch.replace(/\n$/, '').split('\n').map((line, index) => (
+                <div key={index} className={lineClass(line)}>{line || ' '}</div>
+              ))}
+            </pre>
+          )}
+
+          {changeset.commands.length > 0 && (
+            <div className="px-4 py-3 border-t border-[var(--claude-border)]">
+              <p className="flex items-center gap-2 text-xs font-medium text-[var(--claude-text-muted)] uppercase tracking-wide mb-1">
+                <Terminal className="w-3 h-3" /> Commands not run
+              </p>
+              <ul className="space-y-0.5">
+                {changeset.commands.map((command, index) => (
+                  <li key={index} className="font-mono text-xs text-[var(--claude-text-secondary)]">$ {command}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 px-4 py-3 border-t border-[var(--claude-border)]">
+            {onApply && !changeset.appliedAt && changeset.files.length > 0 && (
+              <button
+                onClick={handleApply}
+                disabled={isApplying}
+                className="px-3 py-1.5 rounded-lg bg-[var(--claude-terracotta)] text-white text-sm hover:opacity-90 disabled:opacity-50"
+              >
+                {isApplying ? 'Applying...' : 'Apply changes'}
+              </button>
+            )}
+            {changeset.patch && (
+              <button
+                onClick={handleCopy}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-[var(--claude-border)] text-sm text-[var(--claude-text-secondary)] hover:bg-[var(--claude-sand-light)]"
+              >
+                {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                {copied ? 'Copied' : 'Copy patch'}
+              </button>
+            )}
+          </div>
+          {applyError && (
+            <p className="px-4 pb-3 text-xs text-[var(--claude-error)] whitespace-pre-line">{applyError}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, ListChecks, CheckCircle2, Circle, Loader2, MinusCircle, Plus, Trash2, Play } from 'lucide-react';
+import { PlanStep, PlanStepStatus, TaskPlan } from '@/types';
+
+interface PlanChecklistProps {
+  plan: TaskPlan;
+  isStreaming?: boolean;
+  onChange?: (plan: TaskPlan) => void;
+  onRun?: (plan: TaskPlan) => void;
+}
+
+function StatusIcon({ status }: { status: PlanStepStatus }) {
+  switch (status) {
+    case 'done':
+      return <CheckCircle2 className="w-4 h-4 text-[var(--claude-success)]" />;
+    case 'in_progress':
+      return <Loader2 className="w-4 h-4 text-[var(--claude-terracotta)] animate-spin" />;
+    case 'skipped':
+      return <MinusCircle className="w-4 h-4 text-[var(--claude-text-muted)]" />;
+    default:
+      return <Circle className="w-4 h-4 text-[var(--claude-text-muted)]" />;
+  }
+}
+
+export default function PlanChecklist({ plan, isStreaming, onChange, onRun }: PlanChecklistProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const editable = !isStreaming && !!onChange;
+
+  const completed = plan.steps.filter(step => step.status === 'done' || step.status === 'skipped').length;
+  const remaining = plan.steps.length - completed;
+
+  const updateSteps = (steps: PlanStep[]) => {
+    // Keep step numbers sequential so the model can reference them
+    onChange?.({ ...plan, steps: steps.map((step, index) => ({ ...step, id: index + 1 })) });
+  };
+
+  const updateStep = (id: number, changes: Partial<PlanStep>) => {
+    updateSteps(plan.steps.map(step => step.id === id ? { ...step, ...changes } : step));
+  };
+
+  return (
+    <div className="my-3 rounded-xl border border-[var(--claude-border)] bg-[var(--claude-surface-sunken)] overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-[var(--claude-sand-light)] transition-colors"
+      >
+        <ListChecks className="w-4 h-4 text-[var(--claude-terracotta)]" />
+        <span className="text-sm font-medium text-[var(--claude-text-secondary)]">
+          Plan ({completed}/{plan.steps.length} steps)
+        </span>
+        <div className="ml-auto">
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-[var(--claude-text-muted)]" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-[var(--claude-text-muted)]" />
+          )}
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 pt-2 border-t border-[var(--claude-border)] space-y-2 text-sm text-[var(--claude-text-secondary)]">
+          {plan.goal && <p className="leading-relaxed">{plan.goal}</p>}
+
+          <ol className="space-y-1">
+            {plan.steps.map(step => (
+              <li key={step.id} className="group flex items-start gap-2">
+                <button
+                  onClick={() => updateStep(step.id, { status: step.status === 'done' ? 'pending' : 'done' })}
+                  disabled={!editable}
+                  className="mt-0.5 flex-shrink-0"
+                  title={editable ? 'Toggle done' : undefined}
+                >
+                  <StatusIcon status={step.status} />
+                </button>
+                <div className="flex-1 min-w-0">
+                  {editable ? (
+                    <input
+                      value={step.title}
+                      onChange={(e) => updateStep(step.id, { title: e.target.value })}
+                      className={`w-full bg-transparent focus:outline-none focus:border-b focus:border-[var(--claude-terracotta)] ${
+                        step.status === 'done' || step.status === 'skipped' ? 'line-through text-[var(--claude-text-muted)]' : ''
+                      }`}
+                    />
+                  ) : (
+                    <span className={step.status === 'done' || step.status === 'skipped' ? 'line-through text-[var(--claude-text-muted)]' : ''}>
+                      {step.id}. {step.title}
+                    </span>
+                  )}
+                  {step.files.length > 0 && (
+                    <p className="font-mono text-xs text-[var(--claude-text-muted)] truncate">{step.files.join(', ')}</p>
+                  )}
+                  {step.note && <p className="text-xs text-[var(--claude-text-muted)] italic">{step.note}</p>}
+                </div>
+                {editable && (
+                  <button
+                    onClick={() => updateSteps(plan.steps.filter(s => s.id !== step.id))}
+                    className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-[var(--claude-sand-light)] transition-opacity"
+                    title="Remove step"
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-[var(--claude-text-muted)]" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {plan.verification.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-[var(--claude-text-muted)] uppercase tracking-wide mb-1">
+                Verification
+              </p>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {plan.verification.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {editable && (
+            <div className="flex items-center justify-between pt-1">
+              <button
+                onClick={() => updateSteps([...plan.steps, { id: plan.steps.length + 1, title: 'New step', files: [], status: 'pending' }])}
+                className="flex items-center gap-1.5 text-xs text-[var(--claude-text-secondary)] hover:text-[var(--claude-terracotta)] transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add step
+              </button>
+              {onRun && remaining > 0 && (
+                <button
+                  onClick={() => onRun(plan)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-[var(--claude-terracotta)] text-white hover:opacity-90 transition-opacity"
+                >
+                  <Play className="w-3.5 h-3.5" />
+                  Run remaining steps
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 'use client';
 
-import React from 'react';
-import { ExternalLink, Trash2, Check, X, GitBranch, FileCode, Plus, Minus, Eye } from 'lucide-react';
+import React, { useState } from 'react';
+import { ExternalLink, Trash2, Check, X, GitBranch, FileCode, Plus, Minus, Eye, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
 import { PostEditState, FileChange } from '@/types';
+import CodeDiff from './CodeDiff';
 
 interface PostEditActionsProps {
   state: PostEditState;
@@ -10,6 +11,7 @@ interface PostEditActionsProps {
   onDiscard?: () => void;
   onConfirm?: () => void;
   onCancel?: () => void;
+  onRevert?: () => Promise<void>; // Restore every file to its state before the run
 }
 
 export default function PostEditActions({
@@ -18,8 +20,24 @@ export default function PostEditActions({
   onDiscard,
   onConfirm,
   onCancel,
+  onRevert,
 }: PostEditActionsProps) {
   const { mode, branch, filesChanged, totalAdditions, totalDeletions, prUrl, previewUrl, status } = state;
+  const [isReverting, setIsReverting] = useState(false);
+  const [revertError, setRevertError] = useState('');
+
+  const handleRevert = async () => {
+    if (!onRevert) return;
+    setIsReverting(true);
+    setRevertError('');
+    try {
+      await onRevert();
+    } catch (error) {
+      setRevertError(error instanceof Error ? error.message : 'Revert failed');
+    } finally {
+      setIsReverting(false);
+    }
+  };
 
   const handleViewPR = () => {
     if (onViewPR) {
@@ -40,7 +58,7 @@ export default function PostEditActions({
             </div>
             <div>
               <p className="font-medium text-[var(--claude-text)]">
-                {status === 'pushed' ? 'Changes pushed to branch' : 'Ready to push'}
+                {status === 'reverted' ? 'Changes reverted' : status === 'pushed' ? 'Changes pushed to branch' : 'Ready to push'}
               </p>
               {branch && (
                 <p className="text-sm text-[var(--claude-text-secondary)]">
@@ -135,6 +153,17 @@ export default function PostEditActions({
               <Trash2 className="w-4 h-4" />
               Discard
             </button>
+            {onRevert && status !== 'reverted' && (
+              <button
+                onClick={handleRevert}
+                disabled={isReverting}
+                className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl border border-[var(--claude-border)] text-[var(--claude-text-secondary)] hover:bg-[var(--claude-surface-sunken)] disabled:opacity-50 transition-colors"
+                title="Restore the files this run changed, unless they were edited again since"
+              >
+                <RotateCcw className="w-4 h-4" />
+                {isReverting ? 'Reverting...' : 'Revert'}
+              </button>
+            )}
           </>
         ) : (
           <>
@@ -155,31 +184,56 @@ export default function PostEditActions({
           </>
         )}
       </div>
+      {revertError && (
+        <p className="mt-3 text-xs text-[var(--claude-error)] whitespace-pre-line">{revertError}</p>
+      )}
     </div>
   );
 }
 
 function FileChangeItem({ file }: { file: FileChange }) {
+  const [showDiff, setShowDiff] = useState(false);
+
   return (
-    <div className="flex items-center gap-2 text-sm font-mono">
-      <span className={`
-        px-1.5 py-0.5 rounded text-xs font-medium
-        ${file.action === 'create' ? 'bg-[var(--claude-success)]/10 text-[var(--claude-success)]' : ''}
-        ${file.action === 'edit' ? 'bg-[var(--claude-warning)]/10 text-[var(--claude-warning)]' : ''}
-        ${file.action === 'delete' ? 'bg-[var(--claude-error)]/10 text-[var(--claude-error)]' : ''}
-      `}>
-        {file.action === 'create' ? 'A' : file.action === 'edit' ? 'M' : 'D'}
-      </span>
-      <span className="text-[var(--claude-text-secondary)] truncate">{file.path}</span>
-      {(file.additions || file.deletions) && (
-        <span className="ml-auto flex items-center gap-2 text-xs">
-          {file.additions && (
-            <span className="text-[var(--claude-success)]">+{file.additions}</span>
-          )}
-          {file.deletions && (
-            <span className="text-[var(--claude-error)]">-{file.deletions}</span>
-          )}
+    <div>
+      <button
+        onClick={() => file.diff && setShowDiff(!showDiff)}
+        disabled={!file.diff}
+        className="w-full flex items-center gap-2 text-sm font-mono text-left disabled:cursor-default"
+        title={file.diff ? (showDiff ? 'Hide diff' : 'Show diff') : undefined}
+      >
+        {file.diff ? (
+          showDiff ? (
+            <ChevronDown className="w-3.5 h-3.5 flex-shrink-0 text-[var(--claude-text-muted)]" />
+          ) : (
+            <ChevronRight className="w-3.5 h-3.5 flex-shrink-0 text-[var(--claude-text-muted)]" />
+          )
+        ) : (
+          <span className="w-3.5 flex-shrink-0" />
+        )}
+        <span className={`
+          px-1.5 py-0.5 rounded text-xs font-medium
+          ${file.action === 'create' ? 'bg-[var(--claude-success)]/10 text-[var(--claude-success)]' : ''}
+          ${file.action === 'edit' ? 'bg-[var(--claude-warning)]/10 text-[var(--claude-warning)]' : ''}
+          ${file.action === 'delete' ? 'bg-[var(--claude-error)]/10 text-[var(--claude-error)]' : ''}
+          ${file.action === 'move' ? 'bg-[var(--claude-terracotta)]/10 text-[var(--claude-terracotta)]' : ''}
+        `}>
+          {file.action === 'create' ? 'A' : file.action === 'edit' ? 'M' : file.action === 'move' ? 'R' : 'D'}
         </span>
+        <span className="text-[var(--claude-text-secondary)] truncate">
+          {file.fromPath ? `${file.fromPath} → ${file.path}` : file.path}
+        </span>
+        {(file.additions !== undefined || file.deletions !== undefined) && (
+          <span className="ml-auto flex items-center gap-2 text-xs">
+            <span className="text-[var(--claude-success)]">+{file.additions ?? 0}</span>
+            <span className="text-[var(--claude-error)]">-{file.deletions ?? 0}</span>
+          </span>
+        )}
+      </button>
+      {showDiff && file.diff && (
+        <div className="mt-1.5 mb-2">
+          <CodeDiff file={file} />
+        </div>
       )}
     </div>
   );
@@ -2,7 +2,7 @@
 
 import React, { useState } from 'react';
 import { X, Shield, Zap, Globe, Brain, Gauge, DollarSign, Moon, Sun, Terminal, Database, FileUp, Key, Eye, EyeOff, Check, LogOut, Github, Cpu, HardDrive, Cloud, Download, Upload } from 'lucide-react';
-import { Settings, ModelType, EffortLevel, WebSearchMode, ToolExecutionMode, MODEL_DISPLAY_NAMES } from '@/types';
+import { Settings, ModelType, EffortLevel, WebSearchMode, ToolExecutionMode, ApprovalMode, MODEL_DISPLAY_NAMES, DEFAULT_SETTINGS } from '@/types';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -46,6 +46,13 @@ export default function SettingsPanel({
     onSettingsChange({ ...settings, [key]: value });
   };
 
+  // Settings saved before the command policy existed have no commandPolicy
+  const commandPolicy = { ...DEFAULT_SETTINGS.commandPolicy, ...settings.commandPolicy };
+  const updateCommandPolicy = (changes: Partial<Settings['commandPolicy']>) => {
+    updateSetting('commandPolicy', { ...commandPolicy, ...changes });
+  };
+  const modelRouting = { ...DEFAULT_SETTINGS.modelRouting, ...settings.modelRouting };
+
   return (
     <div className="fixed inset-0 z-50 flex justify-end">
       {/* Overlay */}
@@ -75,7 +82,7 @@ export default function SettingsPanel({
             title="File Access Mode"
             description="Choose how Claude accesses your files"
           >
-            <div className="grid grid-cols-2 gap-3">
+            <div className="grid grid-cols-3 gap-3">
               <ModeButton
                 active={settings.fileAccessMode === 'local'}
                 onClick={() => updateSetting('fileAccessMode', 'local')}
@@ -90,8 +97,22 @@ export default function SettingsPanel({
                 description="Remote access"
                 color="warning"
               />
+              <ModeButton
+                active={settings.fileAccessMode === 'clone'}
+                onClick={() => updateSetting('fileAccessMode', 'clone')}
+                label="Clone"
+                description="Shallow clone, pushed back"
+                color="success"
+              />
             </div>
 
+            {settings.fileAccessMode === 'clone' && (
+              <p className="mt-3 text-xs text-[var(--claude-text-muted)]">
+                The selected branch is cloned on the server and kept for later runs (fetched each time).
+                Reads, grep and commands run on the clone; changes from each run are pushed to the branch when it ends.
+              </p>
+            )}
+
             {/* Workspace Path for Local Mode */}
             {settings.fileAccessMode === 'local' && (
               <div className="mt-4">
@@ -183,6 +204,44 @@ export default function SettingsPanel({
             </div>
           </SettingSection>
 
+          {/* Model Routing */}
+          <SettingSection
+            icon={<Cpu className="w-5 h-5" />}
+            title="Model Routing"
+            description="Pick the model per round instead of using one for the whole run"
+          >
+            <Toggle
+              checked={modelRouting.mode === 'auto'}
+              onChange={(checked) => updateSetting('modelRouting', { ...modelRouting, mode: checked ? 'auto' : 'off' })}
+              label="Route rounds automatically"
+            />
+            {modelRouting.mode === 'auto' && (
+              <div className="mt-4 space-y-3">
+                {([
+                  { key: 'exploreModel', label: 'Exploring', hint: 'Searching and listing files' },
+                  { key: 'editModel', label: 'Editing', hint: 'Reading code closely and changing it' },
+                  { key: 'recoveryModel', label: 'Recovering', hint: 'After failed tools or repeated actions' },
+                ] as Array<{ key: 'exploreModel' | 'editModel' | 'recoveryModel'; label: string; hint: string }>).map(({ key, label, hint }) => (
+                  <div key={key} className="flex items-center justify-between gap-3">
+                    <div>
+                      <p className="text-sm text-[var(--claude-text)]">{label}</p>
+                      <p className="text-xs text-[var(--claude-text-muted)]">{hint}</p>
+                    </div>
+                    <select
+                      value={modelRouting[key]}
+                      onChange={(e) => updateSetting('modelRouting', { ...modelRouting, [key]: e.target.value as ModelType })}
+                      className="px-2 py-1.5 rounded-lg bg-[var(--claude-surface-sunken)] border border-[var(--claude-border)] text-[var(--claude-text)] focus:outline-none focus:border-[var(--claude-terracotta)] text-sm"
+                    >
+                      {(Object.entries(MODEL_DISPLAY_NAMES) as [ModelType, typeof MODEL_DISPLAY_NAMES[ModelType]][]).map(([modelId, info]) => (
+                        <option key={modelId} value={modelId}>{info.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </SettingSection>
+
           {/* Effort Level */}
           <SettingSection
             icon={<Gauge className="w-5 h-5" />}
@@ -234,9 +293,148 @@ export default function SettingsPanel({
                 {settings.toolExecutionMode === 'hybrid' && 'Claude chooses best approach per task (recommended)'}
                 {settings.toolExecutionMode === 'programmatic' && 'Batch operations for maximum cost savings'}
               </p>
+              <div>
+                <label className="text-sm text-[var(--claude-text-secondary)]">
+                  Parallel read-only tools: {settings.maxParallelTools ?? 4}
+                </label>
+                <input
+                  type="range"
+                  min={1}
+                  max={8}
+                  step={1}
+                  value={settings.maxParallelTools ?? 4}
+                  onChange={(e) => updateSetting('maxParallelTools', parseInt(e.target.value))}
+                  className="w-full mt-2"
+                />
+                <p className="text-xs text-[var(--claude-text-muted)]">
+                  Reads and searches run concurrently; edits and commands always run one at a time
+                </p>
+              </div>
+              <div>
+                <label className="text-sm text-[var(--claude-text-secondary)]">
+                  Automatic code context: {(settings.autoContextTokens ?? 4000) > 0 ? `${settings.autoContextTokens ?? 4000} tokens` : 'off'}
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={12000}
+                  step={1000}
+                  value={settings.autoContextTokens ?? 4000}
+                  onChange={(e) => updateSetting('autoContextTokens', parseInt(e.target.value))}
+                  className="w-full mt-2"
+                />
+                <p className="text-xs text-[var(--claude-text-muted)]">
+                  The repository is indexed by symbol; the functions, classes and components most relevant to each message are sent along with it
+                </p>
+              </div>
+            </div>
+          </SettingSection>
+
+          {/* Approvals & Planning */}
+          <SettingSection
+            icon={<Shield className="w-5 h-5" />}
+            title="Approvals & Planning"
+            description="Review plans and tool calls before they run"
+          >
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                {([
+                  { mode: 'auto', label: 'Auto' },
+                  { mode: 'approve-writes', label: 'Writes' },
+                  { mode: 'approve-all', label: 'All' },
+                ] as Array<{ mode: ApprovalMode; label: string }>).map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => updateSetting('approvalMode', mode)}
+                    className={`px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+                      (settings.approvalMode ?? 'auto') === mode
+                        ? 'bg-[var(--claude-terracotta)] text-white'
+                        : 'bg-[var(--claude-surface-sunken)] text-[var(--claude-text-secondary)] hover:bg-[var(--claude-sand-light)]'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-[var(--claude-text-muted)]">
+                {(settings.approvalMode ?? 'auto') === 'auto' && 'Tool calls run without asking'}
+                {settings.approvalMode === 'approve-writes' && 'Pause for approval before edits, new files and commands'}
+                {settings.approvalMode === 'approve-all' && 'Pause for approval before every tool call'}
+              </p>
+              <Toggle
+                checked={settings.planFirst ?? false}
+                onChange={(checked) => updateSetting('planFirst', checked)}
+                label="Plan before executing"
+              />
+              <p className="text-xs text-[var(--claude-text-muted)]">
+                Claude writes a numbered plan first and ticks steps off as it works
+              </p>
+              <Toggle
+                checked={settings.autoFixWhitespace ?? DEFAULT_SETTINGS.autoFixWhitespace}
+                onChange={(checked) => updateSetting('autoFixWhitespace', checked)}
+                label="Fix whitespace-only edit mismatches"
+              />
+              <p className="text-xs text-[var(--claude-text-muted)]">
+                Apply an edit when the text differs from the file only in indentation or spacing, and exactly one place matches
+              </p>
             </div>
           </SettingSection>
 
+          {/* Command Policy (local and clone modes - run_command is unavailable on GitHub) */}
+          {settings.fileAccessMode !== 'github' && (
+            <SettingSection
+              icon={<Terminal className="w-5 h-5" />}
+              title="Command Policy"
+              description="Limit what run_command may execute"
+            >
+              <div className="space-y-4">
+                <Toggle
+                  checked={commandPolicy.allowNetwork}
+                  onChange={(checked) => updateCommandPolicy({ allowNetwork: checked })}
+                  label="Allow network access"
+                />
+                {([
+                  { key: 'allow', label: 'Allow patterns', hint: 'One per line. Empty = allow anything not denied. Globs ("npm *") or /regex/' },
+                  { key: 'deny', label: 'Deny patterns', hint: 'Checked against every part of a chained command' },
+                  { key: 'forbiddenPaths', label: 'Forbidden paths', hint: 'Commands may not reference these paths' },
+                ] as Array<{ key: 'allow' | 'deny' | 'forbiddenPaths'; label: string; hint: string }>).map(({ key, label, hint }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-[var(--claude-text-secondary)] mb-2">
+                      {label}
+                    </label>
+                    <textarea
+                      value={commandPolicy[key].join('\n')}
+                      onChange={(e) => updateCommandPolicy({ [key]: e.target.value.split('\n') })}
+                      rows={3}
+                      className="w-full px-3 py-2 rounded-lg bg-[var(--claude-surface-sunken)] border border-[var(--claude-border)] text-[var(--claude-text)] focus:outline-none focus:border-[var(--claude-terracotta)] text-xs font-mono"
+                    />
+                    <p className="mt-1 text-xs text-[var(--claude-text-muted)]">{hint}</p>
+                  </div>
+                ))}
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    { key: 'wallClockMs', label: 'Timeout (s)', scale: 1000 },
+                    { key: 'cpuSeconds', label: 'CPU (s)', scale: 1 },
+                    { key: 'maxOutputBytes', label: 'Output (KB)', scale: 1024 },
+                  ] as Array<{ key: keyof Settings['commandPolicy']['limits']; label: string; scale: number }>).map(({ key, label, scale }) => (
+                    <div key={key}>
+                      <label className="block text-xs text-[var(--claude-text-muted)] mb-1">{label}</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={Math.round(commandPolicy.limits[key] / scale)}
+                        onChange={(e) => updateCommandPolicy({
+                          limits: { ...commandPolicy.limits, [key]: Math.max(1, parseInt(e.target.value) || 1) * scale },
+                        })}
+                        className="w-full px-2 py-1.5 rounded-lg bg-[var(--claude-surface-sunken)] border border-[var(--claude-border)] text-[var(--claude-text)] focus:outline-none focus:border-[var(--claude-terracotta)] text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </SettingSection>
+          )}
+
           {/* Web Search */}
           <SettingSection
             icon={<Globe className="w-5 h-5" />}
@@ -420,6 +618,27 @@ export default function SettingsPanel({
                     className="w-full mt-2"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm text-[var(--claude-text-secondary)] mb-2">
+                    When a round would exceed the budget
+                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <ModeButton
+                      active={(settings.tokenBudget.overBudget ?? 'downgrade') === 'downgrade'}
+                      onClick={() => updateSetting('tokenBudget', { ...settings.tokenBudget, overBudget: 'downgrade' })}
+                      label="Use Haiku"
+                      description="Downgrade the round"
+                      color="success"
+                    />
+                    <ModeButton
+                      active={settings.tokenBudget.overBudget === 'stop'}
+                      onClick={() => updateSetting('tokenBudget', { ...settings.tokenBudget, overBudget: 'stop' })}
+                      label="Stop"
+                      description="Refuse the round"
+                      color="warning"
+                    />
+                  </div>
+                </div>
               </div>
             )}
           </SettingSection>
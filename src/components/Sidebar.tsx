@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { Plus, Search, MessageSquare, ChevronLeft, ChevronRight, Check, GitBranch, FileCode } from 'lucide-react';
+import { Plus, Search, MessageSquare, ChevronLeft, ChevronRight, Check, GitBranch, FileCode, Flag } from 'lucide-react';
 import { Conversation, Session } from '@/types';
 
 interface SidebarProps {
@@ -11,6 +11,7 @@ interface SidebarProps {
   currentConversationId: string | null;
   onNewChat: () => void;
   onSelectConversation: (id: string) => void;
+  onSelectCheckpoint?: (conversationId: string, messageId: string) => void;
   totalCost: number;
 }
 
@@ -21,6 +22,7 @@ export default function Sidebar({
   currentConversationId,
   onNewChat,
   onSelectConversation,
+  onSelectCheckpoint,
   totalCost,
 }: SidebarProps) {
   const [searchQuery, setSearchQuery] = React.useState('');
@@ -146,6 +148,24 @@ export default function Sidebar({
                       </div>
                     );
                   })()}
+                  {/* Checkpoints that can be rewound to */}
+                  {conv.checkpoints && conv.checkpoints.length > 0 && (
+                    <div className="flex items-center gap-1 mt-1.5 flex-wrap">
+                      <Flag className="w-3 h-3 text-[var(--text-tertiary)]" />
+                      {conv.checkpoints.map((checkpoint) => (
+                        <span
+                          key={checkpoint.messageId}
+                          role="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onSelectCheckpoint ? onSelectCheckpoint(conv.id, checkpoint.messageId) : onSelectConversation(conv.id);
+                          }}
+                          title={`${checkpoint.commitSha ? checkpoint.commitSha.slice(0, 7) : 'Local snapshot'} · ${checkpoint.filesChanged} file${checkpoint.filesChanged === 1 ? '' : 's'} · ${formatDate(new Date(checkpoint.createdAt))}${checkpoint.unavailable ? ' · no longer stored' : ''}`}
+                          className={`w-2 h-2 rounded-full ${checkpoint.unavailable ? 'bg-[var(--text-tertiary)] opacity-40' : 'bg-[var(--accent)] opacity-60'} hover:opacity-100 transition-opacity`}
+                        />
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </button>
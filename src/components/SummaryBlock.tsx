@@ -0,0 +1,61 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Archive } from 'lucide-react';
+import { ConversationSummary } from '@/types';
+
+interface SummaryBlockProps {
+  summary: ConversationSummary;
+}
+
+export default function SummaryBlock({ summary }: SummaryBlockProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const sections: Array<{ title: string; items: string[] }> = [
+    { title: 'Files touched', items: summary.filesTouched },
+    { title: 'Decisions', items: summary.decisions },
+    { title: 'Open TODOs', items: summary.openTodos },
+    { title: 'User constraints', items: summary.constraints },
+  ];
+
+  return (
+    <div className="my-3 rounded-xl border border-[var(--claude-border)] bg-[var(--claude-surface-sunken)] overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-[var(--claude-sand-light)] transition-colors"
+      >
+        <Archive className="w-4 h-4 text-[var(--claude-terracotta)]" />
+        <span className="text-sm font-medium text-[var(--claude-text-secondary)]">
+          Earlier context summarized ({summary.summarizedCount} messages)
+        </span>
+        <div className="ml-auto">
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-[var(--claude-text-muted)]" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-[var(--claude-text-muted)]" />
+          )}
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 pt-2 border-t border-[var(--claude-border)] space-y-3 text-sm text-[var(--claude-text-secondary)]">
+          {summary.narrative && <p className="leading-relaxed">{summary.narrative}</p>}
+          {sections.filter(section => section.items.length > 0).map(section => (
+            <div key={section.title}>
+              <p className="text-xs font-medium text-[var(--claude-text-muted)] uppercase tracking-wide mb-1">
+                {section.title}
+              </p>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {section.items.map((item, index) => (
+                  <li key={index} className={section.title === 'Files touched' ? 'font-mono text-xs' : ''}>
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
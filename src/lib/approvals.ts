@@ -0,0 +1,132 @@
+// ============================================================================
+// APPROVALS - Pause the agentic loop until a human accepts, rejects or edits
+// a tool call. Resolved through POST /api/chat/approve.
+// ============================================================================
+
+import { randomUUID } from 'crypto';
+import { LiveRun } from '@/lib/runRegistry';
+import { MUTATING_TOOLS } from '@/lib/toolScheduler';
+import { ApprovalDecision, ApprovalMode, ApprovalRequest } from '@/types';
+
+type ToolCall = { id: string; name: string; input: Record<string, unknown> };
+
+const APPROVAL_TIMEOUT_MS = 30 * 60 * 1000; // Unanswered approvals are rejected after 30 minutes
+
+const PENDING_APPROVALS = new Map<string, {
+  request: ApprovalRequest;
+  ownerHash: string;
+  resolve: (decision: ApprovalDecision) => void;
+}>();
+
+export function requiresApproval(toolName: string, mode: ApprovalMode | undefined): boolean {
+  if (mode === 'approve-all') return true;
+  if (mode === 'approve-writes') return MUTATING_TOOLS.has(toolName);
+  return false;
+}
+
+export function buildApprovalPreview(toolCall: ToolCall): Pick<ApprovalRequest, 'kind' | 'preview'> {
+  const input = toolCall.input;
+
+  if (toolCall.name === 'str_replace') {
+    const removed = String(input.old_str ?? '').split('\n').map(line => `-${line}`);
+    const added = String(input.new_str ?? '').split('\n').map(line => `+${line}`);
+    return {
+      kind: 'diff',
+      preview: `--- a/${input.path}\n+++ b/${input.path}\n${[...removed, ...added].join('\n')}`,
+    };
+  }
+
+  if (toolCall.name === 'create_file') {
+    const added = String(input.content ?? '').split('\n').map(line => `+${line}`);
+    return {
+      kind: 'diff',
+      preview: `--- /dev/null\n+++ b/${input.path}\n${added.join('\n')}`,
+    };
+  }
+
+  if (toolCall.name === 'apply_patch') {
+    if (typeof input.patch === 'string') return { kind: 'diff', preview: input.patch };
+    const files = Array.isArray(input.files) ? input.files as Array<{ path?: string; edits?: Array<{ start_line?: number; end_line?: number; replacement?: string }> }> : [];
+    const preview = files.flatMap(file => (file.edits ?? []).map(edit =>
+      `--- ${file.path} lines ${edit.start_line}-${edit.end_line}\n${String(edit.replacement ?? '').split('\n').map(line => `+${line}`).join('\n')}`
+    ));
+    return { kind: 'diff', preview: preview.join('\n') };
+  }
+
+  if (toolCall.name === 'delete_file') {
+    return { kind: 'diff', preview: `--- a/${input.path}\n+++ /dev/null` };
+  }
+
+  if (toolCall.name === 'move_file') {
+    return { kind: 'diff', preview: `rename from ${input.from_path}\nrename to ${input.to_path}` };
+  }
+
+  if (toolCall.name === 'run_command') {
+    return { kind: 'command', preview: `$ ${input.command}` };
+  }
+
+  return { kind: 'tool', preview: JSON.stringify(input, null, 2) };
+}
+
+// ----------------------------------------------------------------------------
+// Emit an approval_required chunk and wait for the decision.
+// Cancelling the run or timing out counts as a rejection.
+// ----------------------------------------------------------------------------
+
+export async function requestApproval(run: LiveRun, toolCall: ToolCall): Promise<ApprovalDecision> {
+  const request: ApprovalRequest = {
+    id: randomUUID(),
+    runId: run.id,
+    toolCall,
+    ...buildApprovalPreview(toolCall),
+    createdAt: new Date().toISOString(),
+  };
+
+  const decision = await new Promise<ApprovalDecision>(resolve => {
+    let settled = false;
+    const settle = (result: ApprovalDecision) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      clearInterval(cancelWatch);
+      PENDING_APPROVALS.delete(request.id);
+      resolve(result);
+    };
+
+    const timeout = setTimeout(
+      () => settle({ action: 'reject', reason: 'No response from the user before the approval timed out' }),
+      APPROVAL_TIMEOUT_MS
+    );
+    const cancelWatch = setInterval(() => {
+      if (run.isCancelled()) settle({ action: 'reject', reason: 'Run was cancelled' });
+    }, 1000);
+
+    PENDING_APPROVALS.set(request.id, { request, ownerHash: run.snapshot.ownerHash, resolve: settle });
+    run.emit({
+      type: 'approval_required',
+      approval: request,
+      message: `Waiting for approval: ${toolCall.name}`,
+    });
+  });
+
+  run.emit({ type: 'approval_resolved', approvalId: request.id, decision: decision.action });
+  return decision;
+}
+
+export function resolveApproval(
+  approvalId: string,
+  ownerHash: string,
+  decision: ApprovalDecision
+): { success: boolean; error?: string } {
+  const pending = PENDING_APPROVALS.get(approvalId);
+  if (!pending || pending.ownerHash !== ownerHash) {
+    return { success: false, error: 'Approval not found or already resolved' };
+  }
+
+  pending.resolve(decision);
+  return { success: true };
+}
+
+export function formatRejection(toolName: string, reason?: string): string {
+  return `✗ The user rejected this ${toolName} call${reason ? `: ${reason}` : '.'}\nDo not retry the same action. Adjust your approach or ask the user how to proceed.`;
+}
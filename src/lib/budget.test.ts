@@ -0,0 +1,48 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { checkRoundBudget, estimateRequestTokensLocally, MemorySpendStore, projectRoundCost } from './budget';
+
+test('local estimate counts system, context, tools and messages', () => {
+  const base = estimateRequestTokensLocally([], 'x'.repeat(350), '');
+  assert.strictEqual(base, 100 + estimateRequestTokensLocally([], '', ''));
+  assert.ok(estimateRequestTokensLocally([{ role: 'user', content: 'hello world' }], 'x'.repeat(350), '') > base);
+});
+
+test('rounds proceed, downgrade to Haiku, or are refused', () => {
+  const params = {
+    model: 'claude-opus-4-5-20251101' as const,
+    inputTokens: 20000,
+    effort: 'low' as const,
+    spentThisMessage: 0,
+    spentToday: 0,
+    perMessage: 1,
+    allowDowngrade: true,
+  };
+
+  assert.strictEqual(checkRoundBudget(params).action, 'proceed');
+
+  // Opus projects ~$0.41; Haiku ~$0.03
+  const tight = checkRoundBudget({ ...params, spentThisMessage: 0.8 });
+  assert.strictEqual(tight.action, 'downgrade');
+  assert.strictEqual(tight.model, 'claude-haiku-4-5-20251001');
+
+  const noDowngrade = checkRoundBudget({ ...params, spentThisMessage: 0.8, allowDowngrade: false });
+  assert.strictEqual(noDowngrade.action, 'refuse');
+
+  const daily = checkRoundBudget({ ...params, spentToday: 9.99, perDay: 10 });
+  assert.strictEqual(daily.action, 'refuse');
+  assert.match(daily.reason || '', /daily/);
+});
+
+test('projection uses model pricing', () => {
+  assert.ok(projectRoundCost('claude-opus-4-5-20251101', 1000) > projectRoundCost('claude-haiku-4-5-20251001', 1000));
+});
+
+test('memory spend store accumulates per key and day', async () => {
+  const store = new MemorySpendStore();
+  await store.addSpend('a', 0.5, '2026-01-01');
+  assert.strictEqual(await store.addSpend('a', 0.25, '2026-01-01'), 0.75);
+  assert.strictEqual(await store.getDailySpend('b', '2026-01-01'), 0);
+  await store.addSpend('a', 0.1, '2026-01-02');
+  assert.strictEqual(await store.getDailySpend('a', '2026-01-01'), 0);
+});
@@ -0,0 +1,213 @@
+// ============================================================================
+// BUDGET - Pre-flight cost projection and daily spend per API key
+// Each round is checked before it is sent, so the limit is never overshot by
+// a whole round; over-budget rounds are downgraded to Haiku or refused
+// ============================================================================
+
+import path from 'path';
+import type { ClaudeClient } from './claude';
+import { ClaudeTool, EffortLevel, ModelType, MODEL_PRICING } from '../types';
+
+export const BUDGET_FALLBACK_MODEL: ModelType = 'claude-haiku-4-5-20251001';
+
+// Typical output per round, used for the projection (the real maximum is rarely reached)
+const EXPECTED_OUTPUT_TOKENS: Record<EffortLevel, number> = {
+  low: 1500,
+  medium: 3000,
+  high: 6000,
+};
+
+const CHARS_PER_TOKEN = 3.5; // Code and JSON tokenize denser than prose
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// ----------------------------------------------------------------------------
+// Token estimation
+// ----------------------------------------------------------------------------
+
+type EstimateMessage = { role: 'user' | 'assistant'; content: string | unknown[] };
+
+export function estimateTokensLocally(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateRequestTokensLocally(
+  messages: EstimateMessage[],
+  systemPrompt: string,
+  codeContext: string,
+  tools: ClaudeTool[] = []
+): number {
+  let tokens = estimateTokensLocally(systemPrompt) + estimateTokensLocally(codeContext);
+  tokens += estimateTokensLocally(JSON.stringify(tools));
+  for (const message of messages) {
+    const text = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+    tokens += estimateTokensLocally(text) + MESSAGE_OVERHEAD_TOKENS;
+  }
+  return tokens;
+}
+
+// Ask the count-tokens endpoint; fall back to the local approximation if it fails
+export async function estimateInputTokens(
+  claude: ClaudeClient,
+  messages: EstimateMessage[],
+  systemPrompt: string,
+  codeContext: string,
+  tools: ClaudeTool[] = []
+): Promise<{ tokens: number; source: 'api' | 'local' }> {
+  try {
+    const tokens = await claude.countTokens(messages as Parameters<ClaudeClient['countTokens']>[0], systemPrompt, codeContext, tools);
+    return { tokens, source: 'api' };
+  } catch {
+    return { tokens: estimateRequestTokensLocally(messages, systemPrompt, codeContext, tools), source: 'local' };
+  }
+}
+
+// Conservative: input is priced as uncached, output at the typical round size
+export function projectRoundCost(model: ModelType, inputTokens: number, effort: EffortLevel = 'medium'): number {
+  const pricing = MODEL_PRICING[model];
+  const outputTokens = EXPECTED_OUTPUT_TOKENS[effort] ?? EXPECTED_OUTPUT_TOKENS.medium;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+// ----------------------------------------------------------------------------
+// Round decision
+// ----------------------------------------------------------------------------
+
+export interface BudgetDecision {
+  action: 'proceed' | 'downgrade' | 'refuse';
+  model: ModelType;
+  projectedCost: number;
+  reason?: string;
+}
+
+export function checkRoundBudget(params: {
+  model: ModelType;
+  inputTokens: number;
+  effort?: EffortLevel;
+  spentThisMessage: number;
+  spentToday: number;
+  perMessage: number;
+  perDay?: number; // Omit to skip the daily limit
+  allowDowngrade: boolean;
+}): BudgetDecision {
+  const { model, inputTokens, effort, spentThisMessage, spentToday, perMessage, perDay, allowDowngrade } = params;
+
+  const remaining = Math.min(
+    perMessage - spentThisMessage,
+    perDay === undefined ? Infinity : perDay - spentToday
+  );
+  const limitName = perDay !== undefined && perDay - spentToday < perMessage - spentThisMessage ? 'daily' : 'per-message';
+
+  const projectedCost = projectRoundCost(model, inputTokens, effort);
+  if (projectedCost <= remaining) {
+    return { action: 'proceed', model, projectedCost };
+  }
+
+  if (allowDowngrade && model !== BUDGET_FALLBACK_MODEL) {
+    const fallbackCost = projectRoundCost(BUDGET_FALLBACK_MODEL, inputTokens, effort);
+    if (fallbackCost <= remaining) {
+      return {
+        action: 'downgrade',
+        model: BUDGET_FALLBACK_MODEL,
+        projectedCost: fallbackCost,
+        reason: `Projected $${projectedCost.toFixed(3)} exceeds the remaining ${limitName} budget ($${Math.max(0, remaining).toFixed(3)})`,
+      };
+    }
+  }
+
+  return {
+    action: 'refuse',
+    model,
+    projectedCost,
+    reason: `Projected $${projectedCost.toFixed(3)} exceeds the remaining ${limitName} budget ($${Math.max(0, remaining).toFixed(3)})`,
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Daily spend stores - keyed by API key hash and UTC day
+// ----------------------------------------------------------------------------
+
+export interface SpendStore {
+  getDailySpend(ownerHash: string, day?: string): Promise<number>;
+  addSpend(ownerHash: string, amount: number, day?: string): Promise<number>;
+}
+
+export function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export class MemorySpendStore implements SpendStore {
+  private spend = new Map<string, number>();
+
+  async getDailySpend(ownerHash: string, day: string = currentDay()): Promise<number> {
+    return this.spend.get(`${ownerHash}:${day}`) ?? 0;
+  }
+
+  async addSpend(ownerHash: string, amount: number, day: string = currentDay()): Promise<number> {
+    // Drop earlier days so the map doesn't grow forever
+    for (const key of this.spend.keys()) {
+      if (!key.endsWith(`:${day}`)) this.spend.delete(key);
+    }
+    const total = (this.spend.get(`${ownerHash}:${day}`) ?? 0) + amount;
+    this.spend.set(`${ownerHash}:${day}`, total);
+    return total;
+  }
+}
+
+export class JsonFileSpendStore implements SpendStore {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  private filePath(day: string): string {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      throw new Error(`Invalid day: ${day}`);
+    }
+    return path.join(this.directory, `spend-${day}.json`);
+  }
+
+  private async read(day: string): Promise<Record<string, number>> {
+    const fs = await import('fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(day), 'utf-8')) as Record<string, number>;
+    } catch {
+      return {};
+    }
+  }
+
+  async getDailySpend(ownerHash: string, day: string = currentDay()): Promise<number> {
+    return (await this.read(day))[ownerHash] ?? 0;
+  }
+
+  async addSpend(ownerHash: string, amount: number, day: string = currentDay()): Promise<number> {
+    // Serialize read-modify-write so concurrent runs don't lose each other's spend
+    const next = this.writeQueue.then(async () => {
+      const fs = await import('fs/promises');
+      const data = await this.read(day);
+      data[ownerHash] = (data[ownerHash] ?? 0) + amount;
+      await fs.mkdir(this.directory, { recursive: true });
+      const target = this.filePath(day);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(data), 'utf-8');
+      await fs.rename(tmp, target);
+      return data[ownerHash];
+    });
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+let spendStore: SpendStore | null = null;
+
+// BUDGET_STORE=file persists spend under BUDGET_STORE_DIR (default .cache/budget); anything else keeps it in memory
+export function getSpendStore(): SpendStore {
+  if (!spendStore) {
+    spendStore = process.env.BUDGET_STORE === 'file'
+      ? new JsonFileSpendStore(process.env.BUDGET_STORE_DIR || path.join(process.cwd(), '.cache', 'budget'))
+      : new MemorySpendStore();
+  }
+  return spendStore;
+}
+
+export function setSpendStore(store: SpendStore): void {
+  spendStore = store;
+}
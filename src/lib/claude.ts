@@ -18,6 +18,7 @@ import {
   Citation,
   ToolExecutionMode,
 } from '../types';
+import { RankedChunk, formatRelevantCode } from './codeIndex';
 
 export const FORBIDDEN_BODY_KEYS = ['betas'] as const;
 
@@ -105,6 +106,33 @@ export class ClaudeClient {
     this.model = model;
   }
 
+  getModel(): ModelType {
+    return this.model;
+  }
+
+  // --------------------------------------------------------------------------
+  // Pre-flight token count (free endpoint) - used for budget checks before a call
+  // --------------------------------------------------------------------------
+
+  async countTokens(
+    messages: Array<{ role: 'user' | 'assistant'; content: string | Anthropic.ContentBlockParam[] }>,
+    systemPrompt: string,
+    codeContext: string,
+    tools?: ClaudeTool[]
+  ): Promise<number> {
+    const system = [systemPrompt, codeContext]
+      .filter(text => text && text.trim())
+      .map(text => ({ type: 'text' as const, text }));
+
+    const result = await this.client.messages.countTokens({
+      model: this.model,
+      system,
+      messages: messages as Anthropic.Messages.MessageParam[],
+      tools: tools && tools.length > 0 ? tools as Anthropic.Messages.Tool[] : undefined,
+    });
+    return result.input_tokens;
+  }
+
   // --------------------------------------------------------------------------
   // Cost Calculation - Enhanced with real savings tracking
   // --------------------------------------------------------------------------
@@ -593,6 +621,109 @@ TIP: Use grep_search first to find the line numbers you need, then read_file wit
           required: ['path', 'content'],
         },
       },
+      {
+        name: 'apply_patch',
+        description: `Apply many edits to one or more files in one call, all-or-nothing. Use instead of repeated str_replace calls.
+
+Either:
+- patch: a unified diff (--- a/path, +++ b/path, @@ hunks with 3 lines of context). Line numbers may be slightly off; context lines must match exactly. Supports new files (--- /dev/null) and deletions (+++ /dev/null).
+- files: line-range edits per file, using the line numbers and sha from read_file. All line numbers refer to the file as read; do not adjust them for earlier edits.
+
+If any hunk fails nothing is written, and the result shows the closest matching text.`,
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            patch: {
+              type: 'string',
+              description: 'A unified diff covering one or more files',
+            },
+            files: {
+              type: 'array',
+              description: 'Line-range edits, as an alternative to patch',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  sha: { type: 'string', description: 'The sha shown in the read_file header' },
+                  edits: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        start_line: { type: 'number' },
+                        end_line: { type: 'number', description: 'Inclusive; use start_line - 1 to insert before start_line' },
+                        replacement: { type: 'string', description: 'New text for the range; empty string deletes it' },
+                      },
+                      required: ['start_line', 'end_line', 'replacement'],
+                    },
+                  },
+                },
+                required: ['path', 'sha', 'edits'],
+              },
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'delete_file',
+        description: 'Delete a file from the repository',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The path of the file to delete',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'move_file',
+        description: 'Move or rename a file. Fails if the destination already exists. Imports of the file are NOT updated - fix them with str_replace afterwards.',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            from_path: {
+              type: 'string',
+              description: 'Current path of the file',
+            },
+            to_path: {
+              type: 'string',
+              description: 'New path of the file',
+            },
+          },
+          required: ['from_path', 'to_path'],
+        },
+      },
+      {
+        name: 'rename_symbol_across_files',
+        description: 'Rename an identifier (function, class, variable, type) in every file that uses it. Matches whole identifiers only, so getUser does not touch getUserName. Text-based: matches in comments and strings are renamed too and scopes are not resolved - use str_replace when a name is reused for unrelated things.',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            old_name: {
+              type: 'string',
+              description: 'The current identifier',
+            },
+            new_name: {
+              type: 'string',
+              description: 'The new identifier',
+            },
+            file_extensions: {
+              type: 'string',
+              description: 'Optional comma-separated list of file extensions to limit the rename to (e.g., "ts,tsx")',
+            },
+            paths: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional list of files to rename in. By default every file containing old_name is searched.',
+            },
+          },
+          required: ['old_name', 'new_name'],
+        },
+      },
       {
         name: 'search_files',
         description: 'Search for files by name. Returns file paths matching the query.',
@@ -609,13 +740,35 @@ TIP: Use grep_search first to find the line numbers you need, then read_file wit
       },
       {
         name: 'grep_search',
-        description: 'Search inside file contents. Returns matching lines with file paths and LINE NUMBERS. Use this to find where code is before using read_file.',
+        description: 'Search inside file contents on the current branch. Returns matching lines as path:LINE: text, with exact line numbers you can pass to read_file. Use this to find where code is before using read_file.',
         input_schema: {
           type: 'object' as const,
           properties: {
             query: {
               type: 'string',
-              description: 'The term to search for inside files',
+              description: 'The text to search for inside files (a regular expression when regex is true)',
+            },
+            regex: {
+              type: 'boolean',
+              description: 'Optional: treat query as a JavaScript regular expression, e.g. "use(State|Effect)\\(" (default false)',
+            },
+            case_sensitive: {
+              type: 'boolean',
+              description: 'Optional: default true',
+            },
+            include: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional globs a file must match, e.g. ["src/**/*.ts", "*.tsx"]. Globs without a slash match file names anywhere.',
+            },
+            exclude: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional globs to skip, e.g. ["**/*.test.ts"]',
+            },
+            context_lines: {
+              type: 'number',
+              description: 'Optional: lines to show before and after each match, shown as path-LINE- text (max 10)',
             },
             file_extensions: {
               type: 'string',
@@ -625,6 +778,87 @@ TIP: Use grep_search first to find the line numbers you need, then read_file wit
           required: ['query'],
         },
       },
+      {
+        name: 'find_definition',
+        description: 'Find where a TypeScript/JavaScript symbol is declared. Returns path:LINE:COLUMN locations. Prefer this over grep_search for names that are common words or used in many files.',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            symbol: {
+              type: 'string',
+              description: 'The identifier, e.g. "useAuth" or "CartItem"',
+            },
+            path: {
+              type: 'string',
+              description: 'Optional: a file that uses the symbol - resolves the name the way that file sees it (its imports)',
+            },
+            line: {
+              type: 'number',
+              description: 'Optional: the line in path where the symbol is used, when it occurs more than once',
+            },
+          },
+          required: ['symbol'],
+        },
+      },
+      {
+        name: 'find_references',
+        description: 'Find every use of a TypeScript/JavaScript symbol, skipping matches in comments, strings and unrelated same-named locals. Returns path:LINE:COLUMN locations; declarations are marked with their kind.',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            symbol: {
+              type: 'string',
+              description: 'The identifier to find uses of',
+            },
+            path: {
+              type: 'string',
+              description: 'Optional: a file that declares or uses the symbol, to pick the right one when several share the name',
+            },
+            line: {
+              type: 'number',
+              description: 'Optional: the line in path where the symbol occurs',
+            },
+          },
+          required: ['symbol'],
+        },
+      },
+      {
+        name: 'list_symbols',
+        description: 'List the declarations of a TypeScript/JavaScript file (functions, classes and their members, interfaces, types, enums, top-level variables) with line numbers. Cheaper than reading the whole file to find its structure.',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The file to outline',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'dependency_graph',
+        description: 'Show what a JavaScript/TypeScript file imports and which files import it, resolving tsconfig path aliases and index files. Use depth > 1 to see everything a change to the file can affect before editing it.',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The file to inspect',
+            },
+            direction: {
+              type: 'string',
+              enum: ['imports', 'dependents', 'both'],
+              description: 'Optional: imports (what it depends on), dependents (what depends on it) or both (default)',
+            },
+            depth: {
+              type: 'number',
+              description: 'Optional: how many levels to follow (default 1, max 5)',
+            },
+          },
+          required: ['path'],
+        },
+      },
       {
         name: 'verify_edit',
         description: 'After making an edit with str_replace, verify the change was applied correctly by checking if expected content exists in the file. ALWAYS use this after str_replace to confirm your edit worked.',
@@ -808,14 +1042,18 @@ export function getSystemPrompt(
   repo: string,
   branch: string,
   enableWebSearch: boolean = false,
-  isLocalMode: boolean = false
+  isLocalMode: boolean = false,
+  isCloneMode: boolean = false
 ): string {
-  const tools = ['read_file', 'search_files', 'grep_search', 'str_replace', 'create_file', 'verify_edit', 'run_command'];
+  const tools = ['read_file', 'search_files', 'grep_search', 'find_definition', 'find_references', 'list_symbols', 'dependency_graph', 'str_replace', 'apply_patch', 'create_file', 'delete_file', 'move_file', 'rename_symbol_across_files', 'verify_edit', 'run_command'];
   if (enableWebSearch) tools.push('web_search', 'web_fetch');
 
   const repoInfo = isLocalMode
     ? `## Local Filesystem Mode
 You have direct access to the local filesystem.`
+    : isCloneMode
+    ? `## Repository: ${owner}/${repo} (branch: ${branch}, local clone)
+The branch is cloned to disk: reads, grep_search and run_command work on the clone.`
     : `## Repository: ${owner}/${repo} (branch: ${branch})`;
 
   const editingInstructions = isLocalMode
@@ -827,7 +1065,12 @@ Use run_command with sed/bash for all edits:
     : `## Editing (GitHub Mode)
 1. str_replace - old_str must be UNIQUE and EXACT
 2. verify_edit - ALWAYS verify after str_replace
-3. create_file - for new files`;
+3. create_file - for new files
+4. apply_patch - several edits to a file (or to several files) in one call
+5. move_file / delete_file - then fix imports that pointed at the old path
+6. rename_symbol_across_files - one call instead of a str_replace per file${isCloneMode ? `
+
+Your changes are committed and pushed to ${branch} when the run ends - do not push yourself.` : ''}`;
 
   return `You are a coding assistant. Execute tasks directly.
 
@@ -840,7 +1083,7 @@ ${tools.join(', ')}
 
 1. **NO ANNOUNCEMENTS** - Never say "Let me...", "I will...", "I'm going to..."
 2. **JUST DO IT** - Use tools immediately. Don't explain what you're about to do.
-3. **EXPLORE FIRST** - Use grep_search to find code before reading entire files
+3. **EXPLORE FIRST** - Use grep_search, find_definition and find_references to find code before reading entire files
 4. **LINE RANGES** - Use read_file with start_line/end_line to save tokens
 5. **BRIEF STATUS ONLY** - You may say "Searching...", "Editing...", "Done ✓"
 
@@ -874,7 +1117,8 @@ const truncateFileContent = (content: string): string => {
 
 export function generateCodeContext(
   fileTree: string,
-  files: Array<{ path: string; content: string }>
+  files: Array<{ path: string; content: string }>,
+  relevantCode: RankedChunk[] = [] // Picked from the code index for the latest message
 ): string {
   let context = '';
   
@@ -887,8 +1131,14 @@ export function generateCodeContext(
     context += `## Repository Structure\n\`\`\`\n${compactTree}\n\`\`\`\n\n`;
   }
   
+  if (relevantCode.length > 0) {
+    context += `## Relevant Code (selected automatically - excerpts, use read_file for whole files)\n\n${formatRelevantCode(relevantCode)}\n\n`;
+  }
+
   if (files.length === 0) {
-    context += `## Files\n(No files loaded. Use grep_search or search_files to explore, then read_file to load specific files.)\n`;
+    context += relevantCode.length > 0
+      ? `## Files\n(No whole files loaded. Use grep_search or search_files to explore further, then read_file to load specific files.)\n`
+      : `## Files\n(No files loaded. Use grep_search or search_files to explore, then read_file to load specific files.)\n`;
   } else {
     context += `## Loaded Files\n\n`;
     for (const file of files) {
@@ -902,7 +1152,7 @@ export function generateCodeContext(
 }
 
 // ----------------------------------------------------------------------------
-// Extract Keywords - KEPT for backward compatibility but NOT USED for auto-loading
+// Extract Keywords - KEPT for backward compatibility; auto context uses the code index
 // ----------------------------------------------------------------------------
 
 const COMMON_WORDS = new Set([
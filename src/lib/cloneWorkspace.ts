@@ -0,0 +1,183 @@
+// ============================================================================
+// CLONE WORKSPACE - Shallow clones of GitHub branches served from disk
+// Clone mode reads, greps and runs commands on a managed checkout, then pushes
+// the run's commit back; a reused clone is fetched and reset to the remote head
+// ============================================================================
+
+import path from 'path';
+
+export interface CloneWorkspace {
+  owner: string;
+  repo: string;
+  branch: string;
+  path: string;
+  headSha: string; // Remote head the run started from
+  reused: boolean; // Fetched into an existing clone rather than cloned fresh
+}
+
+// A file as the run found it and as it is in the clone now; null where it does not exist
+export interface CloneFileChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface PushResult {
+  success: boolean;
+  sha?: string; // Unset when there was nothing to push
+  url?: string;
+  error?: string;
+}
+
+const GIT_TIMEOUT_MS = 120000;
+const COMMIT_AUTHOR = ['-c', 'user.name=Claude Coder', '-c', 'user.email=claude-coder@users.noreply.github.com'];
+// Commands run by the agent can write to .git - hooks and fsmonitor would otherwise run their
+// code from inside our git calls, with the auth header visible in GIT_CONFIG_PARAMETERS
+const SAFE_ARGS = ['-c', 'core.hooksPath=/dev/null', '-c', 'core.fsmonitor=false'];
+
+// Clones in use by a run - two runs must not edit one checkout
+const busyClones = new Set<string>();
+
+export function cloneCacheRoot(): string {
+  return process.env.CLONE_CACHE_DIR || path.join(process.cwd(), '.cache', 'clones');
+}
+
+// One directory per branch, so branches never share a working tree
+export function clonePath(owner: string, repo: string, branch: string): string {
+  const safe = (part: string) => part.replace(/[^A-Za-z0-9._-]/g, '_');
+  return path.join(cloneCacheRoot(), safe(owner), safe(repo), safe(branch));
+}
+
+// The token goes in a per-command header, never into the remote URL in .git/config
+function authArgs(token: string): string[] {
+  const basic = Buffer.from(`x-access-token:${token}`).toString('base64');
+  return ['-c', `http.extraHeader=Authorization: Basic ${basic}`];
+}
+
+async function git(args: string[], cwd: string, token?: string, trim = true): Promise<string> {
+  const { execFile } = await import('child_process');
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      [...SAFE_ARGS, ...(token ? authArgs(token) : []), ...args],
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024, env: { ...process.env, GIT_TERMINAL_PROMPT: '0' } },
+      (error, stdout, stderr) => {
+        if (error) {
+          // Never echo the auth header back
+          const detail = (stderr || error.message).replace(/Authorization: Basic \S+/g, 'Authorization: ***').trim();
+          reject(new Error(`git ${args[0]} failed: ${detail}`));
+        } else {
+          resolve(trim ? stdout.trim() : stdout);
+        }
+      }
+    );
+  });
+}
+
+// Replace .git/config with what a fresh clone has. Anything a run added - aliases, filter
+// drivers, includes, a redirected remote - is dropped before the token is used again.
+async function resetGitConfig(clone: Pick<CloneWorkspace, 'owner' | 'repo' | 'branch' | 'path'>): Promise<void> {
+  const fs = await import('fs/promises');
+  await fs.writeFile(path.join(clone.path, '.git', 'config'), [
+    '[core]',
+    '\trepositoryformatversion = 0',
+    '\tfilemode = true',
+    '\tbare = false',
+    '\tlogallrefupdates = true',
+    '[remote "origin"]',
+    `\turl = https://github.com/${clone.owner}/${clone.repo}.git`,
+    `\tfetch = +refs/heads/${clone.branch}:refs/remotes/origin/${clone.branch}`,
+    '',
+  ].join('\n'));
+}
+
+// Clone the branch at depth 1, or fetch into the existing clone and reset it to the remote
+// head. The cache mirrors the remote: leftovers of an earlier run are discarded.
+export async function prepareClone(token: string, owner: string, repo: string, branch: string): Promise<CloneWorkspace> {
+  const fs = await import('fs/promises');
+  const dir = clonePath(owner, repo, branch);
+  if (busyClones.has(dir)) {
+    throw new Error(`Another run is using the clone of ${owner}/${repo}@${branch} - wait for it to finish`);
+  }
+  busyClones.add(dir);
+
+  try {
+    const reused = await fs.access(path.join(dir, '.git')).then(() => true, () => false);
+    if (reused) {
+      await resetGitConfig({ owner, repo, branch, path: dir });
+      await git(['fetch', '--depth', '1', 'origin', branch], dir, token);
+      await git(['reset', '--hard', 'FETCH_HEAD'], dir);
+      await git(['clean', '-fdq'], dir);
+    } else {
+      await fs.rm(dir, { recursive: true, force: true });
+      await fs.mkdir(path.dirname(dir), { recursive: true });
+      await git(
+        ['clone', '--depth', '1', '--single-branch', '--branch', branch, `https://github.com/${owner}/${repo}.git`, dir],
+        path.dirname(dir),
+        token
+      );
+    }
+    const headSha = await git(['rev-parse', 'HEAD'], dir);
+    return { owner, repo, branch, path: dir, headSha, reused };
+  } catch (error) {
+    busyClones.delete(dir);
+    throw new Error(`Could not prepare a clone of ${owner}/${repo}@${branch}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export function releaseClone(clone: CloneWorkspace): void {
+  busyClones.delete(clone.path);
+}
+
+// Every file that differs from the head the run started from: tool edits, files written by
+// commands and the agent's own commits alike - exactly what a push would publish
+export async function cloneChanges(clone: CloneWorkspace): Promise<CloneFileChange[]> {
+  const fs = await import('fs/promises');
+  await git(['add', '-A'], clone.path);
+  const fields = (await git(['diff', '--cached', '--name-status', '--no-renames', '-z', clone.headSha], clone.path, undefined, false))
+    .split('\0')
+    .filter(Boolean);
+  const changes: CloneFileChange[] = [];
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const [status, filePath] = [fields[i], fields[i + 1]];
+    changes.push({
+      path: filePath,
+      before: status === 'A' ? null : await git(['show', `${clone.headSha}:${filePath}`], clone.path, undefined, false),
+      after: status === 'D' ? null : await fs.readFile(path.join(clone.path, filePath), 'utf-8'),
+    });
+  }
+  return changes;
+}
+
+// Commit whatever the run left uncommitted, then push every commit since the run started.
+// A rejected push (the branch moved) fetches the new head and rebases once before giving up.
+export async function pushClone(clone: CloneWorkspace, token: string, message: string): Promise<PushResult> {
+  try {
+    await resetGitConfig(clone);
+    await git(['add', '-A'], clone.path);
+    const dirty = await git(['status', '--porcelain'], clone.path);
+    if (dirty) {
+      await git([...COMMIT_AUTHOR, 'commit', '-q', '-m', message], clone.path);
+    }
+    let sha = await git(['rev-parse', 'HEAD'], clone.path);
+    if (sha === clone.headSha) {
+      return { success: true }; // Nothing changed
+    }
+
+    try {
+      await git(['push', 'origin', `HEAD:refs/heads/${clone.branch}`], clone.path, token);
+    } catch {
+      await git(['fetch', '--depth', '1', 'origin', clone.branch], clone.path, token);
+      await git([...COMMIT_AUTHOR, 'rebase', '--onto', 'FETCH_HEAD', clone.headSha], clone.path).catch(async (error) => {
+        await git(['rebase', '--abort'], clone.path).catch(() => undefined);
+        throw error;
+      });
+      await git(['push', 'origin', `HEAD:refs/heads/${clone.branch}`], clone.path, token);
+      sha = await git(['rev-parse', 'HEAD'], clone.path);
+    }
+
+    return { success: true, sha, url: `https://github.com/${clone.owner}/${clone.repo}/commit/${sha}` };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Push failed' };
+  }
+}
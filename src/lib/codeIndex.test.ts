@@ -0,0 +1,68 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { CodeIndex, chunkFile, tokenize } from './codeIndex';
+
+const AUTH = `import { useState } from 'react';
+
+// Current user, or null while signed out
+export function useAuth() {
+  const [user, setUser] = useState(null);
+  return { user, setUser };
+}
+
+export const LoginButton = ({ onLogin }: Props) => {
+  return <button onClick={onLogin}>Sign in</button>;
+};
+
+interface Props {
+  onLogin: () => void;
+}
+`;
+
+test('files are chunked at top-level declarations with their leading comments', () => {
+  const chunks = chunkFile('src/auth.tsx', AUTH);
+  assert.deepStrictEqual(
+    chunks.map(chunk => [chunk.kind, chunk.symbol, chunk.startLine, chunk.endLine]),
+    [
+      ['module', undefined, 1, 2],
+      ['function', 'useAuth', 3, 8],
+      ['component', 'LoginButton', 9, 12],
+      ['type', 'Props', 13, 16],
+    ]
+  );
+  assert.deepStrictEqual(tokenize('parseUnifiedDiff read_file'), ['parseunifieddiff', 'parse', 'unified', 'diff', 'read_file', 'read', 'file']);
+});
+
+test('a message picks the chunks it names within the token budget', () => {
+  const index = new CodeIndex();
+  index.updateFile('src/auth.tsx', AUTH, 'v1');
+  index.updateFile('src/cart.ts', 'export function addToCart(item: Item) {\n  cart.push(item);\n}\n', 'v1');
+
+  const picked = index.select('Why does useAuth lose the user after sign in?', { tokenBudget: 1000 });
+  assert.strictEqual(picked[0].symbol, 'useAuth');
+  assert.ok(!picked.some(chunk => chunk.path === 'src/cart.ts'));
+  assert.deepStrictEqual(index.select('useAuth', { tokenBudget: 5 }), []);
+});
+
+test('sync only reloads files whose version changed and updates remove stale chunks', async () => {
+  const index = new CodeIndex();
+  const loaded: string[] = [];
+  const files: Record<string, string> = { 'a.ts': 'export function alpha() {}\n', 'b.ts': 'export function beta() {}\n', 'logo.png': 'x' };
+  const load = async (entry: { path: string }) => {
+    loaded.push(entry.path);
+    return files[entry.path];
+  };
+
+  await index.sync([{ path: 'a.ts', version: '1' }, { path: 'b.ts', version: '1' }, { path: 'logo.png', version: '1' }], load);
+  assert.deepStrictEqual(loaded.sort(), ['a.ts', 'b.ts']);
+
+  files['b.ts'] = 'export function gamma() {}\n';
+  await index.sync([{ path: 'a.ts', version: '1' }, { path: 'b.ts', version: '2' }], load);
+  assert.deepStrictEqual(loaded.sort(), ['a.ts', 'b.ts', 'b.ts']);
+  assert.strictEqual(index.search('beta').length, 0);
+  assert.strictEqual(index.search('gamma')[0].path, 'b.ts');
+
+  index.updateFile('a.ts', null);
+  assert.strictEqual(index.fileCount, 1);
+  assert.strictEqual(index.search('alpha').length, 0);
+});
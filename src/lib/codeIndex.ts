@@ -0,0 +1,361 @@
+// ============================================================================
+// CODE INDEX - Symbol chunks ranked with BM25 for automatic context selection
+// Files are split at top-level declarations (functions, classes, components,
+// types); a message's identifiers and words pick the chunks worth sending
+// ============================================================================
+
+import { estimateTokensLocally } from './budget';
+
+export type ChunkKind = 'function' | 'class' | 'component' | 'type' | 'variable' | 'module' | 'block';
+
+export interface CodeChunk {
+  id: string; // path:startLine
+  path: string;
+  symbol?: string;
+  kind: ChunkKind;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  text: string;
+}
+
+export interface RankedChunk extends CodeChunk {
+  score: number;
+  tokens: number;
+}
+
+// A file as the workspace lists it; version changes whenever the content does
+// (blob SHA on GitHub, mtime and size on disk)
+export interface IndexEntry {
+  path: string;
+  version: string;
+  size?: number;
+}
+
+export interface SelectOptions {
+  tokenBudget: number;
+  maxChunksPerFile?: number;
+  exclude?: Set<string>; // Paths already in the context
+}
+
+const MAX_CHUNK_LINES = 150; // Longer declarations are split into parts
+const BLOCK_LINES = 80; // Files without declarations are cut into blocks this long
+const MAX_FILE_SIZE = 200000;
+const MAX_INDEXED_FILES = 2000;
+const LOAD_CONCURRENCY = 8;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SYMBOL_BOOST = 4; // Added per message identifier that names the chunk's symbol
+const PATH_BOOST = 0.5; // Added per message term found in the file path
+
+const INDEXED_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs|py|go|rs|rb|java|kt|swift|cs|php|c|cc|cpp|h|hpp|vue|svelte|css|scss|sql|graphql|md|mdx|json|ya?ml|toml|sh)$/i;
+const SKIPPED_PATHS = /(^|\/)(node_modules|\.git|\.next|dist|build|coverage|vendor|__pycache__)\/|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$|\.min\.(js|css)$/;
+
+// Language keywords and filler words that say nothing about which code is relevant
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'this', 'that', 'with', 'from', 'into', 'when', 'what', 'how', 'why',
+  'please', 'want', 'need', 'make', 'should', 'would', 'could', 'there', 'here', 'does', 'doesn', 'have', 'has', 'was', 'were', 'will',
+  'import', 'export', 'default', 'const', 'let', 'var', 'function', 'return', 'class', 'extends', 'implements', 'interface', 'type',
+  'new', 'if', 'else', 'for', 'while', 'async', 'await', 'true', 'false', 'null', 'undefined', 'void', 'string', 'number', 'boolean',
+  'def', 'self', 'none', 'func', 'fn', 'pub', 'struct', 'impl', 'public', 'private', 'protected', 'static', 'readonly',
+]);
+
+// Top-level declarations: optional export/pub/async prefixes, then keyword and name
+const DECLARATION = /^(?:export\s+(?:default\s+)?)?(?:pub(?:\([^)]*\))?\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const|let|var|def|func|fn|struct|trait|impl|namespace)\s+(?:\([^)]*\)\s*)?([A-Za-z_$][\w$]*)/;
+const LEADING_LINE = /^\s*(\/\/|\/\*|\*|#(?!include)|@)/; // Comments and decorators belong to the next declaration
+
+// ----------------------------------------------------------------------------
+// Chunking
+// ----------------------------------------------------------------------------
+
+function declarationKind(keyword: string, name: string, line: string, path: string): ChunkKind {
+  const jsx = /\.(tsx|jsx)$/.test(path);
+  const component = jsx && /^[A-Z]/.test(name);
+  switch (keyword) {
+    case 'class':
+    case 'struct':
+    case 'trait':
+    case 'impl':
+      return 'class';
+    case 'interface':
+    case 'type':
+    case 'enum':
+    case 'namespace':
+      return 'type';
+    case 'const':
+    case 'let':
+    case 'var': {
+      const isFunction = /=\s*(?:async\s*)?(?:\(|function\b|[A-Za-z_$][\w$]*\s*=>)|=\s*(?:React\.)?(?:memo|forwardRef)\(/.test(line);
+      return isFunction ? (component ? 'component' : 'function') : 'variable';
+    }
+    default:
+      return component ? 'component' : 'function';
+  }
+}
+
+function splitLong(chunk: CodeChunk, lines: string[]): CodeChunk[] {
+  const length = chunk.endLine - chunk.startLine + 1;
+  if (length <= MAX_CHUNK_LINES) return [chunk];
+  const parts: CodeChunk[] = [];
+  for (let start = chunk.startLine; start <= chunk.endLine; start += MAX_CHUNK_LINES) {
+    const end = Math.min(chunk.endLine, start + MAX_CHUNK_LINES - 1);
+    parts.push({ ...chunk, id: `${chunk.path}:${start}`, startLine: start, endLine: end, text: lines.slice(start - 1, end).join('\n') });
+  }
+  return parts;
+}
+
+// Split a file at its top-level declarations; what precedes the first one is a 'module' chunk
+export function chunkFile(path: string, content: string): CodeChunk[] {
+  const lines = content.split(/\r?\n/);
+  const starts: Array<{ line: number; symbol?: string; kind: ChunkKind }> = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = DECLARATION.exec(lines[i]);
+    if (!match) continue;
+    // Pull leading comments and decorators into the declaration's chunk
+    let start = i;
+    while (start > 0 && LEADING_LINE.test(lines[start - 1])) start--;
+    starts.push({ line: start + 1, symbol: match[2], kind: declarationKind(match[1], match[2], lines[i], path) });
+  }
+
+  const make = (startLine: number, endLine: number, kind: ChunkKind, symbol?: string): CodeChunk => ({
+    id: `${path}:${startLine}`,
+    path,
+    symbol,
+    kind,
+    startLine,
+    endLine,
+    text: lines.slice(startLine - 1, endLine).join('\n'),
+  });
+
+  const chunks: CodeChunk[] = [];
+  if (starts.length === 0) {
+    for (let start = 1; start <= lines.length; start += BLOCK_LINES) {
+      chunks.push(make(start, Math.min(lines.length, start + BLOCK_LINES - 1), 'block'));
+    }
+  } else {
+    if (starts[0].line > 1) chunks.push(make(1, starts[0].line - 1, 'module'));
+    starts.forEach((start, index) => {
+      const end = index + 1 < starts.length ? starts[index + 1].line - 1 : lines.length;
+      chunks.push(...splitLong(make(start.line, end, start.kind, start.symbol), lines));
+    });
+  }
+  return chunks.filter(chunk => chunk.text.trim().length > 0);
+}
+
+// Identifiers are indexed whole and by their camelCase / snake_case parts
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][\w$]*/g) ?? []) {
+    const lower = word.toLowerCase();
+    if (lower.length > 1 && !STOP_WORDS.has(lower)) terms.push(lower);
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1 && part !== lower && !STOP_WORDS.has(part));
+    terms.push(...parts);
+  }
+  return terms;
+}
+
+export function isIndexable(path: string, size?: number): boolean {
+  return INDEXED_EXTENSIONS.test(path) && !SKIPPED_PATHS.test(path) && (size ?? 0) <= MAX_FILE_SIZE;
+}
+
+// ----------------------------------------------------------------------------
+// Index
+// ----------------------------------------------------------------------------
+
+interface IndexedChunk {
+  chunk: CodeChunk;
+  terms: Map<string, number>;
+  length: number;
+}
+
+// BM25 over chunk terms plus an exact identifier index. Statistics are kept incrementally,
+// so replacing one file only touches that file's chunks.
+export class CodeIndex {
+  private chunks = new Map<string, IndexedChunk>();
+  private files = new Map<string, { version: string; chunkIds: string[] }>();
+  private postings = new Map<string, Set<string>>(); // term → chunk ids
+  private symbols = new Map<string, Set<string>>(); // lowercased symbol name → chunk ids
+  private totalLength = 0;
+  private syncing: Promise<void> | null = null;
+
+  get fileCount(): number {
+    return this.files.size;
+  }
+
+  get chunkCount(): number {
+    return this.chunks.size;
+  }
+
+  // Index (or re-index) one file; null content removes it. A missing version makes the
+  // next sync reload the file.
+  updateFile(path: string, content: string | null, version = ''): void {
+    this.removeFile(path);
+    if (content === null || content.includes('\0')) return;
+
+    const chunkIds: string[] = [];
+    for (const chunk of chunkFile(path, content)) {
+      const terms = new Map<string, number>();
+      for (const term of [...tokenize(chunk.text), ...tokenize(path)]) {
+        terms.set(term, (terms.get(term) ?? 0) + 1);
+      }
+      const length = [...terms.values()].reduce((sum, count) => sum + count, 0);
+      this.chunks.set(chunk.id, { chunk, terms, length });
+      this.totalLength += length;
+      for (const term of terms.keys()) {
+        if (!this.postings.has(term)) this.postings.set(term, new Set());
+        this.postings.get(term)!.add(chunk.id);
+      }
+      if (chunk.symbol) {
+        const key = chunk.symbol.toLowerCase();
+        if (!this.symbols.has(key)) this.symbols.set(key, new Set());
+        this.symbols.get(key)!.add(chunk.id);
+      }
+      chunkIds.push(chunk.id);
+    }
+    this.files.set(path, { version, chunkIds });
+  }
+
+  removeFile(path: string): void {
+    const file = this.files.get(path);
+    if (!file) return;
+    for (const id of file.chunkIds) {
+      const indexed = this.chunks.get(id);
+      if (!indexed) continue;
+      this.totalLength -= indexed.length;
+      for (const term of indexed.terms.keys()) {
+        const ids = this.postings.get(term);
+        ids?.delete(id);
+        if (ids && ids.size === 0) this.postings.delete(term);
+      }
+      if (indexed.chunk.symbol) {
+        const ids = this.symbols.get(indexed.chunk.symbol.toLowerCase());
+        ids?.delete(id);
+        if (ids && ids.size === 0) this.symbols.delete(indexed.chunk.symbol.toLowerCase());
+      }
+      this.chunks.delete(id);
+    }
+    this.files.delete(path);
+  }
+
+  // Bring the index in line with the workspace listing: drop files that are gone and
+  // (re)load only those whose version changed. Concurrent calls share one sync.
+  sync(entries: IndexEntry[], load: (entry: IndexEntry) => Promise<string | null>): Promise<void> {
+    if (this.syncing) return this.syncing;
+    this.syncing = (async () => {
+      const wanted = entries.filter(entry => isIndexable(entry.path, entry.size)).slice(0, MAX_INDEXED_FILES);
+      const paths = new Set(wanted.map(entry => entry.path));
+      for (const path of [...this.files.keys()]) {
+        if (!paths.has(path)) this.removeFile(path);
+      }
+      const stale = wanted.filter(entry => this.files.get(entry.path)?.version !== entry.version);
+      for (let i = 0; i < stale.length; i += LOAD_CONCURRENCY) {
+        await Promise.all(stale.slice(i, i + LOAD_CONCURRENCY).map(async (entry) => {
+          const content = await load(entry).catch(() => null);
+          this.updateFile(entry.path, content, entry.version);
+        }));
+      }
+    })().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  search(query: string, limit = 20): RankedChunk[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.chunks.size === 0) return [];
+
+    const count = this.chunks.size;
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+      const idf = Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5));
+      for (const id of ids) {
+        const { terms: frequencies, length } = this.chunks.get(id)!;
+        const frequency = frequencies.get(term)!;
+        const score = idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+
+    // Identifiers written in the message (useAuth, parse_config) point straight at their definitions
+    for (const identifier of new Set(query.match(/[A-Za-z_$][\w$]{2,}/g) ?? [])) {
+      for (const id of this.symbols.get(identifier.toLowerCase()) ?? []) {
+        scores.set(id, (scores.get(id) ?? 0) + SYMBOL_BOOST);
+      }
+    }
+    for (const [id, score] of scores) {
+      const path = this.chunks.get(id)!.chunk.path.toLowerCase();
+      const inPath = terms.filter(term => path.includes(term)).length;
+      if (inPath > 0) scores.set(id, score + inPath * PATH_BOOST);
+    }
+
+    return [...scores]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const { chunk } = this.chunks.get(id)!;
+        return { ...chunk, score, tokens: estimateTokensLocally(chunk.text) };
+      });
+  }
+
+  // The best chunks for a message that fit the token budget, at most a few per file
+  select(query: string, options: SelectOptions): RankedChunk[] {
+    const { tokenBudget, maxChunksPerFile = 3, exclude } = options;
+    if (tokenBudget <= 0) return [];
+
+    const ranked = this.search(query, 40);
+    const best = ranked[0]?.score ?? 0;
+    const picked: RankedChunk[] = [];
+    const perFile = new Map<string, number>();
+    let used = 0;
+    for (const chunk of ranked) {
+      if (chunk.score < best * 0.25) break; // Weak matches cost tokens without helping
+      if (exclude?.has(chunk.path) || (perFile.get(chunk.path) ?? 0) >= maxChunksPerFile) continue;
+      if (used + chunk.tokens > tokenBudget) continue;
+      picked.push(chunk);
+      perFile.set(chunk.path, (perFile.get(chunk.path) ?? 0) + 1);
+      used += chunk.tokens;
+    }
+    // Read in file order, which is easier to follow than score order
+    return picked.sort((a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Shared indexes
+// ----------------------------------------------------------------------------
+
+// One index per workspace (owner/repo/branch or local path), reused across requests
+const CODE_INDEXES = new Map<string, { index: CodeIndex; timestamp: number }>();
+const MAX_CODE_INDEXES = 5;
+
+export function getCodeIndex(key: string): CodeIndex {
+  const existing = CODE_INDEXES.get(key);
+  if (existing) {
+    existing.timestamp = Date.now();
+    return existing.index;
+  }
+  const index = new CodeIndex();
+  CODE_INDEXES.set(key, { index, timestamp: Date.now() });
+  if (CODE_INDEXES.size > MAX_CODE_INDEXES) {
+    const oldest = [...CODE_INDEXES].sort((a, b) => a[1].timestamp - b[1].timestamp)[0];
+    CODE_INDEXES.delete(oldest[0]);
+  }
+  return index;
+}
+
+export function formatRelevantCode(chunks: RankedChunk[]): string {
+  return chunks.map(chunk => {
+    const ext = chunk.path.split('.').pop() ?? '';
+    const label = chunk.symbol ? ` (${chunk.kind} ${chunk.symbol})` : '';
+    return `### ${chunk.path}:${chunk.startLine}-${chunk.endLine}${label}\n\`\`\`${ext}\n${chunk.text}\n\`\`\``;
+  }).join('\n\n');
+}
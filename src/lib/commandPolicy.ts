@@ -0,0 +1,133 @@
+// ============================================================================
+// COMMAND POLICY - Decide whether run_command may execute a command
+// Allow/deny patterns, forbidden paths and a network switch, checked per segment
+// ============================================================================
+
+import os from 'os';
+import path from 'path';
+import { CommandPolicy, CommandPolicyViolation, DEFAULT_SETTINGS } from '../types';
+
+// Programs that talk to the network on their own
+const NETWORK_PROGRAMS = new Set(['curl', 'wget', 'nc', 'ncat', 'netcat', 'ssh', 'scp', 'sftp', 'rsync', 'ftp', 'telnet', 'ping', 'dig', 'nslookup']);
+
+// Subcommands of otherwise-local tools that need the network
+const NETWORK_SUBCOMMANDS = /^(git\s+(clone|fetch|pull|push|ls-remote|submodule\s+update)|(npm|pnpm|yarn|bun)\s+(install|i|add|ci|update|upgrade|publish)|pip3?\s+install|cargo\s+(install|fetch|publish)|go\s+(get|install|mod\s+download))\b/;
+
+// Fill in fields missing from settings saved before the policy existed
+export function resolveCommandPolicy(policy?: Partial<CommandPolicy>): CommandPolicy {
+  const defaults = DEFAULT_SETTINGS.commandPolicy;
+  // Blank lines from the settings textareas are not patterns
+  const clean = (list: string[]) => list.map(item => item.trim()).filter(Boolean);
+  return {
+    allow: clean(policy?.allow ?? defaults.allow),
+    deny: clean(policy?.deny ?? defaults.deny),
+    forbiddenPaths: clean(policy?.forbiddenPaths ?? defaults.forbiddenPaths),
+    allowNetwork: policy?.allowNetwork ?? defaults.allowNetwork,
+    limits: { ...defaults.limits, ...policy?.limits },
+  };
+}
+
+// Split on shell control operators: && || ; | & and newlines. Subshells, $( ) and backticks
+// also end a segment, so the commands inside them are checked on their own; redirections
+// like 2>&1 are not operators. Quoted operators are rare enough to ignore.
+export function splitCommandSegments(command: string): string[] {
+  return command
+    .split(/&&|\|\||;|\||(?<![<>])&(?![>&])|\$\(|[()`]|\n/)
+    .map(segment => segment.trim())
+    .filter(Boolean);
+}
+
+// "/regex/" patterns are regular expressions; anything else is a glob where * matches any text
+function patternToRegex(pattern: string): RegExp | null {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]);
+    } catch {
+      return null; // An invalid pattern never matches
+    }
+  }
+
+  const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+function matchesPattern(pattern: string, text: string): boolean {
+  return patternToRegex(pattern)?.test(text) ?? false;
+}
+
+// Drop leading VAR=value assignments so "CI=1 npm test" is judged as "npm test"
+function stripEnvAssignments(segment: string): string {
+  return segment.replace(/^(\s*[A-Za-z_][A-Za-z0-9_]*=("[^"]*"|'[^']*'|\S*)\s+)+/, '').trim();
+}
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+function referencesPath(command: string, forbidden: string, cwd: string): boolean {
+  const target = path.resolve(expandHome(forbidden));
+  if (command.includes(forbidden) || command.includes(target)) return true;
+
+  // Resolve path-like tokens so "../../.ssh" or "$HOME/.ssh" style escapes are caught too
+  const tokens = command.split(/[\s=<>"']+/).filter(Boolean);
+  return tokens.some(token => {
+    if (!/[/~]/.test(token) && !token.startsWith('.')) return false;
+    const expanded = expandHome(token.replace(/^\$HOME|^\$\{HOME\}/, '~'));
+    const resolved = path.resolve(cwd, expanded);
+    return resolved === target || resolved.startsWith(target + path.sep);
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Evaluate a command. Returns null when it may run, otherwise the first violation.
+// ----------------------------------------------------------------------------
+
+export function evaluateCommand(command: string, policy: CommandPolicy, cwd: string = process.cwd()): CommandPolicyViolation | null {
+  const segments = splitCommandSegments(command);
+
+  for (const pattern of policy.deny) {
+    // Regexes can span operators (e.g. "curl ... | sh"), so also test the whole command
+    if (pattern.startsWith('/') && matchesPattern(pattern, command)) {
+      return { rule: 'deny', pattern, segment: command, reason: `Matches deny pattern ${pattern}` };
+    }
+    const segment = segments.find(s => matchesPattern(pattern, stripEnvAssignments(s)));
+    if (segment) {
+      return { rule: 'deny', pattern, segment, reason: `Matches deny pattern ${pattern}` };
+    }
+  }
+
+  for (const forbidden of policy.forbiddenPaths) {
+    if (referencesPath(command, forbidden, cwd)) {
+      return { rule: 'forbidden_path', pattern: forbidden, segment: command, reason: `References forbidden path ${forbidden}` };
+    }
+  }
+
+  if (!policy.allowNetwork) {
+    for (const segment of segments) {
+      const program = stripEnvAssignments(segment);
+      const executable = path.basename(program.split(/\s+/)[0] || '');
+      if (NETWORK_PROGRAMS.has(executable) || NETWORK_SUBCOMMANDS.test(program)) {
+        return { rule: 'network', segment, reason: 'Network access is disabled for commands' };
+      }
+    }
+  }
+
+  if (policy.allow.length > 0) {
+    for (const segment of segments) {
+      const program = stripEnvAssignments(segment);
+      if (!policy.allow.some(pattern => matchesPattern(pattern, program))) {
+        return { rule: 'allow', segment, reason: 'Not covered by any allow pattern' };
+      }
+    }
+  }
+
+  return null;
+}
+
+export function formatPolicyViolation(command: string, violation: CommandPolicyViolation): string {
+  const label = violation.pattern ? `${violation.rule}: ${violation.pattern}` : violation.rule;
+  return `✗ Command denied by policy (${label})
+${JSON.stringify({ error: 'command_denied', command, ...violation })}
+Do not try to work around the policy. Use a different approach, or ask the user to change the command policy in Settings.`;
+}
@@ -0,0 +1,181 @@
+// ============================================================================
+// COMMAND RUNNER - Execute run_command via spawn with resource limits
+// Output is streamed line by line; the process group is killed on any limit
+// ============================================================================
+
+import { spawn } from 'child_process';
+import { CommandOutputLine, CommandPolicy } from '../types';
+
+export type CommandStream = CommandOutputLine['stream'];
+
+export interface CommandRunResult {
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean; // Wall-clock limit hit
+  truncated: boolean; // Output limit hit - the process was stopped
+  cancelled: boolean;
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  limits: CommandPolicy['limits'];
+  allowNetwork?: boolean;
+  onOutput?: (stream: CommandStream, line: string) => void;
+  signal?: AbortSignal;
+}
+
+// Point proxy-aware tools at a closed port when network access is off.
+// Best effort - the policy check already refuses known network programs.
+const OFFLINE_ENV: Record<string, string> = {
+  HTTP_PROXY: 'http://127.0.0.1:9',
+  HTTPS_PROXY: 'http://127.0.0.1:9',
+  http_proxy: 'http://127.0.0.1:9',
+  https_proxy: 'http://127.0.0.1:9',
+  npm_config_offline: 'true',
+};
+
+export function runCommand(command: string, options: RunCommandOptions): Promise<CommandRunResult> {
+  const { cwd, limits, allowNetwork = true, onOutput, signal } = options;
+  const startedAt = Date.now();
+
+  return new Promise(resolve => {
+    // ulimit -t caps CPU seconds for the shell and everything it starts
+    const child = spawn('bash', ['-c', `ulimit -t ${Math.max(1, Math.floor(limits.cpuSeconds))} 2>/dev/null; ${command}`], {
+      cwd,
+      env: allowNetwork ? process.env : { ...process.env, ...OFFLINE_ENV },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true, // Own process group, so the whole tree can be killed
+    });
+
+    const output: Record<CommandStream, string> = { stdout: '', stderr: '' };
+    const partial: Record<CommandStream, string> = { stdout: '', stderr: '' };
+    let outputBytes = 0;
+    let timedOut = false;
+    let truncated = false;
+    let cancelled = false;
+    let settled = false;
+
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL'); // Group already gone or not supported
+      }
+    };
+
+    const handleData = (stream: CommandStream) => (data: Buffer) => {
+      if (truncated) return;
+
+      let text = data.toString('utf-8');
+      const remaining = limits.maxOutputBytes - outputBytes;
+      if (data.length > remaining) {
+        text = data.subarray(0, Math.max(0, remaining)).toString('utf-8');
+        truncated = true;
+      }
+      outputBytes += Buffer.byteLength(text);
+      output[stream] += text;
+
+      if (onOutput) {
+        const lines = (partial[stream] + text).split('\n');
+        partial[stream] = lines.pop() ?? '';
+        for (const line of lines) onOutput(stream, line);
+      }
+
+      if (truncated) killGroup();
+    };
+
+    child.stdout?.on('data', handleData('stdout'));
+    child.stderr?.on('data', handleData('stderr'));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, limits.wallClockMs);
+
+    const onAbort = () => {
+      cancelled = true;
+      killGroup();
+    };
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort);
+
+    const finish = (exitCode: number | null, exitSignal: string | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+
+      // Flush the last unterminated line of each stream
+      for (const stream of ['stdout', 'stderr'] as CommandStream[]) {
+        if (onOutput && partial[stream]) onOutput(stream, partial[stream]);
+      }
+
+      resolve({
+        exitCode,
+        signal: exitSignal,
+        stdout: output.stdout,
+        stderr: output.stderr,
+        durationMs: Date.now() - startedAt,
+        timedOut,
+        truncated,
+        cancelled,
+      });
+    };
+
+    child.on('close', (code, exitSignal) => finish(code, exitSignal));
+    child.on('error', error => {
+      output.stderr += error.message;
+      finish(null, null);
+    });
+  });
+}
+
+export function formatCommandResult(command: string, result: CommandRunResult, limits: CommandPolicy['limits']): string {
+  const notes: string[] = [];
+  if (result.timedOut) notes.push(`Stopped after the ${Math.round(limits.wallClockMs / 1000)}s wall-clock limit`);
+  if (result.truncated) notes.push(`Stopped after ${limits.maxOutputBytes} bytes of output`);
+  if (result.cancelled) notes.push('Cancelled by the user');
+  if (result.signal === 'SIGXCPU') notes.push(`Stopped after the ${limits.cpuSeconds}s CPU limit`);
+
+  const exit = result.exitCode ?? (result.signal ? `killed (${result.signal})` : 'unknown');
+  return `$ ${command}\n\n${result.stdout}${result.stderr ? `\nSTDERR: ${result.stderr}` : ''}\nExit code: ${exit}${notes.length > 0 ? `\n${notes.map(n => `⚠️ ${n}`).join('\n')}` : ''}`;
+}
+
+// ----------------------------------------------------------------------------
+// Batch output lines so a chatty command doesn't emit one chunk per line
+// ----------------------------------------------------------------------------
+
+export function createOutputBatcher(
+  flush: (lines: CommandOutputLine[]) => void,
+  options: { intervalMs?: number; maxLines?: number } = {}
+): { push: (stream: CommandStream, text: string) => void; close: () => void } {
+  const { intervalMs = 100, maxLines = 50 } = options;
+  let pending: CommandOutputLine[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const drain = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending.length === 0) return;
+    const lines = pending;
+    pending = [];
+    flush(lines);
+  };
+
+  return {
+    push(stream, text) {
+      pending.push({ stream, text });
+      if (pending.length >= maxLines) {
+        drain();
+      } else if (!timer) {
+        timer = setTimeout(drain, intervalMs);
+      }
+    },
+    close: drain,
+  };
+}
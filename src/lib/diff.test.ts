@@ -0,0 +1,65 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { createUnifiedDiff, describeFileChange, diffLines } from './diff';
+
+const base: Record<string, string> = {
+  'src/a.ts': 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n',
+};
+
+test('unified diff has context hunks and exact stats', () => {
+  const after = base['src/a.ts'].replace('two\n', 'TWO\n').replace('nine\n', 'nine\nnine and a half\n');
+  const { diff, additions, deletions } = createUnifiedDiff('src/a.ts', base['src/a.ts'], after);
+
+  assert.strictEqual(additions, 2);
+  assert.strictEqual(deletions, 1);
+  assert.strictEqual(diff, [
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,5 +1,5 @@',
+    ' one',
+    '-two',
+    '+TWO',
+    ' three',
+    ' four',
+    ' five',
+    '@@ -7,4 +7,5 @@',
+    ' seven',
+    ' eight',
+    ' nine',
+    '+nine and a half',
+    ' ten',
+    '',
+  ].join('\n'));
+});
+
+test('a missing final newline is part of the diff', () => {
+  const { diff } = createUnifiedDiff('x.txt', 'a\nb\n', 'a\nb');
+  assert.match(diff, /-b\n\+b\n\\ No newline at end of file\n$/);
+});
+
+test('finds a shortest edit script, not just a common prefix and suffix', () => {
+  const a = ['a\n', 'b\n', 'c\n', 'a\n', 'b\n', 'b\n', 'a\n'];
+  const b = ['c\n', 'b\n', 'a\n', 'b\n', 'a\n', 'c\n'];
+  const ops = diffLines(a, b);
+
+  assert.strictEqual(ops.filter(op => op.type !== ' ').length, 5);
+  assert.deepStrictEqual(ops.filter(op => op.type !== '+').map(op => op.line), a);
+  assert.deepStrictEqual(ops.filter(op => op.type !== '-').map(op => op.line), b);
+});
+
+test('moved blocks count only the lines that changed', () => {
+  const before = Array.from({ length: 200 }, (_, i) => `line ${i}\n`).join('');
+  const after = before.replace('line 50\n', '').replace('line 150\n', 'line 150\nline 50\n');
+  const change = describeFileChange('big.txt', before, after);
+
+  assert.deepStrictEqual([change.action, change.additions, change.deletions], ['edit', 1, 1]);
+  assert.strictEqual(change.diff!.match(/^@@/gm)!.length, 2);
+});
+
+test('file changes carry the action and rename header', () => {
+  assert.deepStrictEqual(describeFileChange('a.txt', null, 'x\ny\n'), {
+    path: 'a.txt', action: 'create', additions: 2, deletions: 0, diff: '--- /dev/null\n+++ b/a.txt\n@@ -0,0 +1,2 @@\n+x\n+y\n',
+  });
+  assert.strictEqual(describeFileChange('a.txt', 'x\n', null).action, 'delete');
+  assert.strictEqual(describeFileChange('b.txt', 'x\n', 'x\n', 'a.txt').diff, 'diff --git a/a.txt b/b.txt\nrename from a.txt\nrename to b.txt\n');
+});
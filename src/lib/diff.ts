@@ -0,0 +1,191 @@
+// ============================================================================
+// DIFF - Myers line diff, exact stats and unified diffs for FileChange
+// Trims the common prefix/suffix, then finds a shortest edit script on the rest
+// ============================================================================
+
+import { FileChange } from '../types';
+
+export type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+const DIFF_CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE = 2000; // Beyond this the changed region is shown as one replace hunk
+
+function normalizePath(filePath: string): string {
+  return filePath.trim().replace(/^\.?\/+/, '');
+}
+
+// Lines keep their terminator so a missing final newline counts as a change
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+// Shortest edit script between two sequences of line ids, or null past MAX_EDIT_DISTANCE.
+// trace[d] holds V for k in [-d-1, d+1] as it was before step d.
+function myers(a: Int32Array, b: Int32Array): DiffOp['type'][] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = -1;
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1] // Down: insert from b
+        : v[offset + k - 1] + 1; // Right: delete from a
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+    if (found >= 0) break;
+  }
+  if (found < 0) return null;
+
+  const ops: DiffOp['type'][] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push(' ');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? '+' : '-');
+      x = prevX;
+      y = prevY;
+    }
+  }
+  return ops.reverse();
+}
+
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  // Compare interned ids rather than strings
+  const ids = new Map<string, number>();
+  const intern = (lines: string[]) => Int32Array.from(lines, line => {
+    let id = ids.get(line);
+    if (id === undefined) ids.set(line, id = ids.size);
+    return id;
+  });
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const script = myers(intern(midA), intern(midB));
+
+  const middle: DiffOp[] = [];
+  if (!script) {
+    middle.push(...midA.map(line => ({ type: '-' as const, line })), ...midB.map(line => ({ type: '+' as const, line })));
+  } else {
+    let i = 0;
+    let j = 0;
+    for (const type of script) {
+      if (type === ' ') {
+        middle.push({ type, line: midA[i++] });
+        j++;
+      } else if (type === '-') {
+        middle.push({ type, line: midA[i++] });
+      } else {
+        middle.push({ type, line: midB[j++] });
+      }
+    }
+  }
+
+  return [
+    ...a.slice(0, start).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...a.slice(endA).map(line => ({ type: ' ' as const, line })),
+  ];
+}
+
+function formatDiffLine(op: DiffOp): string {
+  return op.line.endsWith('\n')
+    ? `${op.type}${op.line}`
+    : `${op.type}${op.line}\n\\ No newline at end of file\n`;
+}
+
+export function createUnifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string | null
+): { diff: string; additions: number; deletions: number } {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  const additions = ops.filter(op => op.type === '+').length;
+  const deletions = ops.filter(op => op.type === '-').length;
+  if (additions === 0 && deletions === 0) return { diff: '', additions, deletions };
+
+  const path = normalizePath(filePath);
+  let diff = `--- ${before === null ? '/dev/null' : `a/${path}`}\n+++ ${after === null ? '/dev/null' : `b/${path}`}\n`;
+
+  // Group changes that are within 2 * context lines of each other into hunks
+  const changed = ops.map((op, index) => op.type !== ' ' ? index : -1).filter(index => index >= 0);
+  let hunkStart = 0;
+  while (hunkStart < changed.length) {
+    let hunkEnd = hunkStart;
+    while (hunkEnd + 1 < changed.length && changed[hunkEnd + 1] - changed[hunkEnd] <= 2 * DIFF_CONTEXT_LINES) hunkEnd++;
+
+    const from = Math.max(0, changed[hunkStart] - DIFF_CONTEXT_LINES);
+    const to = Math.min(ops.length, changed[hunkEnd] + DIFF_CONTEXT_LINES + 1);
+    const oldBefore = ops.slice(0, from).filter(op => op.type !== '+').length;
+    const newBefore = ops.slice(0, from).filter(op => op.type !== '-').length;
+    const hunk = ops.slice(from, to);
+    const oldLength = hunk.filter(op => op.type !== '+').length;
+    const newLength = hunk.filter(op => op.type !== '-').length;
+
+    // An empty side starts at the line before the hunk, per the unified format
+    diff += `@@ -${oldLength === 0 ? oldBefore : oldBefore + 1},${oldLength} +${newLength === 0 ? newBefore : newBefore + 1},${newLength} @@\n`;
+    diff += hunk.map(formatDiffLine).join('');
+    hunkStart = hunkEnd + 1;
+  }
+
+  return { diff, additions, deletions };
+}
+
+// git-style rename header, followed by the content diff when the file also changed
+export function createRenameDiff(
+  fromPath: string,
+  toPath: string,
+  before: string,
+  after: string
+): { diff: string; additions: number; deletions: number } {
+  const from = normalizePath(fromPath);
+  const to = normalizePath(toPath);
+  const { diff, additions, deletions } = createUnifiedDiff(to, before, after);
+  return {
+    diff: `diff --git a/${from} b/${to}\nrename from ${from}\nrename to ${to}\n${diff.replace(/^--- a\/.*\n/, `--- a/${from}\n`)}`,
+    additions,
+    deletions,
+  };
+}
+
+// A FileChange with exact stats and its diff; before is null for new files, after for deleted ones
+export function describeFileChange(path: string, before: string | null, after: string | null, fromPath?: string): FileChange {
+  if (fromPath && before !== null && after !== null) {
+    return { path, fromPath, action: 'move', ...createRenameDiff(fromPath, path, before, after) };
+  }
+  const action = before === null ? 'create' : after === null ? 'delete' : 'edit';
+  return { path, action, ...createUnifiedDiff(path, before, after) };
+}
@@ -0,0 +1,38 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { createUnifiedDiff } from './diff';
+import { foldUnchanged, intralineChanges, languageForPath, parseDiffView, toSplitRows } from './diffView';
+
+const before = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+test('numbers lines on both sides and counts the unchanged lines between hunks', () => {
+  const after = before.replace('line 5\n', 'line five\n').replace('line 25\n', 'line 25\nline 25.5\n');
+  const hunks = parseDiffView(createUnifiedDiff('a.txt', before, after).diff);
+
+  assert.strictEqual(hunks.length, 2);
+  assert.deepStrictEqual(hunks.map(hunk => hunk.skippedBefore), [1, 14]);
+  const replaced = hunks[0].lines.filter(line => line.kind !== 'context');
+  assert.deepStrictEqual(replaced.map(line => [line.kind, line.oldNumber, line.newNumber]), [['delete', 5, undefined], ['add', undefined, 5]]);
+  assert.deepStrictEqual(hunks[1].lines.find(line => line.kind === 'add'), { kind: 'add', text: 'line 25.5', newNumber: 26 });
+});
+
+test('marks the changed words of a replaced line and pairs it in split rows', () => {
+  const diff = createUnifiedDiff('a.ts', 'const total = a + b;\nreturn total;\n', 'const total = a * b;\nreturn total;').diff;
+  const [hunk] = parseDiffView(diff);
+  const rows = toSplitRows(hunk.lines);
+
+  assert.strictEqual(rows.length, 2);
+  assert.deepStrictEqual(rows[0].left?.changes, [[16, 17]]);
+  assert.deepStrictEqual(rows[0].right?.changes, [[16, 17]]);
+  assert.strictEqual(rows[1].right?.noNewline, true);
+  assert.strictEqual(intralineChanges('import x from "y";', 'export default function () {}'), null);
+});
+
+test('folds long unchanged runs but keeps context around changes', () => {
+  const rows = [...'cccccccccccAcccccccccc'];
+  const segments = foldUnchanged(rows, row => row === 'c');
+
+  assert.deepStrictEqual(segments.map(segment => [segment.folded, segment.rows.length]), [[true, 8], [false, 7], [true, 7]]);
+  assert.strictEqual(languageForPath('src/components/CodeDiff.tsx'), 'tsx');
+  assert.strictEqual(languageForPath('Makefile'), 'text');
+});
@@ -0,0 +1,214 @@
+// ============================================================================
+// DIFF VIEW - Turns a unified diff into numbered, aligned rows for display
+// Replaced lines are paired up (side by side in split mode) and compared
+// word by word, so the viewer can mark what changed inside each line
+// ============================================================================
+
+import { diffLines } from './diff';
+
+export type DiffLineKind = 'context' | 'delete' | 'add';
+
+export interface DiffViewLine {
+  kind: DiffLineKind;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+  noNewline?: boolean; // Followed by "\ No newline at end of file"
+  changes?: Array<[number, number]>; // Changed character ranges, set on paired lines
+}
+
+export interface DiffViewHunk {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  skippedBefore: number; // Unchanged lines between the previous hunk (or the file start) and this one
+  lines: DiffViewLine[];
+}
+
+// One row of the split view; a missing side renders as an empty cell
+export interface SplitRow {
+  left?: DiffViewLine;
+  right?: DiffViewLine;
+}
+
+export type FoldedSegment<T> = { folded: boolean; rows: T[] };
+
+const FOLD_KEEP_LINES = 3; // Context kept visible on each side of a folded run
+const FOLD_MIN_LINES = 8; // Shorter unchanged runs are never folded
+const MIN_SHARED_RATIO = 0.4; // Below this, a replaced line is marked as a whole
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', mts: 'typescript', cts: 'typescript', tsx: 'tsx',
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'jsx',
+  json: 'json', css: 'css', scss: 'scss', less: 'less',
+  html: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+  md: 'markdown', mdx: 'markdown', yml: 'yaml', yaml: 'yaml', toml: 'toml',
+  py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin',
+  swift: 'swift', c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', cs: 'csharp', php: 'php',
+  sh: 'bash', bash: 'bash', zsh: 'bash', sql: 'sql', graphql: 'graphql', prisma: 'prisma',
+};
+
+// Prism language for a file path; 'text' when unknown
+export function languageForPath(path: string): string {
+  const name = path.split('/').pop()?.toLowerCase() ?? '';
+  if (name === 'dockerfile') return 'docker';
+  const extension = name.includes('.') ? name.split('.').pop()! : '';
+  return LANGUAGES[extension] ?? 'text';
+}
+
+// ----------------------------------------------------------------------------
+// Parsing
+// ----------------------------------------------------------------------------
+
+export function parseDiffView(diff: string): DiffViewHunk[] {
+  const hunks: DiffViewHunk[] = [];
+  let hunk: DiffViewHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let previousOldEnd = 1;
+
+  for (const raw of diff.replace(/\n$/, '').split('\n')) {
+    const header = raw.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      const oldCount = header[2] === undefined ? 1 : Number(header[2]);
+      // An empty old side names the line before the hunk
+      oldLine = oldCount === 0 ? Number(header[1]) + 1 : Number(header[1]);
+      newLine = Number(header[4]) === 0 ? Number(header[3]) + 1 : Number(header[3]);
+      hunk = { header: raw, oldStart: oldLine, newStart: newLine, skippedBefore: Math.max(0, oldLine - previousOldEnd), lines: [] };
+      hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) continue; // File headers: diff --git, rename, ---/+++
+
+    if (raw.startsWith('\\')) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) last.noNewline = true;
+    } else if (raw.startsWith('-')) {
+      hunk.lines.push({ kind: 'delete', text: raw.slice(1), oldNumber: oldLine++ });
+    } else if (raw.startsWith('+')) {
+      hunk.lines.push({ kind: 'add', text: raw.slice(1), newNumber: newLine++ });
+    } else if (raw.startsWith(' ') || raw === '') { // Some tools strip the space from blank context lines
+      hunk.lines.push({ kind: 'context', text: raw.slice(1), oldNumber: oldLine++, newNumber: newLine++ });
+    } else {
+      hunk = null; // Anything else ends the hunk, e.g. the next file's header
+      continue;
+    }
+    previousOldEnd = oldLine;
+  }
+
+  for (const parsed of hunks) markReplacements(parsed.lines);
+  return hunks;
+}
+
+// Pair each run of deletions with the additions that follow it
+function replacementPairs(lines: DiffViewLine[]): Array<[DiffViewLine | undefined, DiffViewLine | undefined]> {
+  const pairs: Array<[DiffViewLine | undefined, DiffViewLine | undefined]> = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].kind === 'context') {
+      pairs.push([lines[i], lines[i]]);
+      i++;
+      continue;
+    }
+    const deleted: DiffViewLine[] = [];
+    const added: DiffViewLine[] = [];
+    while (i < lines.length && lines[i].kind === 'delete') deleted.push(lines[i++]);
+    while (i < lines.length && lines[i].kind === 'add') added.push(lines[i++]);
+    for (let j = 0; j < Math.max(deleted.length, added.length); j++) pairs.push([deleted[j], added[j]]);
+  }
+  return pairs;
+}
+
+function markReplacements(lines: DiffViewLine[]): void {
+  for (const [left, right] of replacementPairs(lines)) {
+    if (!left || !right || left === right) continue;
+    const ranges = intralineChanges(left.text, right.text);
+    if (ranges) {
+      left.changes = ranges.old;
+      right.changes = ranges.new;
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Word-level changes within a replaced line
+// ----------------------------------------------------------------------------
+
+// Changed character ranges on each side, or null when the lines share too little to be worth marking
+export function intralineChanges(before: string, after: string): { old: Array<[number, number]>; new: Array<[number, number]> } | null {
+  const tokenize = (text: string) => text.match(/[\w$]+|\s+|[^\w\s$]/g) ?? [];
+  const ops = diffLines(tokenize(before), tokenize(after));
+
+  const old: Array<[number, number]> = [];
+  const added: Array<[number, number]> = [];
+  let oldOffset = 0;
+  let newOffset = 0;
+  let shared = 0;
+  const extend = (ranges: Array<[number, number]>, start: number, end: number) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === start) last[1] = end;
+    else ranges.push([start, end]);
+  };
+
+  for (const op of ops) {
+    if (op.type === ' ') {
+      oldOffset += op.line.length;
+      newOffset += op.line.length;
+      shared += op.line.length;
+    } else if (op.type === '-') {
+      extend(old, oldOffset, oldOffset += op.line.length);
+    } else {
+      extend(added, newOffset, newOffset += op.line.length);
+    }
+  }
+
+  const longest = Math.max(before.length, after.length);
+  if (longest === 0 || shared / longest < MIN_SHARED_RATIO) return null;
+  return { old, new: added };
+}
+
+// ----------------------------------------------------------------------------
+// Layout
+// ----------------------------------------------------------------------------
+
+export function toSplitRows(lines: DiffViewLine[]): SplitRow[] {
+  return replacementPairs(lines).map(([left, right]) => ({ left, right }));
+}
+
+// Long runs of unchanged rows fold down to a few lines of context on each side
+export function foldUnchanged<T>(
+  rows: T[],
+  isUnchanged: (row: T) => boolean,
+  keep: number = FOLD_KEEP_LINES,
+  minLength: number = FOLD_MIN_LINES
+): FoldedSegment<T>[] {
+  const segments: FoldedSegment<T>[] = [];
+  const push = (folded: boolean, slice: T[]) => {
+    if (slice.length === 0) return;
+    const last = segments[segments.length - 1];
+    if (last && !last.folded && !folded) last.rows.push(...slice);
+    else segments.push({ folded, rows: slice });
+  };
+
+  let i = 0;
+  while (i < rows.length) {
+    let end = i;
+    while (end < rows.length && isUnchanged(rows[end])) end++;
+    if (end === i) {
+      push(false, [rows[i++]]);
+      continue;
+    }
+    // A run at the very start or end of the hunk only needs context on its inner side
+    const head = i === 0 ? 0 : keep;
+    const tail = end === rows.length ? 0 : keep;
+    if (end - i >= minLength && end - i > head + tail) {
+      push(false, rows.slice(i, i + head));
+      push(true, rows.slice(i + head, end - tail));
+      push(false, rows.slice(end - tail, end));
+    } else {
+      push(false, rows.slice(i, end));
+    }
+    i = end;
+  }
+  return segments;
+}
@@ -42,6 +42,49 @@ export class LocalFileSystem {
     }
   }
 
+  // Delete file from local disk
+  async deleteFile(filePath: string): Promise<void> {
+    try {
+      const fs = await import('fs/promises');
+      const fullPath = path.resolve(this.workspaceRoot, filePath);
+      
+      // Security check: ensure path is within workspace
+      if (!fullPath.startsWith(path.resolve(this.workspaceRoot))) {
+        throw new Error('Path outside workspace not allowed');
+      }
+      
+      await fs.unlink(fullPath);
+    } catch (error) {
+      throw new Error(`Failed to delete file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Move or rename a file; never overwrites an existing destination
+  async moveFile(fromPath: string, toPath: string): Promise<void> {
+    try {
+      const fs = await import('fs/promises');
+      const root = path.resolve(this.workspaceRoot);
+      const fullFrom = path.resolve(this.workspaceRoot, fromPath);
+      const fullTo = path.resolve(this.workspaceRoot, toPath);
+      
+      // Security check: ensure both paths are within workspace
+      if (!fullFrom.startsWith(root) || !fullTo.startsWith(root)) {
+        throw new Error('Path outside workspace not allowed');
+      }
+      
+      await fs.access(fullFrom);
+      const exists = await fs.access(fullTo).then(() => true, () => false);
+      if (exists) {
+        throw new Error(`${toPath} already exists`);
+      }
+      
+      await fs.mkdir(path.dirname(fullTo), { recursive: true });
+      await fs.rename(fullFrom, fullTo);
+    } catch (error) {
+      throw new Error(`Failed to move file ${fromPath} to ${toPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // List all files (like file tree)
   async listFiles(dir: string = ''): Promise<string[]> {
     try {
@@ -76,6 +119,17 @@ export class LocalFileSystem {
     }
   }
 
+  // Every file with a version that changes whenever it is written (mtime and size)
+  async fileVersions(): Promise<Array<{ path: string; version: string; size: number }>> {
+    const fs = await import('fs/promises');
+    const files = await this.listFiles();
+    const versions = await Promise.all(files.map(async (file) => {
+      const stat = await fs.stat(path.resolve(this.workspaceRoot, file)).catch(() => null);
+      return stat ? { path: file, version: `${stat.mtimeMs}:${stat.size}`, size: stat.size } : null;
+    }));
+    return versions.filter((entry): entry is { path: string; version: string; size: number } => entry !== null);
+  }
+
   // Grep search (fast!)
   async grepSearch(query: string, extensions?: string[]): Promise<Array<{ path: string; line: number; content: string }>> {
     try {
@@ -120,6 +174,32 @@ export class LocalFileSystem {
     }
   }
 
+  // Files containing a literal string - every match, unlike grepSearch's first 50 lines
+  async findFilesContaining(text: string, extensions?: string[]): Promise<string[]> {
+    try {
+      if (!text) {
+        throw new Error('Search text cannot be empty');
+      }
+      
+      const { execFileSync } = await import('child_process');
+      const args = ['-rlF', '--exclude-dir=.*', '--exclude-dir=node_modules'];
+      extensions?.forEach(ext => args.push(`--include=*.${ext.replace(/^\./, '')}`));
+      args.push('--', text, path.resolve(this.workspaceRoot));
+      
+      let output = '';
+      try {
+        output = execFileSync('grep', args, { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024, timeout: 30000 });
+      } catch (error) {
+        // grep exits 1 when nothing matched
+        if ((error as { status?: number }).status !== 1) throw error;
+      }
+      
+      return output.split('\n').filter(Boolean).map(file => path.relative(this.workspaceRoot, file));
+    } catch (error) {
+      throw new Error(`Failed to find files containing "${text}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Search files by name
   async searchFiles(query: string): Promise<string[]> {
     try {
@@ -5,6 +5,12 @@
 
 import { Octokit } from 'octokit';
 import { RepoFile, RepoTree, Branch, Repository, PullRequest, FileChange } from '@/types';
+import { applyPatchSet, FilePatch } from '@/lib/patch';
+import { replaceUnique } from '@/lib/strReplace';
+import { createUnifiedDiff } from '@/lib/diff';
+import { GrepIndex, GrepOptions, GrepResult, extensionGlobs } from '@/lib/grep';
+import { modulePathCandidates } from '@/lib/imports';
+import { ModuleGraph, ModuleResolver, extractImports, getModuleGraph, isModuleConfig, isModuleSource } from '@/lib/moduleGraph';
 
 // Module-level cache that persists across GitHubClient instances
 // This is critical because a new GitHubClient is created on every request
@@ -12,6 +18,9 @@ const FILE_TREE_CACHE = new Map<string, { tree: RepoTree[]; timestamp: number }>
 const FILE_CONTENT_CACHE = new Map<string, { file: RepoFile; timestamp: number }>();
 const CACHE_TTL = 60 * 60 * 1000; // 1 hour (extended from 5 minutes)
 const MAX_CACHE_ENTRIES = 200;
+// Grep indexes hold blob contents, so only the most recently searched branches keep one
+const GREP_INDEX_CACHE = new Map<string, { index: GrepIndex; timestamp: number }>();
+const MAX_GREP_INDEXES = 5;
 
 // Helper functions for cache cleanup
 function removeExpiredEntries<T>(cache: Map<string, { timestamp: number } & T>): void {
@@ -57,6 +66,7 @@ export class GitHubClient {
     // Cleanup caches on instantiation
     cleanupCache(FILE_TREE_CACHE);
     cleanupCache(FILE_CONTENT_CACHE);
+    cleanupCache(GREP_INDEX_CACHE, MAX_GREP_INDEXES);
   }
 
   // --------------------------------------------------------------------------
@@ -119,6 +129,7 @@ export class GitHubClient {
   clearAllCaches(): void {
     FILE_TREE_CACHE.clear();
     FILE_CONTENT_CACHE.clear();
+    GREP_INDEX_CACHE.clear();
     this.fileContentCache.clear();
     this.searchCache.clear();
   }
@@ -278,127 +289,143 @@ export class GitHubClient {
     const files: RepoFile[] = [];
     const maxFiles = 8; // Limit total files loaded
 
+    // Imports resolve against the branch tree and its tsconfig paths, index files included
+    const { entries } = await this.getBlobTree(branch);
+    const resolver = await this.treeResolver(entries);
+
     const loadFile = async (path: string, depth: number): Promise<void> => {
-      if (files.length >= maxFiles) return; // Stop if we have enough files
-      
-      const possiblePaths = [
-        path,
-        `${path}.ts`,
-        `${path}.tsx`,
-        `${path}.js`,
-        `${path}.jsx`,
-      ]; // Removed index file variants to reduce API calls
-
-      for (const p of possiblePaths) {
-        if (loaded.has(p) || files.length >= maxFiles) return;
-
-        try {
-          const file = await this.getFileContent(p, branch);
-          loaded.add(p);
-          files.push(file);
-
-          // Only follow imports for first level and if file is small
-          if (depth < maxDepth && file.content.length < 5000) {
-            const imports = this.parseImports(file.content, p).slice(0, 3); // Limit imports
-            await Promise.allSettled(imports.map(imp => loadFile(imp, depth + 1)));
-          }
-          return;
-        } catch {
-          // File doesn't exist with this extension, try next
+      if (loaded.has(path) || files.length >= maxFiles) return;
+      loaded.add(path);
+
+      try {
+        const file = await this.getFileContent(path, branch);
+        files.push(file);
+
+        // Only follow imports for first level and if file is small
+        if (depth < maxDepth && isModuleSource(path) && file.content.length < 5000) {
+          const imports = extractImports(path, file.content)
+            .map(item => resolver.resolve(item.specifier, path).path)
+            .filter((resolved): resolved is string => Boolean(resolved))
+            .slice(0, 3); // Limit imports
+          await Promise.allSettled(imports.map(imp => loadFile(imp, depth + 1)));
         }
+      } catch {
+        // Unreadable file - skip it
       }
     };
 
-    await Promise.all(entryPaths.slice(0, 3).map(p => loadFile(p, 0))); // Limit entry paths
+    // Entry paths may leave out the extension or name a directory with an index file
+    const paths = new Set(entries.map(entry => entry.path));
+    const entryFiles = entryPaths
+      .slice(0, 3) // Limit entry paths
+      .map(path => modulePathCandidates(path).find(candidate => paths.has(candidate)))
+      .filter((path): path is string => Boolean(path));
+    await Promise.all(entryFiles.map(p => loadFile(p, 0)));
     return files;
   }
 
-  private parseImports(content: string, currentPath: string): string[] {
-    const imports: string[] = [];
-    
-    // Use matchAll for better performance
-    const importMatches = content.matchAll(/import\s+.*\s+from\s+['"]([^'"]+)['"]/g);
-    const requireMatches = content.matchAll(/require\s*\(['"]([^'"]+)['"]\)/g);
-    
-    for (const match of importMatches) {
-      imports.push(this.resolveImportPath(match[1], currentPath));
-    }
-    for (const match of requireMatches) {
-      imports.push(this.resolveImportPath(match[1], currentPath));
+  // --------------------------------------------------------------------------
+  // Grep Search - Search INSIDE file contents
+  // --------------------------------------------------------------------------
+
+  // Line-accurate grep over the branch's tree. Code search only knows the default branch
+  // and returns fragments without line numbers, so blobs are searched directly; the
+  // index is reused across requests and only reloads blobs a new commit changed.
+  async grepSearch(
+    query: string,
+    branch: string = 'main',
+    options: GrepOptions & { fileExtensions?: string[] } = {}
+  ): Promise<GrepResult> {
+    const { fileExtensions, ...grepOptions } = options;
+    if (fileExtensions && fileExtensions.length > 0) {
+      grepOptions.include = [...(grepOptions.include ?? []), ...extensionGlobs(fileExtensions)];
     }
 
-    // Filter out node_modules imports and @/ aliases
-    return imports.filter(i => 
-      (i.startsWith('./') || i.startsWith('../')) && 
-      !i.includes('node_modules')
-    );
+    const index = await this.getGrepIndex(branch);
+    return index.search(query, grepOptions, sha => this.getBlobContent(sha));
   }
 
-  private resolveImportPath(importPath: string, currentPath: string): string {
-    if (importPath.startsWith('./') || importPath.startsWith('../')) {
-      const currentDir = currentPath.split('/').slice(0, -1).join('/');
-      const parts = [...currentDir.split('/'), ...importPath.split('/')];
-      const resolved: string[] = [];
-
-      for (const part of parts) {
-        if (part === '..') resolved.pop();
-        else if (part !== '.' && part !== '') resolved.push(part);
-      }
+  // Files of a branch that contain an identifier as a whole word, read through the grep index
+  async getFilesMentioning(identifier: string, branch: string = 'main', include?: string[]): Promise<Array<{ path: string; content: string }>> {
+    const pattern = `(?<![\\w$])${identifier.replace(/\$/g, '\\$')}(?![\\w$])`;
+    const index = await this.getGrepIndex(branch);
+    const { matches } = await index.search(pattern, { regex: true, include, maxResults: 2000 }, sha => this.getBlobContent(sha));
+    const files = await Promise.all([...new Set(matches.map(match => match.path))].map(async (path) => ({
+      path,
+      content: await index.readFile(path, sha => this.getBlobContent(sha)),
+    })));
+    return files.filter((file): file is { path: string; content: string } => file.content !== null);
+  }
 
-      return resolved.join('/');
-    }
-    return importPath;
+  // Resolves imports against the branch tree and its tsconfig paths, index files included.
+  // extraPaths are files that exist only in a run's staged changes.
+  async getModuleResolver(branch: string = 'main', extraPaths: string[] = []): Promise<ModuleResolver> {
+    const { entries } = await this.getBlobTree(branch);
+    return this.treeResolver(entries, extraPaths);
   }
 
-  // --------------------------------------------------------------------------
-  // Grep Search - Search INSIDE file contents
-  // --------------------------------------------------------------------------
+  private async treeResolver(entries: Array<{ path: string; sha: string }>, extraPaths: string[] = []): Promise<ModuleResolver> {
+    const configs = await Promise.all(entries.filter(entry => isModuleConfig(entry.path)).map(async (entry) => ({
+      path: entry.path,
+      content: await this.getBlobContent(entry.sha).catch(() => ''),
+    })));
+    return new ModuleResolver([...entries.map(entry => entry.path), ...extraPaths], configs);
+  }
 
-  async grepSearch(
-    query: string,
-    branch: string = 'main',
-    options: { maxResults?: number; fileExtensions?: string[] } = {}
-  ): Promise<Array<{ path: string; line: number; content: string }>> {
-    const { maxResults = 30, fileExtensions } = options;
-    const results: Array<{ path: string; line: number; content: string }> = [];
-    const MAX_FILE_SIZE = 100000; // 100KB limit
+  // Import graph of a branch; a new commit only re-parses the blobs it changed
+  async getModuleGraph(branch: string = 'main'): Promise<ModuleGraph> {
+    const graph = getModuleGraph(`${this.owner}/${this.repo}/${branch}`);
+    const { entries } = await this.getBlobTree(branch);
+    await graph.sync(
+      entries.map(entry => ({ path: entry.path, version: entry.sha, size: entry.size })),
+      entry => this.getBlobContent(entry.version)
+    );
+    return graph;
+  }
 
-    try {
-      // Use GitHub's code search API - returns snippets, not full files
-      const searchQuery = fileExtensions
-        ? `${query} repo:${this.owner}/${this.repo} extension:${fileExtensions.join(',')}`
-        : `${query} repo:${this.owner}/${this.repo}`;
-
-      const { data } = await this.octokit.rest.search.code({
-        q: searchQuery,
-        per_page: Math.min(maxResults, 30),
-      });
+  // The branch's grep index, moved to the branch head when it has new commits
+  private async getGrepIndex(branch: string): Promise<GrepIndex> {
+    const cacheKey = `${this.owner}/${this.repo}/${branch}`;
+    let entry = GREP_INDEX_CACHE.get(cacheKey);
+    if (!entry) {
+      entry = { index: new GrepIndex(), timestamp: Date.now() };
+      GREP_INDEX_CACHE.set(cacheKey, entry);
+      removeOldestEntries(GREP_INDEX_CACHE, MAX_GREP_INDEXES);
+    }
+    entry.timestamp = Date.now();
 
-      // GitHub search API returns text_matches with snippets - use those instead of fetching full files
-      for (const item of data.items.slice(0, maxResults)) {
-        const itemWithMatches = item as typeof item & { text_matches?: Array<{ fragment?: string }> };
-        if (itemWithMatches.text_matches && itemWithMatches.text_matches.length > 0) {
-          // Use GitHub's provided snippets
-          itemWithMatches.text_matches.forEach((match, idx) => {
-            if (match.fragment && results.length < maxResults) {
-              results.push({
-                path: item.path,
-                line: idx + 1, // Approximate line number
-                content: match.fragment.trim(),
-              });
-            }
-          });
-        }
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown search error';
-      console.error(`Grep search failed for query "${query}":`, errorMsg);
-      
-      // Return empty results on error rather than throwing
-      return [];
+    const headSha = await this.getBranchSHA(branch);
+    if (entry.index.commitSha !== headSha) {
+      const { entries } = await this.getBlobTree(headSha);
+      entry.index.update(headSha, entries);
     }
+    return entry.index;
+  }
 
-    return results.slice(0, maxResults);
+  // Every file of a branch (or commit) with its blob SHA, skipping dependency and build directories
+  async getBlobTree(ref: string): Promise<{ commitSha: string; entries: Array<{ path: string; sha: string; size?: number }> }> {
+    const commitSha = /^[0-9a-f]{40}$/.test(ref) ? ref : await this.getBranchSHA(ref);
+    const { data } = await this.octokit.rest.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: commitSha,
+      recursive: 'true',
+    });
+    return {
+      commitSha,
+      entries: data.tree
+        .filter(item => item.type === 'blob' && item.path && item.sha && !this.shouldSkipPath(item.path))
+        .map(item => ({ path: item.path!, sha: item.sha!, size: item.size })),
+    };
+  }
+
+  async getBlobContent(sha: string): Promise<string> {
+    const { data } = await this.octokit.rest.git.getBlob({
+      owner: this.owner,
+      repo: this.repo,
+      file_sha: sha,
+    });
+    return Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
   }
 
   // --------------------------------------------------------------------------
@@ -497,67 +524,70 @@ export class GitHubClient {
       branch,
       sha,
     });
-    
-    // Force Railway deployment by triggering repository dispatch event
-    try {
-      await this.octokit.rest.repos.createDispatchEvent({
-        owner: this.owner,
-        repo: this.repo,
-        event_type: 'claude-coder-deploy',
-        client_payload: {
-          branch,
-          path,
-          commit_sha: result.data.commit.sha,
-          message: `Claude Coder: ${message}`,
-        },
-      });
-      console.log(`✅ Triggered Railway deployment for ${path}`);
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown dispatch error';
-      console.warn(`Failed to trigger deployment event for ${path}:`, errorMsg);
-      // Don't fail the whole operation if dispatch fails
-    }
+
+    await this.dispatchDeploy(branch, result.data.commit.sha || '', message, { path });
   }
 
   async applyStrReplace(
     path: string,
     oldStr: string,
     newStr: string,
-    branch: string
-  ): Promise<{ success: boolean; error?: string; additions?: number; deletions?: number }> {
+    branch: string,
+    options: { autoFixWhitespace?: boolean } = {}
+  ): Promise<{ success: boolean; error?: string; note?: string; additions?: number; deletions?: number }> {
     try {
       const file = await this.getFileContent(path, branch, false);
 
-      if (!file.content.includes(oldStr)) {
-        return {
-          success: false,
-          error: `String not found in ${path}. Make sure the string is unique and exact.`,
-        };
-      }
-
-      const occurrences = file.content.split(oldStr).length - 1;
-      if (occurrences > 1) {
-        return {
-          success: false,
-          error: `String found ${occurrences} times in ${path}. It must be unique for safe replacement.`,
-        };
+      // Misses come back with the closest candidate regions and how they differ
+      const replaced = replaceUnique(path, file.content, oldStr, newStr, options);
+      if (!replaced.success || replaced.content === undefined) {
+        return { success: false, error: replaced.error };
       }
 
-      const newContent = file.content.replace(oldStr, newStr);
-      await this.updateFile(path, newContent, `Edit ${path}`, branch, file.sha);
+      await this.updateFile(path, replaced.content, `Edit ${path}`, branch, file.sha);
 
       // Invalidate cache after successful edit
       this.invalidateFileCache(path, branch);
 
-      // Calculate line changes
-      const oldLines = oldStr.split('\n').length;
-      const newLines = newStr.split('\n').length;
+      const { additions, deletions } = createUnifiedDiff(path, file.content, replaced.content);
+      return { success: true, note: replaced.note, additions, deletions };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, error: errorMessage };
+    }
+  }
 
-      return {
-        success: true,
-        additions: Math.max(0, newLines - oldLines) + 1,
-        deletions: Math.max(0, oldLines - newLines) + 1,
-      };
+  // Any number of edits to one or more files as one commit - nothing lands if a hunk does not match
+  async applyPatch(
+    patches: FilePatch[],
+    branch: string
+  ): Promise<{ success: boolean; error?: string; sha?: string; files?: FileChange[]; notes?: string[] }> {
+    try {
+      const headSha = await this.getBranchSHA(branch);
+      const writes = new Map<string, string | null>(); // null deletes
+      const readAtHead = (path: string) => this.getFileContent(path, headSha, false).then(file => file.content, () => null);
+
+      const result = await applyPatchSet(patches, {
+        readFile: async (path) => writes.has(path) ? writes.get(path) ?? null : readAtHead(path),
+        writeFile: async (path, content) => { writes.set(path, content); },
+        deleteFile: async (path) => { writes.set(path, null); },
+        moveFile: async (fromPath, toPath) => {
+          const content = writes.has(fromPath) ? writes.get(fromPath) ?? null : await readAtHead(fromPath);
+          writes.set(fromPath, null);
+          writes.set(toPath, content);
+        },
+      });
+      if (!result.success) return { success: false, error: result.error };
+
+      const commit = await this.commitChangeset(
+        branch,
+        headSha,
+        [...writes].map(([path, content]) => ({ path, content })),
+        formatChangesetMessage(result.files)
+      );
+      return commit.success
+        ? { success: true, sha: commit.sha, files: result.files, notes: result.notes }
+        : { success: false, error: commit.error };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return { success: false, error: errorMessage };
@@ -584,36 +614,195 @@ export class GitHubClient {
       // Invalidate tree cache since we added a new file
       this.clearTreeCache();
 
-      // Force Railway deployment by triggering repository dispatch event
+      await this.dispatchDeploy(branch, result.data.commit.sha || '', `Create ${path}`, { path });
+
+      return {
+        success: true,
+        additions: createUnifiedDiff(path, null, contentStr).additions,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  async deleteFile(path: string, branch: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.getFileContent(path, branch, false);
+    } catch {
+      return { success: false, error: `File ${path} not found on ${branch}` };
+    }
+    const headSha = await this.getBranchSHA(branch);
+    const result = await this.commitChangeset(branch, headSha, [{ path, content: null }], `Delete ${path}`);
+    return { success: result.success, error: result.error };
+  }
+
+  // Delete and create land in one commit, so the file is never missing or duplicated on the branch
+  async moveFile(fromPath: string, toPath: string, branch: string): Promise<{ success: boolean; error?: string }> {
+    let content: string;
+    try {
+      content = (await this.getFileContent(fromPath, branch, false)).content;
+    } catch {
+      return { success: false, error: `File ${fromPath} not found on ${branch}` };
+    }
+    const destinationExists = await this.getFileContent(toPath, branch, false).then(() => true, () => false);
+    if (destinationExists) {
+      return { success: false, error: `File ${toPath} already exists on ${branch}` };
+    }
+    const headSha = await this.getBranchSHA(branch);
+    const result = await this.commitChangeset(
+      branch,
+      headSha,
+      [{ path: fromPath, content: null }, { path: toPath, content }],
+      `Move ${fromPath} to ${toPath}`
+    );
+    return { success: result.success, error: result.error };
+  }
+
+  // --------------------------------------------------------------------------
+  // Changesets - stage a run's edits and land them as one commit
+  // Git Data API: blobs → tree → commit → ref update, then a single deploy dispatch
+  // --------------------------------------------------------------------------
+
+  async getBranchHead(branch: string): Promise<string> {
+    return this.getBranchSHA(branch);
+  }
+
+  // Blob SHA of each path at a commit; null when the path is not a file there
+  async getBlobShas(paths: string[], commitSha: string): Promise<Map<string, string | null>> {
+    const { data } = await this.octokit.rest.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: commitSha,
+      recursive: 'true',
+    });
+    const blobs = new Map(data.tree.filter(item => item.type === 'blob' && item.path && item.sha).map(item => [item.path!, item.sha!]));
+    return new Map(paths.map(path => [path, blobs.get(path) ?? null]));
+  }
+
+  async commitChangeset(
+    branch: string,
+    baseSha: string, // Branch head when the run started
+    files: Array<{ path: string; content: string | null } | { path: string; blobSha: string }>, // null deletes the file; blobSha reuses an existing blob
+    message: string
+  ): Promise<{ success: boolean; sha?: string; url?: string; error?: string; conflicts?: string[] }> {
+    if (files.length === 0) {
+      return { success: false, error: 'Nothing to commit' };
+    }
+
+    try {
+      const headSha = await this.getBranchSHA(branch);
+
+      // The branch moved during the run - fine unless the same files changed upstream. The blobs
+      // are compared tree to tree: a commit comparison lists at most 300 files.
+      if (headSha !== baseSha) {
+        const paths = files.map(f => f.path);
+        const [before, after] = await Promise.all([this.getBlobShas(paths, baseSha), this.getBlobShas(paths, headSha)]);
+        const conflicts = paths.filter(path => before.get(path) !== after.get(path));
+        if (conflicts.length > 0) {
+          return {
+            success: false,
+            conflicts,
+            error: `${branch} moved during the run and ${conflicts.length} of the edited files changed upstream: ${conflicts.join(', ')}`,
+          };
+        }
+      }
+
+      const { data: headCommit } = await this.octokit.rest.git.getCommit({
+        owner: this.owner,
+        repo: this.repo,
+        commit_sha: headSha,
+      });
+
+      // Keep the mode of existing files (e.g. executable scripts)
+      const { data: headTree } = await this.octokit.rest.git.getTree({
+        owner: this.owner,
+        repo: this.repo,
+        tree_sha: headCommit.tree.sha,
+        recursive: 'true',
+      });
+      const modes = new Map(headTree.tree.map(item => [item.path, item.mode]));
+
+      const entries = await Promise.all(files.map(async (file) => {
+        const mode = (modes.get(file.path) as '100644' | '100755' | undefined) ?? '100644';
+        if ('blobSha' in file) {
+          return { path: file.path, mode, type: 'blob' as const, sha: file.blobSha };
+        }
+        if (file.content === null) {
+          return { path: file.path, mode, type: 'blob' as const, sha: null };
+        }
+        const { data: blob } = await this.octokit.rest.git.createBlob({
+          owner: this.owner,
+          repo: this.repo,
+          content: Buffer.from(file.content, 'utf-8').toString('base64'),
+          encoding: 'base64',
+        });
+        return { path: file.path, mode, type: 'blob' as const, sha: blob.sha };
+      }));
+
+      const { data: tree } = await this.octokit.rest.git.createTree({
+        owner: this.owner,
+        repo: this.repo,
+        base_tree: headCommit.tree.sha,
+        tree: entries,
+      });
+
+      const { data: commit } = await this.octokit.rest.git.createCommit({
+        owner: this.owner,
+        repo: this.repo,
+        message,
+        tree: tree.sha,
+        parents: [headSha],
+      });
+
       try {
-        await this.octokit.rest.repos.createDispatchEvent({
+        await this.octokit.rest.git.updateRef({
           owner: this.owner,
           repo: this.repo,
-          event_type: 'claude-coder-deploy',
-          client_payload: {
-            branch,
-            path,
-            commit_sha: result.data.commit.sha,
-            message: `Claude Coder: Create ${path}`,
-          },
+          ref: `heads/${branch}`,
+          sha: commit.sha,
+          force: false,
         });
-        console.log(`✅ Triggered Railway deployment for ${path}`);
       } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown dispatch error';
-        console.warn(`Failed to trigger deployment event for ${path}:`, errorMsg);
-        // Don't fail the whole operation if dispatch fails
+        // Not a fast-forward: someone pushed between our head check and the ref update
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: `${branch} moved while committing - retry the run (${errorMsg})` };
       }
 
-      return {
-        success: true,
-        additions: content.split('\n').length,
-      };
+      this.clearTreeCache();
+      files.forEach(file => this.invalidateFileCache(file.path, branch));
+
+      await this.dispatchDeploy(branch, commit.sha, message.split('\n')[0], { paths: files.map(f => f.path) });
+
+      return { success: true, sha: commit.sha, url: commit.html_url };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return { success: false, error: errorMessage };
     }
   }
 
+  // Force Railway deployment by triggering a repository dispatch event.
+  // Never fails the write that triggered it.
+  private async dispatchDeploy(branch: string, commitSha: string, message: string, payload: Record<string, unknown>): Promise<void> {
+    try {
+      await this.octokit.rest.repos.createDispatchEvent({
+        owner: this.owner,
+        repo: this.repo,
+        event_type: 'claude-coder-deploy',
+        client_payload: {
+          branch,
+          ...payload,
+          commit_sha: commitSha,
+          message: `Claude Coder: ${message}`,
+        },
+      });
+      console.log(`✅ Triggered Railway deployment for ${commitSha.slice(0, 7)}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown dispatch error';
+      console.warn(`Failed to trigger deployment event for ${commitSha.slice(0, 7)}:`, errorMsg);
+    }
+  }
+
   // --------------------------------------------------------------------------
   // Pull Request Operations
   // --------------------------------------------------------------------------
@@ -690,6 +879,22 @@ export class GitHubClient {
 // Utility Functions
 // --------------------------------------------------------------------------
 
+// Commit message for a run's changeset: short subject, request and per-file stats in the body
+export function formatChangesetMessage(changes: FileChange[], request?: string): string {
+  const verbs: Record<FileChange['action'], string> = { create: 'Create', edit: 'Edit', delete: 'Delete', move: 'Move' };
+  const describe = (change: FileChange) => change.fromPath ? `${change.fromPath} to ${change.path}` : change.path;
+  const subject = changes.length === 1
+    ? `${verbs[changes[0].action]} ${describe(changes[0])}`
+    : `Update ${changes.length} files`;
+
+  const requestLine = request?.trim().split('\n')[0].slice(0, 200);
+  const files = changes.map(change =>
+    `- ${change.action} ${change.fromPath ? `${change.fromPath} -> ${change.path}` : change.path}${change.additions || change.deletions ? ` (+${change.additions || 0} -${change.deletions || 0})` : ''}`
+  );
+
+  return [subject, '', ...(requestLine ? [`Request: ${requestLine}`, ''] : []), ...files].join('\n');
+}
+
 export function formatFileTree(tree: RepoTree[], indent: string = ''): string {
   let result = '';
   for (const node of tree) {
@@ -0,0 +1,79 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GrepIndex, compileQuery, formatGrepMatches, grepFiles, pathFilter } from './grep';
+
+test('globs match names anywhere without a slash and whole paths with one', () => {
+  const accept = pathFilter(['*.ts', 'docs/**/*.{md,mdx}'], ['**/*.test.ts']);
+  assert.strictEqual(accept('src/lib/grep.ts'), true);
+  assert.strictEqual(accept('grep.ts'), true);
+  assert.strictEqual(accept('src/lib/grep.test.ts'), false);
+  assert.strictEqual(accept('docs/guide/intro.mdx'), true);
+  assert.strictEqual(accept('docs/intro.md'), true);
+  assert.strictEqual(accept('src/intro.md'), false);
+  assert.strictEqual(accept('src/lib/grep.tsx'), false);
+  assert.throws(() => compileQuery('(unclosed', { regex: true }), /Invalid regex/);
+  assert.strictEqual(compileQuery('a.b()').test('a.b()'), true);
+  assert.strictEqual(compileQuery('a.b()').test('axb()'), false);
+});
+
+test('matches carry real line numbers and merged context', async () => {
+  const files: Record<string, string> = {
+    'src/a.ts': 'import x from "x";\n\nexport function useAuth() {\n  return useAuthState();\n}\n',
+    'src/b.ts': 'const y = 1;\n',
+  };
+  const result = await grepFiles(Object.keys(files), async path => files[path], 'useAuth\\w*\\(', { regex: true, contextLines: 1 });
+  assert.deepStrictEqual(result.matches.map(match => match.line), [3, 4]);
+  assert.strictEqual(result.filesSearched, 2);
+  assert.strictEqual(formatGrepMatches(result.matches), [
+    'src/a.ts-2- ',
+    'src/a.ts:3: export function useAuth() {',
+    'src/a.ts:4:   return useAuthState();',
+    'src/a.ts-5- }',
+  ].join('\n'));
+
+  const capped = await grepFiles(Object.keys(files), async path => files[path], 'useauth', { caseSensitive: false, maxResults: 1 });
+  assert.strictEqual(capped.matches.length, 1);
+  assert.strictEqual(capped.truncated, true);
+});
+
+test('the branch index only loads blobs a new commit changed', async () => {
+  const blobs: Record<string, string> = { sha1: 'alpha\n', sha2: 'beta\n', sha3: 'alpha beta\n' };
+  const loaded: string[] = [];
+  const load = async (sha: string) => {
+    loaded.push(sha);
+    return blobs[sha];
+  };
+
+  const index = new GrepIndex();
+  index.update('commit-1', [{ path: 'a.txt', sha: 'sha1' }, { path: 'b.txt', sha: 'sha2' }, { path: 'logo.png', sha: 'png' }]);
+  assert.deepStrictEqual((await index.search('alpha', {}, load)).matches, [{ path: 'a.txt', line: 1, content: 'alpha' }]);
+  assert.deepStrictEqual(loaded, ['sha1', 'sha2']);
+
+  index.update('commit-2', [{ path: 'a.txt', sha: 'sha1' }, { path: 'b.txt', sha: 'sha3' }]);
+  const result = await index.search('beta', { include: ['b.*'] }, load);
+  assert.deepStrictEqual(result.matches, [{ path: 'b.txt', line: 1, content: 'alpha beta' }]);
+  assert.deepStrictEqual(loaded, ['sha1', 'sha2', 'sha3']);
+  assert.strictEqual(index.size, 2); // sha2 is gone from the branch
+});
+
+test('blobs that fail to load are reported and retried, not cached', async () => {
+  let online = false;
+  const load = async (sha: string) => {
+    if (!online && sha === 'sha2') throw new Error('502 Bad Gateway');
+    return sha === 'sha1' ? 'alpha\n' : 'alpha again\n';
+  };
+
+  const index = new GrepIndex();
+  index.update('commit-1', [{ path: 'a.txt', sha: 'sha1' }, { path: 'b.txt', sha: 'sha2' }]);
+  const partial = await index.search('alpha', {}, load);
+  assert.deepStrictEqual(partial.matches.map(match => match.path), ['a.txt']);
+  assert.strictEqual(partial.filesSearched, 1);
+  assert.strictEqual(partial.truncated, true);
+  await assert.rejects(index.readFile('b.txt', load), /Could not load b\.txt/);
+
+  online = true;
+  const full = await index.search('alpha', {}, load);
+  assert.deepStrictEqual(full.matches.map(match => match.path), ['a.txt', 'b.txt']);
+  assert.strictEqual(full.truncated, false);
+  assert.strictEqual(await index.readFile('b.txt', load), 'alpha again');
+});
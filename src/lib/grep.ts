@@ -0,0 +1,277 @@
+// ============================================================================
+// GREP - Line-accurate content search over file blobs
+// GitHub mode keeps a per-branch index of the recursive tree, keyed by blob SHA,
+// so a new commit only loads the blobs it changed
+// ============================================================================
+
+import { GrepMatch } from '../types';
+
+export interface GrepOptions {
+  regex?: boolean; // Treat the query as a JavaScript regular expression
+  caseSensitive?: boolean; // Default true, like grep
+  include?: string[]; // Globs a path must match one of, e.g. "src/**/*.ts"
+  exclude?: string[]; // Globs that drop a path, e.g. "**/*.test.ts"
+  contextLines?: number; // Lines shown before and after each match
+  maxResults?: number;
+}
+
+export interface GrepResult {
+  matches: GrepMatch[];
+  filesSearched: number;
+  truncated: boolean; // More matches than were returned, or files that could not be searched
+}
+
+// A file in the recursive tree of a commit
+export interface GrepTreeEntry {
+  path: string;
+  sha: string;
+  size?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_CONTEXT_LINES = 10;
+const MAX_LINE_LENGTH = 300; // Longer lines (minified code) are cut in results
+const MAX_BLOB_SIZE = 100000; // 100KB - larger files are not indexed
+const MAX_INDEXED_FILES = 3000;
+const BLOB_CONCURRENCY = 8;
+
+const BINARY_EXTENSIONS = /\.(png|jpe?g|gif|webp|ico|bmp|pdf|zip|gz|tgz|tar|jar|woff2?|ttf|eot|otf|mp[34]|mov|wasm|exe|dll|so|dylib|lock)$/i;
+
+// ----------------------------------------------------------------------------
+// Queries and globs
+// ----------------------------------------------------------------------------
+
+export function compileQuery(query: string, options: Pick<GrepOptions, 'regex' | 'caseSensitive'> = {}): RegExp {
+  if (!query) throw new Error('Search query cannot be empty');
+  const flags = options.caseSensitive === false ? 'i' : '';
+  if (!options.regex) {
+    return new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+  }
+  try {
+    return new RegExp(query, flags);
+  } catch (error) {
+    throw new Error(`Invalid regex "${query}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// ** spans directories, * and ? stay within one, {a,b} picks one. Globs without a
+// slash match the file name anywhere, so "*.ts" means every TypeScript file.
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.trim().replace(/^\.?\//, '');
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(pattern.includes('/') ? `^${source}$` : `(?:^|/)${source}$`);
+}
+
+export function pathFilter(include?: string[], exclude?: string[]): (path: string) => boolean {
+  const included = (include ?? []).filter(Boolean).map(globToRegExp);
+  const excluded = (exclude ?? []).filter(Boolean).map(globToRegExp);
+  return (path) =>
+    (included.length === 0 || included.some(glob => glob.test(path))) &&
+    !excluded.some(glob => glob.test(path));
+}
+
+// "ts,tsx" from the older file_extensions parameter, as include globs
+export function extensionGlobs(extensions?: string[]): string[] {
+  return (extensions ?? []).map(ext => ext.trim().replace(/^\*?\./, '')).filter(Boolean).map(ext => `*.${ext}`);
+}
+
+// ----------------------------------------------------------------------------
+// Matching
+// ----------------------------------------------------------------------------
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line;
+}
+
+export function splitLines(content: string): string[] {
+  const lines = content.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Every matching line of one file, numbered from 1
+export function grepLines(path: string, lines: string[], pattern: RegExp, contextLines = 0, limit = Infinity): GrepMatch[] {
+  const context = Math.max(0, Math.min(contextLines, MAX_CONTEXT_LINES));
+  const matches: GrepMatch[] = [];
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    if (!pattern.test(lines[i])) continue;
+    matches.push({
+      path,
+      line: i + 1,
+      content: clip(lines[i]),
+      ...(context > 0 ? {
+        before: lines.slice(Math.max(0, i - context), i).map(clip),
+        after: lines.slice(i + 1, i + 1 + context).map(clip),
+      } : {}),
+    });
+  }
+  return matches;
+}
+
+// grep -n style: "path:12: match" for matches, "path-11- text" for context,
+// "--" between groups of lines that are not adjacent
+export function formatGrepMatches(matches: GrepMatch[]): string {
+  // Lines to show per file - a match wins over context for the same line
+  const files = new Map<string, Map<number, { text: string; match: boolean }>>();
+  for (const match of matches) {
+    const lines = files.get(match.path) ?? new Map<number, { text: string; match: boolean }>();
+    files.set(match.path, lines);
+    const before = match.before ?? [];
+    before.forEach((text, index) => {
+      const number = match.line - before.length + index;
+      if (!lines.has(number)) lines.set(number, { text, match: false });
+    });
+    lines.set(match.line, { text: match.content, match: true });
+    (match.after ?? []).forEach((text, index) => {
+      if (!lines.has(match.line + 1 + index)) lines.set(match.line + 1 + index, { text, match: false });
+    });
+  }
+
+  const withContext = matches.some(match => match.before || match.after);
+  const out: string[] = [];
+  for (const [path, lines] of files) {
+    let previous = -1;
+    for (const number of [...lines.keys()].sort((a, b) => a - b)) {
+      if (withContext && out.length > 0 && number !== previous + 1) out.push('--');
+      const { text, match } = lines.get(number)!;
+      out.push(match ? `${path}:${number}: ${text}` : `${path}-${number}- ${text}`);
+      previous = number;
+    }
+  }
+  return out.join('\n');
+}
+
+// Search files read through `readFile`; null content (binary, unreadable) is skipped
+export async function grepFiles(
+  paths: string[],
+  readFile: (path: string) => Promise<string | null>,
+  query: string,
+  options: GrepOptions = {}
+): Promise<GrepResult> {
+  const pattern = compileQuery(query, options);
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const accept = pathFilter(options.include, options.exclude);
+  const candidates = paths.filter(path => accept(path) && !BINARY_EXTENSIONS.test(path));
+
+  const matches: GrepMatch[] = [];
+  let filesSearched = 0;
+  let truncated = false;
+  for (const path of candidates) {
+    if (matches.length >= maxResults) {
+      truncated = true;
+      break;
+    }
+    const content = await readFile(path);
+    if (content === null || content.includes('\0')) continue;
+    filesSearched++;
+    const found = grepLines(path, splitLines(content), pattern, options.contextLines, maxResults - matches.length + 1);
+    if (matches.length + found.length > maxResults) truncated = true;
+    matches.push(...found.slice(0, maxResults - matches.length));
+  }
+  return { matches, filesSearched, truncated };
+}
+
+// ----------------------------------------------------------------------------
+// Per-branch index
+// ----------------------------------------------------------------------------
+
+// The files of one branch at one commit. Blob contents are kept by SHA, so moving to a
+// newer commit only loads the blobs that changed; a blob is loaded the first time a
+// search needs it.
+export class GrepIndex {
+  commitSha = '';
+  private entries: GrepTreeEntry[] = [];
+  private blobs = new Map<string, string[] | null>(); // null: binary or too large
+
+  // Point the index at another commit of the branch, dropping blobs it no longer has
+  update(commitSha: string, entries: GrepTreeEntry[]): void {
+    this.commitSha = commitSha;
+    this.entries = entries.filter(entry => !BINARY_EXTENSIONS.test(entry.path));
+    const live = new Set(this.entries.map(entry => entry.sha));
+    for (const sha of this.blobs.keys()) {
+      if (!live.has(sha)) this.blobs.delete(sha);
+    }
+  }
+
+  get size(): number {
+    return this.blobs.size;
+  }
+
+  async search(query: string, options: GrepOptions, loadBlob: (sha: string) => Promise<string>): Promise<GrepResult> {
+    const pattern = compileQuery(query, options);
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const accept = pathFilter(options.include, options.exclude);
+    const candidates = this.entries.filter(entry => accept(entry.path) && (entry.size ?? 0) <= MAX_BLOB_SIZE);
+    const searchable = candidates.slice(0, MAX_INDEXED_FILES);
+
+    const failed = await this.load(searchable, loadBlob);
+
+    const matches: GrepMatch[] = [];
+    let truncated = candidates.length > searchable.length || searchable.some(entry => failed.has(entry.sha));
+    let filesSearched = 0;
+    for (const entry of searchable) {
+      const lines = this.blobs.get(entry.sha);
+      if (!lines) continue;
+      filesSearched++;
+      const found = grepLines(entry.path, lines, pattern, options.contextLines, maxResults - matches.length + 1);
+      if (matches.length + found.length > maxResults) {
+        matches.push(...found.slice(0, maxResults - matches.length));
+        truncated = true;
+        break;
+      }
+      matches.push(...found);
+    }
+    return { matches, filesSearched, truncated };
+  }
+
+  // One file at the index's commit, or null when the tree has no such (text) file.
+  // Throws when the blob cannot be fetched, so a failure never reads as a missing file.
+  async readFile(path: string, loadBlob: (sha: string) => Promise<string>): Promise<string | null> {
+    const entry = this.entries.find(candidate => candidate.path === path);
+    if (!entry) return null;
+    if ((await this.load([entry], loadBlob)).size > 0) {
+      throw new Error(`Could not load ${path} at ${this.commitSha.slice(0, 7)}`);
+    }
+    return this.blobs.get(entry.sha)?.join('\n') ?? null;
+  }
+
+  // Returns the SHAs that could not be fetched - they stay out of the cache, so the next call retries them
+  private async load(entries: GrepTreeEntry[], loadBlob: (sha: string) => Promise<string>): Promise<Set<string>> {
+    const failed = new Set<string>();
+    const missing = [...new Set(entries.map(entry => entry.sha).filter(sha => !this.blobs.has(sha)))];
+    for (let i = 0; i < missing.length; i += BLOB_CONCURRENCY) {
+      await Promise.all(missing.slice(i, i + BLOB_CONCURRENCY).map(async (sha) => {
+        try {
+          const content = await loadBlob(sha);
+          this.blobs.set(sha, content.includes('\0') ? null : splitLines(content));
+        } catch {
+          failed.add(sha);
+        }
+      }));
+    }
+    return failed;
+  }
+}
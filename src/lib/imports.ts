@@ -0,0 +1,17 @@
+// ============================================================================
+// IMPORTS - The files a resolved module specifier may name
+// ============================================================================
+
+// Extensions tried, in order, for a specifier written without one
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'];
+
+// Files a resolved specifier may name: itself, with an extension, or a directory's index
+export function modulePathCandidates(resolved: string): string[] {
+  // "./utils.js" in TypeScript ESM code names utils.ts
+  const stem = resolved.replace(/\.(js|jsx|mjs|cjs)$/, '');
+  return [
+    resolved,
+    ...MODULE_EXTENSIONS.map(ext => `${stem}${ext}`),
+    ...MODULE_EXTENSIONS.map(ext => `${resolved}/index${ext}`),
+  ];
+}
@@ -0,0 +1,64 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { LoopAnalyzer, normalizeToolCall } from './loopAnalysis';
+
+const read = (path: string, start?: number, end?: number) => ({
+  name: 'read_file',
+  input: { path, ...(start ? { start_line: start } : {}), ...(end ? { end_line: end } : {}) },
+});
+
+test('new files and edits count as progress', () => {
+  const analyzer = new LoopAnalyzer();
+  assert.strictEqual(analyzer.analyzeRound([read('src/a.ts')], ['1: const a = 1;']).action, 'continue');
+
+  const edit = analyzer.analyzeRound(
+    [{ name: 'str_replace', input: { path: 'src/a.ts', old_str: 'a = 1', new_str: 'a = 2' } }],
+    ['✓ Replaced in src/a.ts']
+  );
+  assert.strictEqual(edit.progress.successfulEdits, 1);
+  assert.strictEqual(edit.stalledRounds, 0);
+});
+
+test('shifted read ranges of the same lines are repeats', () => {
+  const analyzer = new LoopAnalyzer();
+  analyzer.analyzeRound([read('src/a.ts', 1, 100)], ['...']);
+  const shifted = analyzer.analyzeRound([read('src/a.ts', 5, 95)], ['...']);
+  assert.strictEqual(shifted.progress.repeatedActions, 1);
+  assert.ok(shifted.progress.score <= 0);
+
+  const further = analyzer.analyzeRound([read('src/a.ts', 200, 260)], ['...']);
+  assert.strictEqual(further.progress.newActions, 1);
+});
+
+test('whitespace variants of a failing old_str escalate hint, replan, stop', () => {
+  const analyzer = new LoopAnalyzer({ hintAfter: 2, replanAfter: 3, stopAfter: 4 });
+  const attempt = (oldStr: string) => analyzer.analyzeRound(
+    [{ name: 'str_replace', input: { path: 'src/a.ts', old_str: oldStr, new_str: 'x' } }],
+    ['Error: old_str not found in src/a.ts']
+  );
+
+  const actions = [
+    attempt('if (a) {\n  return;\n}'),
+    attempt('if (a) {\n    return;\n}'),
+    attempt('if (a)  {\n\treturn;\n}'),
+    attempt('if (a) { return; }'),
+  ].map(d => d.action);
+
+  assert.deepStrictEqual(actions, ['continue', 'hint', 'replan', 'stop']);
+});
+
+test('progress resets the escalation', () => {
+  const analyzer = new LoopAnalyzer({ hintAfter: 1 });
+  const search = { name: 'grep_search', input: { query: 'useAuth' } };
+  analyzer.analyzeRound([search], ['src/auth.ts:3']);
+  assert.strictEqual(analyzer.analyzeRound([search], ['src/auth.ts:3']).action, 'hint');
+  assert.strictEqual(analyzer.analyzeRound([read('src/auth.ts')], ['...']).action, 'continue');
+  assert.strictEqual(analyzer.analyzeRound([search], ['src/auth.ts:3']).action, 'hint');
+});
+
+test('normalized keys ignore whitespace and case in queries', () => {
+  assert.strictEqual(
+    normalizeToolCall({ name: 'search_files', input: { query: ' Auth  Hook ' } }),
+    normalizeToolCall({ name: 'search_files', input: { query: 'auth hook' } })
+  );
+});
@@ -0,0 +1,258 @@
+// ============================================================================
+// LOOP ANALYSIS - Score each agentic round for progress and escalate stalls
+// Catches near-repeats (shifted read ranges, whitespace variants of old_str)
+// that a byte-identical signature check misses
+// ============================================================================
+
+import { isFailedToolResult } from './modelRouter';
+import { LoopEscalation } from '../types';
+
+export type LoopAction = 'continue' | LoopEscalation;
+
+export interface LoopToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface RoundProgress {
+  score: number;
+  newFiles: number; // Files read or created for the first time
+  successfulEdits: number;
+  newActions: number; // Calls that could yield information not seen before
+  repeatedActions: number; // Same action as an earlier round, modulo ranges and whitespace
+  failures: number;
+  repeatedFailures: number; // Same failing action as an earlier round
+}
+
+export interface LoopDecision {
+  action: LoopAction;
+  reason: string;
+  stalledRounds: number;
+  progress: RoundProgress;
+}
+
+export interface LoopAnalyzerOptions {
+  seenFiles?: Iterable<string>; // Files already known before the run
+  hintAfter?: number; // Stalled rounds before each escalation step
+  replanAfter?: number;
+  stopAfter?: number;
+}
+
+const EDIT_TOOLS = new Set(['str_replace', 'create_file', 'apply_patch', 'delete_file', 'move_file', 'rename_symbol_across_files']);
+const WHOLE_FILE = Number.MAX_SAFE_INTEGER;
+const MIN_NEW_LINES_FRACTION = 0.25; // A range read is new information only if enough of it was unread
+
+type LineRange = [number, number];
+
+function normalizePath(value: unknown): string {
+  return typeof value === 'string' ? value.trim().replace(/^\.?\/+/, '') : '';
+}
+
+// Collapse whitespace so re-indented or re-wrapped attempts count as the same text
+function normalizeText(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+}
+
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+// Identity of a call for repeat detection; read_file ranges are handled separately
+export function normalizeToolCall(call: LoopToolCall): string {
+  const { name, input } = call;
+  switch (name) {
+    case 'read_file':
+      return `read_file:${normalizePath(input.path)}`;
+    case 'str_replace':
+      return `str_replace:${normalizePath(input.path)}:${normalizeText(input.old_str)}→${normalizeText(input.new_str)}`;
+    case 'create_file':
+      return `create_file:${normalizePath(input.path)}:${normalizeText(input.content)}`;
+    case 'grep_search': {
+      // Different filters or regex flags are different searches
+      const { query, ...options } = input;
+      return `grep_search:${normalizeText(query).toLowerCase()}:${stableJson(options)}`;
+    }
+    case 'search_files':
+    case 'web_search':
+      return `${name}:${normalizeText(input.query).toLowerCase()}:${stableJson(input.file_extensions ?? null)}`;
+    case 'run_command':
+      return `run_command:${normalizeText(input.command)}`;
+    default:
+      return `${name}:${stableJson(input)}`;
+  }
+}
+
+function readRange(input: Record<string, unknown>): LineRange {
+  const start = Number(input.start_line);
+  const end = Number(input.end_line);
+  if (!Number.isFinite(start) && !Number.isFinite(end)) return [1, WHOLE_FILE];
+  const from = Number.isFinite(start) && start > 0 ? Math.floor(start) : 1;
+  const to = Number.isFinite(end) && end >= from ? Math.floor(end) : WHOLE_FILE;
+  return [from, to];
+}
+
+function uncoveredLines(range: LineRange, covered: LineRange[]): number {
+  let uncovered = range[1] - range[0] + 1;
+  for (const [from, to] of covered) {
+    const overlap = Math.min(range[1], to) - Math.max(range[0], from) + 1;
+    if (overlap > 0) uncovered -= overlap;
+  }
+  return Math.max(0, uncovered);
+}
+
+export class LoopAnalyzer {
+  private seenFiles: Set<string>;
+  private seenActions = new Set<string>();
+  private failedActions = new Set<string>();
+  private readCoverage = new Map<string, LineRange[]>();
+  private stalledRounds = 0;
+  private escalation: LoopAction = 'continue';
+  private hintAfter: number;
+  private replanAfter: number;
+  private stopAfter: number;
+
+  constructor(options: LoopAnalyzerOptions = {}) {
+    this.seenFiles = new Set([...(options.seenFiles ?? [])].map(normalizePath));
+    this.hintAfter = options.hintAfter ?? 2;
+    this.replanAfter = options.replanAfter ?? 3;
+    this.stopAfter = options.stopAfter ?? 5;
+  }
+
+  // Score a finished round. results[i] is the tool result for calls[i].
+  analyzeRound(calls: LoopToolCall[], results: string[]): LoopDecision {
+    const progress: RoundProgress = {
+      score: 0,
+      newFiles: 0,
+      successfulEdits: 0,
+      newActions: 0,
+      repeatedActions: 0,
+      failures: 0,
+      repeatedFailures: 0,
+    };
+    const repeatedKeys: string[] = [];
+
+    calls.forEach((call, index) => {
+      const result = results[index] ?? '';
+      const failed = isFailedToolResult(result);
+      const key = normalizeToolCall(call);
+      const path = normalizePath(call.input.path);
+
+      if (path && (call.name === 'read_file' || EDIT_TOOLS.has(call.name)) && !failed && !this.seenFiles.has(path)) {
+        this.seenFiles.add(path);
+        progress.newFiles++;
+      }
+
+      if (call.name === 'read_file' && !failed) {
+        // Overlapping ranges of a file already read are repeats, whatever the exact numbers
+        const range = readRange(call.input);
+        const covered = this.readCoverage.get(path) ?? [];
+        const fresh = uncoveredLines(range, covered);
+        const requested = range[1] - range[0] + 1;
+        if (covered.length === 0 || fresh / requested >= MIN_NEW_LINES_FRACTION) {
+          progress.newActions++;
+        } else {
+          progress.repeatedActions++;
+          repeatedKeys.push(key);
+        }
+        covered.push(range);
+        this.readCoverage.set(path, covered);
+      } else if (this.seenActions.has(key)) {
+        progress.repeatedActions++;
+        repeatedKeys.push(key);
+      } else {
+        progress.newActions++;
+      }
+      this.seenActions.add(key);
+
+      if (failed) {
+        progress.failures++;
+        // A failing str_replace is the same failure whatever new_str was tried
+        const failureKey = call.name === 'str_replace'
+          ? `str_replace:${path}:${normalizeText(call.input.old_str)}`
+          : key;
+        if (this.failedActions.has(failureKey)) progress.repeatedFailures++;
+        this.failedActions.add(failureKey);
+      } else if (EDIT_TOOLS.has(call.name)) {
+        progress.successfulEdits++;
+        // The file changed, so earlier reads and failures no longer describe it
+        this.readCoverage.delete(path);
+        for (const failure of this.failedActions) {
+          if (failure.startsWith(`str_replace:${path}:`)) this.failedActions.delete(failure);
+        }
+      }
+    });
+
+    progress.score = 2 * progress.newFiles
+      + 3 * progress.successfulEdits
+      + progress.newActions
+      - progress.repeatedActions
+      - progress.failures
+      - 2 * progress.repeatedFailures;
+
+    if (progress.score > 0) {
+      this.stalledRounds = 0;
+      this.escalation = 'continue';
+      return { action: 'continue', reason: 'Making progress', stalledRounds: 0, progress };
+    }
+
+    this.stalledRounds++;
+    const reason = describeStall(progress, repeatedKeys, this.stalledRounds);
+    const next: LoopAction = this.stalledRounds >= this.stopAfter
+      ? 'stop'
+      : this.stalledRounds >= this.replanAfter
+        ? 'replan'
+        : this.stalledRounds >= this.hintAfter ? 'hint' : 'continue';
+
+    // Each escalation step fires once; the level only drops after a productive round
+    const action = next !== 'continue' && next !== this.escalation ? next : 'continue';
+    if (action !== 'continue') this.escalation = action;
+    return { action, reason, stalledRounds: this.stalledRounds, progress };
+  }
+}
+
+function describeStall(progress: RoundProgress, repeatedKeys: string[], stalledRounds: number): string {
+  const parts: string[] = [];
+  if (progress.repeatedFailures > 0) parts.push(`${progress.repeatedFailures} failure(s) repeated`);
+  else if (progress.failures > 0) parts.push(`${progress.failures} tool call(s) failed`);
+  if (progress.repeatedActions > 0) {
+    const example = repeatedKeys[0]?.split(':').slice(0, 2).join(' ');
+    parts.push(`${progress.repeatedActions} repeated action(s)${example ? ` (e.g. ${example})` : ''}`);
+  }
+  if (parts.length === 0) parts.push('no new files, edits or information');
+  return `No progress for ${stalledRounds} round(s): ${parts.join(', ')}`;
+}
+
+// ----------------------------------------------------------------------------
+// Messages injected into the conversation at each escalation step
+// ----------------------------------------------------------------------------
+
+export function formatLoopHint(decision: LoopDecision): string {
+  return `[Progress check] ${decision.reason}. Repeating the same reads or retrying the same edit will not help. Step back: if str_replace keeps failing, read the exact current lines first and copy old_str verbatim; if you keep searching, act on what you have already found.`;
+}
+
+export function formatReplanInstruction(decision: LoopDecision): string {
+  return `[Re-plan required] ${decision.reason}. Before calling any more tools, write a short new plan: what you have learned, why the previous approach failed, and the different approach you will take now. Then follow it.`;
+}
+
+export function formatStopSummary(
+  decision: LoopDecision,
+  run: { editedFiles: string[]; seenFiles: string[]; lastErrors: string[] }
+): string {
+  const lines = [`⏹️ Stopped: no progress was being made. ${decision.reason}.`];
+  lines.push(run.editedFiles.length > 0
+    ? `Files changed: ${run.editedFiles.join(', ')}`
+    : 'No files were changed.');
+  if (run.seenFiles.length > 0) {
+    lines.push(`Files examined: ${run.seenFiles.slice(0, 15).join(', ')}${run.seenFiles.length > 15 ? ` and ${run.seenFiles.length - 15} more` : ''}`);
+  }
+  if (run.lastErrors.length > 0) {
+    lines.push(`Last errors:\n${run.lastErrors.map(error => `- ${error.split('\n')[0].slice(0, 200)}`).join('\n')}`);
+  }
+  lines.push('Try rephrasing the request, pointing to the relevant file, or splitting the task into smaller steps.');
+  return lines.join('\n');
+}
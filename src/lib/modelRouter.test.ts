@@ -0,0 +1,57 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { addModelCost, isFailedToolResult, routeModel } from './modelRouter';
+import { ModelType } from '../types';
+
+const settings = {
+  model: 'claude-sonnet-4-5-20250929' as const,
+  modelRouting: {
+    mode: 'auto' as const,
+    exploreModel: 'claude-haiku-4-5-20251001' as const,
+    editModel: 'claude-sonnet-4-5-20250929' as const,
+    recoveryModel: 'claude-opus-4-5-20251101' as const,
+  },
+};
+
+const base = { round: 1, hasWorkspace: true, previousTools: [], previousErrors: 0, stuck: false };
+
+test('routing off or without a workspace keeps the configured model', () => {
+  const off = routeModel({ ...settings, modelRouting: { ...settings.modelRouting, mode: 'off' } }, { ...base, round: 0 });
+  assert.strictEqual(off.model, settings.model);
+  assert.strictEqual(off.phase, undefined);
+
+  assert.strictEqual(routeModel(settings, { ...base, round: 0, hasWorkspace: false }).model, settings.model);
+});
+
+test('rounds are routed by phase', () => {
+  assert.deepStrictEqual(
+    [
+      routeModel(settings, { ...base, round: 0 }).phase,
+      routeModel(settings, { ...base, previousTools: ['grep_search', 'search_files'] }).phase,
+      routeModel(settings, { ...base, previousTools: ['grep_search', 'read_file'] }).phase,
+      routeModel(settings, { ...base, previousTools: ['str_replace'], previousErrors: 1 }).phase,
+      routeModel(settings, { ...base, previousTools: ['read_file'], stuck: true }).phase,
+    ],
+    ['explore', 'explore', 'edit', 'recovery', 'recovery']
+  );
+  assert.strictEqual(routeModel(settings, { ...base, round: 0 }).model, 'claude-haiku-4-5-20251001');
+  assert.strictEqual(routeModel(settings, { ...base, stuck: true }).model, 'claude-opus-4-5-20251101');
+});
+
+test('models without pricing fall back to the configured model', () => {
+  const routing = { ...settings.modelRouting, exploreModel: 'claude-unknown' as ModelType };
+  assert.strictEqual(routeModel({ ...settings, modelRouting: routing }, { ...base, round: 0 }).model, settings.model);
+});
+
+test('failed results and per-model costs', () => {
+  assert.ok(isFailedToolResult('Error: not found'));
+  assert.ok(isFailedToolResult('$ npm test\n\nfail\nExit code: 1'));
+  assert.ok(!isFailedToolResult('$ npm test\n\nok\nExit code: 0'));
+
+  const costs: Partial<Record<ModelType, number>> = {};
+  addModelCost(costs, 'claude-haiku-4-5-20251001', 0.01);
+  addModelCost(costs, 'claude-haiku-4-5-20251001', 0.02);
+  addModelCost(costs, 'claude-opus-4-5-20251101', 0);
+  assert.deepStrictEqual(Object.keys(costs), ['claude-haiku-4-5-20251001']);
+  assert.ok(Math.abs((costs['claude-haiku-4-5-20251001'] ?? 0) - 0.03) < 1e-9);
+});
@@ -0,0 +1,73 @@
+// ============================================================================
+// MODEL ROUTER - Pick the model for each agentic round
+// Cheap models explore, the edit model changes code, the strongest recovers
+// ============================================================================
+
+import { DEFAULT_SETTINGS, ModelRoutingSettings, ModelType, MODEL_PRICING, RoutingPhase, Settings } from '../types';
+
+// Tools that only locate code or gather outside information
+const EXPLORE_TOOLS = new Set(['search_files', 'grep_search', 'find_definition', 'find_references', 'list_symbols', 'dependency_graph', 'web_search', 'web_fetch', 'update_plan']);
+
+export interface RoutingInput {
+  round: number; // 0-based
+  hasWorkspace: boolean; // GitHub repo or local path connected
+  previousTools: string[]; // Tool names requested in the previous round
+  previousErrors: number; // Failed tool results in the previous round
+  stuck: boolean; // The previous round was nudged for repeating itself
+}
+
+export interface RoutingDecision {
+  model: ModelType;
+  phase?: RoutingPhase; // Unset when routing is off
+  reason: string;
+}
+
+export function isKnownModel(model: unknown): model is ModelType {
+  return typeof model === 'string' && Object.prototype.hasOwnProperty.call(MODEL_PRICING, model);
+}
+
+// Fill in fields missing from settings saved before routing existed
+export function resolveModelRouting(routing?: Partial<ModelRoutingSettings>): ModelRoutingSettings {
+  return { ...DEFAULT_SETTINGS.modelRouting, ...routing };
+}
+
+// Same convention as the UI: tool results starting with Error or ✗ failed
+export function isFailedToolResult(result: string): boolean {
+  return /^(Error|✗)/.test(result) || /\nExit code: (?!0\b)\S+/.test(result);
+}
+
+export function routeModel(settings: Pick<Settings, 'model' | 'modelRouting'>, input: RoutingInput): RoutingDecision {
+  const routing = resolveModelRouting(settings.modelRouting);
+  if (routing.mode !== 'auto') {
+    return { model: settings.model, reason: 'Routing is off' };
+  }
+  if (!input.hasWorkspace) {
+    return { model: settings.model, reason: 'No workspace - plain chat' };
+  }
+
+  // Only models with known pricing may be routed to, so cost tracking stays exact
+  const pick = (model: ModelType) => isKnownModel(model) ? model : settings.model;
+
+  if (input.stuck || input.previousErrors > 0) {
+    return {
+      model: pick(routing.recoveryModel),
+      phase: 'recovery',
+      reason: input.stuck ? 'Previous round repeated itself' : `${input.previousErrors} tool call(s) failed last round`,
+    };
+  }
+
+  if (input.round === 0) {
+    return { model: pick(routing.exploreModel), phase: 'explore', reason: 'First round - locating code' };
+  }
+
+  if (input.previousTools.length > 0 && input.previousTools.every(name => EXPLORE_TOOLS.has(name))) {
+    return { model: pick(routing.exploreModel), phase: 'explore', reason: 'Previous round only searched' };
+  }
+
+  return { model: pick(routing.editModel), phase: 'edit', reason: 'Reading or editing code' };
+}
+
+export function addModelCost(costByModel: Partial<Record<ModelType, number>>, model: ModelType, cost: number): void {
+  if (!cost) return;
+  costByModel[model] = (costByModel[model] ?? 0) + cost;
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { ModuleGraph, ModuleResolver, extractImports } from './moduleGraph';
+
+test('every import form is extracted with its line', () => {
+  const imports = extractImports('src/app.ts', [
+    "import React from 'react';",
+    "import type { User } from './types';",
+    "import './styles.css';",
+    "export * from './utils';",
+    "const settings = await import('./settings');",
+    "const legacy = require('../legacy');",
+    "type Config = typeof import('./config');",
+  ].join('\n'));
+  assert.deepStrictEqual(
+    imports.map(item => `${item.line} ${item.kind} ${item.specifier}`),
+    ['1 import react', '2 type ./types', '3 side-effect ./styles.css', '4 export ./utils', '5 dynamic ./settings', '6 require ../legacy', '7 type ./config']
+  );
+});
+
+test('specifiers resolve through tsconfig paths, baseUrl and index files', () => {
+  const files = ['src/lib/a.ts', 'src/lib/utils/index.ts', 'src/types.d.ts', 'packages/ui/src/button.tsx', 'packages/ui/tsconfig.json', 'tsconfig.json', 'tsconfig.base.json'];
+  const resolver = new ModuleResolver(files, [
+    { path: 'tsconfig.base.json', content: '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }' },
+    // Comments and trailing commas are allowed, as in TypeScript
+    { path: 'tsconfig.json', content: '{ "extends": "./tsconfig.base", /* aliases */ "compilerOptions": { "strict": true, }, }' },
+    { path: 'packages/ui/tsconfig.json', content: '{ "compilerOptions": { "baseUrl": "src" } }' },
+  ]);
+  assert.deepStrictEqual(resolver.resolve('@/lib/utils', 'src/lib/a.ts'), { path: 'src/lib/utils/index.ts' });
+  assert.deepStrictEqual(resolver.resolve('./utils/index.js', 'src/lib/a.ts'), { path: 'src/lib/utils/index.ts' });
+  assert.deepStrictEqual(resolver.resolve('button', 'packages/ui/src/button.tsx'), { path: 'packages/ui/src/button.tsx' });
+  assert.deepStrictEqual(resolver.resolve('@tanstack/query/core', 'src/lib/a.ts'), { external: '@tanstack/query' });
+  assert.deepStrictEqual(resolver.resolve('./missing', 'src/lib/a.ts'), {});
+  assert.deepStrictEqual(resolver.resolve('@/lib/missing', 'src/lib/a.ts'), {});
+});
+
+test('transitive dependents are found nearest first and follow later edits', () => {
+  const graph = new ModuleGraph();
+  graph.updateFile('tsconfig.json', '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }');
+  graph.updateFile('src/types.ts', 'export type Id = string;\n');
+  graph.updateFile('src/db.ts', "import type { Id } from './types';\nexport const find = (id: Id) => id;\n");
+  graph.updateFile('src/api.ts', "export * from '@/db';\n");
+  graph.updateFile('src/page.tsx', "const api = () => import('./api');\n");
+  graph.updateFile('src/other.ts', 'export const x = 1;\n');
+
+  assert.deepStrictEqual(graph.transitiveDependents(['src/types.ts']), [
+    { path: 'src/db.ts', depth: 1, via: 'src/types.ts' },
+    { path: 'src/api.ts', depth: 2, via: 'src/db.ts' },
+    { path: 'src/page.tsx', depth: 3, via: 'src/api.ts' },
+  ]);
+  assert.deepStrictEqual(graph.transitiveDependents(['src/types.ts'], 1).map(file => file.path), ['src/db.ts']);
+  assert.deepStrictEqual(graph.dependencies('src/api.ts').map(edge => [edge.to, edge.kind]), [['src/db.ts', 'export']]);
+
+  graph.updateFile('src/other.ts', "import { find } from './db';\n");
+  graph.removeFile('src/api.ts');
+  assert.deepStrictEqual(graph.transitiveDependents(['src/db.ts']).map(file => file.path), ['src/other.ts']);
+});
+
+test('edits layered on a clone leave the shared graph untouched', () => {
+  const shared = new ModuleGraph();
+  shared.updateFile('src/a.ts', "import './b';\n", 'sha-a');
+  shared.updateFile('src/b.ts', 'export {};\n', 'sha-b');
+
+  const layered = shared.clone();
+  layered.updateFile('src/c.ts', "import './b';\n", 'staged');
+  layered.removeFile('src/a.ts');
+  assert.deepStrictEqual(layered.transitiveDependents(['src/b.ts']).map(file => file.path), ['src/c.ts']);
+  assert.deepStrictEqual(shared.transitiveDependents(['src/b.ts']).map(file => file.path), ['src/a.ts']);
+  assert.strictEqual(shared.has('src/c.ts'), false);
+});
@@ -0,0 +1,443 @@
+// ============================================================================
+// MODULE GRAPH - Which file imports which, for dependency_graph and impact analysis
+// Every import form is followed (static, type-only, re-exports, dynamic import(),
+// require) and specifiers resolve like TypeScript does: relative paths, tsconfig
+// paths and baseUrl, extensions and index files
+// ============================================================================
+
+import path from 'path';
+import ts from 'typescript';
+import { modulePathCandidates } from './imports';
+
+export type ImportKind = 'import' | 'type' | 'side-effect' | 'export' | 'dynamic' | 'require';
+
+export interface ModuleImport {
+  specifier: string;
+  kind: ImportKind;
+  line: number;
+}
+
+export interface ModuleEdge extends ModuleImport {
+  from: string;
+  to?: string; // Unset when the import does not resolve to a file of the repository
+  external?: string; // Package name of a bare import, e.g. "react" or "@tanstack/query"
+}
+
+// A file reached by walking the graph from a starting file
+export interface ReachedFile {
+  path: string;
+  depth: number; // 1 for direct imports (or importers)
+  via: string; // The file it was reached from
+}
+
+// A file in the listing of a workspace or branch; version changes when its content does
+export interface GraphEntry {
+  path: string;
+  version: string;
+  size?: number;
+}
+
+const MODULE_SOURCE = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/i;
+const MODULE_CONFIG = /(^|\/)[tj]sconfig(\.[\w-]+)?\.json$/;
+const MAX_GRAPH_FILES = 10000;
+const MAX_PARSED_SIZE = 200000; // 200KB - larger files are usually generated or minified
+const LOAD_CONCURRENCY = 8;
+const MAX_LISTED = 100;
+
+export function isModuleSource(filePath: string): boolean {
+  return MODULE_SOURCE.test(filePath) && !filePath.endsWith('.d.ts');
+}
+
+export function isModuleConfig(filePath: string): boolean {
+  return MODULE_CONFIG.test(filePath);
+}
+
+// ----------------------------------------------------------------------------
+// Imports
+// ----------------------------------------------------------------------------
+
+function scriptKind(filePath: string): ts.ScriptKind {
+  if (/\.tsx$/i.test(filePath)) return ts.ScriptKind.TSX;
+  if (/\.jsx$/i.test(filePath)) return ts.ScriptKind.JSX;
+  if (/\.[mc]?js$/i.test(filePath)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function literalText(node: ts.Node | undefined): string | undefined {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+}
+
+// Every module a file names, in source order
+export function extractImports(filePath: string, content: string): ModuleImport[] {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind(filePath));
+  const imports: ModuleImport[] = [];
+  const add = (node: ts.Node, kind: ImportKind) => {
+    const specifier = literalText(node);
+    if (!specifier) return;
+    imports.push({ specifier, kind, line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1 });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      add(node.moduleSpecifier, !node.importClause ? 'side-effect' : node.importClause.isTypeOnly ? 'type' : 'import');
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      add(node.moduleSpecifier, node.isTypeOnly ? 'type' : 'export');
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      add(node.moduleReference.expression, node.isTypeOnly ? 'type' : 'require');
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node.argument.literal, 'type'); // typeof import('./config')
+    } else if (ts.isCallExpression(node) && node.arguments.length > 0) {
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        add(node.arguments[0], 'dynamic');
+      } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+        add(node.arguments[0], 'require');
+      }
+    }
+    node.forEachChild(visit);
+  };
+  visit(sourceFile);
+  return imports;
+}
+
+// ----------------------------------------------------------------------------
+// Resolution
+// ----------------------------------------------------------------------------
+
+interface ModuleOptions {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  pathsDir?: string; // Directory of the config that set paths - their base without a baseUrl
+}
+
+function dirname(filePath: string): string {
+  const slash = filePath.lastIndexOf('/');
+  return slash === -1 ? '' : filePath.slice(0, slash);
+}
+
+function joinPath(dir: string, relative: string): string {
+  const joined = path.posix.normalize(dir ? `${dir}/${relative}` : relative).replace(/\/$/, '');
+  return joined === '.' ? '' : joined.replace(/^\.\//, '');
+}
+
+function packageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+// The targets of the paths pattern matching specifier, with the wildcard substituted.
+// An exact pattern wins, then the one with the longest prefix, as in TypeScript.
+function matchPaths(paths: Record<string, string[]>, specifier: string): { prefix: number; targets: string[] } | null {
+  let best: { prefix: number; targets: string[] } | null = null;
+  for (const [pattern, targets] of Object.entries(paths)) {
+    if (!Array.isArray(targets)) continue;
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      if (pattern === specifier) return { prefix: pattern.length, targets };
+      continue;
+    }
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (specifier.length < prefix.length + suffix.length || !specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue;
+    if (best && best.prefix >= prefix.length) continue;
+    const wildcard = specifier.slice(prefix.length, specifier.length - suffix.length);
+    best = { prefix: prefix.length, targets: targets.map(target => target.replace('*', wildcard)) };
+  }
+  return best;
+}
+
+// Resolves specifiers against the files of one tree. Each file uses the nearest
+// tsconfig.json (or jsconfig.json) above it, following relative "extends".
+export class ModuleResolver {
+  private files: Set<string>;
+  private configs = new Map<string, { extends?: unknown; baseUrl?: unknown; paths?: unknown } | null>();
+  private options = new Map<string, ModuleOptions>();
+  private nearest = new Map<string, string | null>(); // Directory → its config
+
+  constructor(files: Iterable<string>, configs: Array<{ path: string; content: string }>) {
+    this.files = new Set(files);
+    for (const config of configs) {
+      const { config: json, error } = ts.parseConfigFileTextToJson(config.path, config.content);
+      this.configs.set(config.path, error || !json || typeof json !== 'object'
+        ? null
+        : { extends: json.extends, baseUrl: json.compilerOptions?.baseUrl, paths: json.compilerOptions?.paths });
+    }
+  }
+
+  resolve(specifier: string, fromPath: string): { path?: string; external?: string } {
+    if (specifier.startsWith('.')) {
+      const found = this.find(joinPath(dirname(fromPath), specifier));
+      return found ? { path: found } : {};
+    }
+    if (specifier.startsWith('/')) return {};
+    if (specifier.startsWith('node:')) return { external: specifier };
+
+    const configPath = this.nearestConfig(dirname(fromPath));
+    const options = configPath ? this.configOptions(configPath, new Set()) : {};
+    if (options.paths) {
+      const match = matchPaths(options.paths, specifier);
+      if (match) {
+        const base = options.baseUrl ?? options.pathsDir ?? '';
+        for (const target of match.targets) {
+          const found = this.find(joinPath(base, target));
+          if (found) return { path: found };
+        }
+        // "@/lib/missing" names no file and no package; a catch-all "*" may still mean a package
+        if (match.prefix > 0) return {};
+      }
+    }
+    if (options.baseUrl !== undefined) {
+      const found = this.find(joinPath(options.baseUrl, specifier));
+      if (found) return { path: found };
+    }
+    return { external: packageName(specifier) };
+  }
+
+  private find(resolved: string): string | undefined {
+    return modulePathCandidates(resolved).find(candidate => this.files.has(candidate));
+  }
+
+  private nearestConfig(dir: string): string | null {
+    const cached = this.nearest.get(dir);
+    if (cached !== undefined) return cached;
+    const here = ['tsconfig.json', 'jsconfig.json'].map(name => (dir ? `${dir}/${name}` : name)).find(file => this.configs.has(file));
+    const found = here ?? (dir ? this.nearestConfig(dirname(dir)) : null);
+    this.nearest.set(dir, found);
+    return found;
+  }
+
+  private configOptions(configPath: string, seen: Set<string>): ModuleOptions {
+    const cached = this.options.get(configPath);
+    if (cached) return cached;
+    const config = this.configs.get(configPath);
+    if (!config || seen.has(configPath)) return {};
+    seen.add(configPath);
+
+    const dir = dirname(configPath);
+    let options: ModuleOptions = {};
+    // Packages such as "@tsconfig/next" are not in the tree and are skipped
+    for (const parent of [config.extends ?? []].flat()) {
+      if (typeof parent !== 'string' || !parent.startsWith('.')) continue;
+      const parentPath = joinPath(dir, parent);
+      const found = [parentPath, `${parentPath}.json`].find(file => this.configs.has(file));
+      if (found) options = { ...options, ...this.configOptions(found, seen) };
+    }
+    if (typeof config.baseUrl === 'string') options.baseUrl = joinPath(dir, config.baseUrl);
+    if (config.paths && typeof config.paths === 'object') {
+      options.paths = config.paths as Record<string, string[]>;
+      options.pathsDir = dir;
+    }
+    this.options.set(configPath, options);
+    return options;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Graph
+// ----------------------------------------------------------------------------
+
+// The import graph of one workspace or branch. Files are parsed once per version;
+// edges are resolved again after any change, since a new file or tsconfig can change
+// where existing imports point.
+export class ModuleGraph {
+  private sources = new Map<string, { version: string; imports: ModuleImport[] }>();
+  private configs = new Map<string, { version: string; content: string }>();
+  private paths = new Set<string>(); // Every file, so "./logo.svg" resolves too
+  private edges: { outgoing: Map<string, ModuleEdge[]>; incoming: Map<string, ModuleEdge[]> } | null = null;
+  private syncing: Promise<void> | null = null;
+
+  updateFile(filePath: string, content: string | null, version = ''): void {
+    if (content === null) {
+      this.removeFile(filePath);
+      return;
+    }
+    this.paths.add(filePath);
+    if (isModuleConfig(filePath)) {
+      this.configs.set(filePath, { version, content });
+    } else if (isModuleSource(filePath)) {
+      this.sources.set(filePath, { version, imports: extractImports(filePath, content) });
+    }
+    this.edges = null;
+  }
+
+  removeFile(filePath: string): void {
+    this.paths.delete(filePath);
+    this.sources.delete(filePath);
+    this.configs.delete(filePath);
+    this.edges = null;
+  }
+
+  // Bring the graph in line with a listing: drop files that are gone and (re)parse only
+  // the sources and configs whose version changed. Concurrent calls share one sync.
+  sync(entries: GraphEntry[], load: (entry: GraphEntry) => Promise<string | null>): Promise<void> {
+    if (this.syncing) return this.syncing;
+    this.syncing = (async () => {
+      const listed = entries.slice(0, MAX_GRAPH_FILES);
+      const paths = new Set(listed.map(entry => entry.path));
+      for (const filePath of [...this.paths]) {
+        if (!paths.has(filePath)) this.removeFile(filePath);
+      }
+      for (const filePath of paths) this.paths.add(filePath);
+      this.edges = null;
+
+      const stale = listed.filter(entry =>
+        (isModuleSource(entry.path) || isModuleConfig(entry.path)) &&
+        (entry.size ?? 0) <= MAX_PARSED_SIZE &&
+        (this.sources.get(entry.path) ?? this.configs.get(entry.path))?.version !== entry.version
+      );
+      for (let i = 0; i < stale.length; i += LOAD_CONCURRENCY) {
+        await Promise.all(stale.slice(i, i + LOAD_CONCURRENCY).map(async (entry) => {
+          const content = await load(entry).catch(() => null);
+          if (content !== null) this.updateFile(entry.path, content, entry.version);
+        }));
+      }
+    })().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  // An independent copy, for layering one run's unsaved edits over a shared graph
+  clone(): ModuleGraph {
+    const copy = new ModuleGraph();
+    copy.sources = new Map(this.sources);
+    copy.configs = new Map(this.configs);
+    copy.paths = new Set(this.paths);
+    return copy;
+  }
+
+  get fileCount(): number {
+    return this.sources.size;
+  }
+
+  has(filePath: string): boolean {
+    return this.paths.has(filePath);
+  }
+
+  // What the file imports, in source order
+  dependencies(filePath: string): ModuleEdge[] {
+    return this.graph().outgoing.get(filePath) ?? [];
+  }
+
+  // Imports of the file by other files
+  dependents(filePath: string): ModuleEdge[] {
+    return this.graph().incoming.get(filePath) ?? [];
+  }
+
+  // Every file that imports one of the changed files directly or through other files,
+  // nearest first - what a change to them can break
+  transitiveDependents(changed: string[], maxDepth = Infinity): ReachedFile[] {
+    return this.walk(changed, 'incoming', maxDepth);
+  }
+
+  transitiveDependencies(filePaths: string[], maxDepth = Infinity): ReachedFile[] {
+    return this.walk(filePaths, 'outgoing', maxDepth);
+  }
+
+  private walk(start: string[], direction: 'incoming' | 'outgoing', maxDepth: number): ReachedFile[] {
+    const edges = this.graph()[direction];
+    const seen = new Set(start);
+    const reached: ReachedFile[] = [];
+    let frontier = start;
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        for (const edge of edges.get(current) ?? []) {
+          const other = direction === 'incoming' ? edge.from : edge.to;
+          if (!other || seen.has(other)) continue;
+          seen.add(other);
+          reached.push({ path: other, depth, via: current });
+          next.push(other);
+        }
+      }
+      frontier = next;
+    }
+    return reached;
+  }
+
+  private graph(): { outgoing: Map<string, ModuleEdge[]>; incoming: Map<string, ModuleEdge[]> } {
+    if (this.edges) return this.edges;
+    const resolver = new ModuleResolver(this.paths, [...this.configs].map(([filePath, config]) => ({ path: filePath, content: config.content })));
+    const outgoing = new Map<string, ModuleEdge[]>();
+    const incoming = new Map<string, ModuleEdge[]>();
+    for (const [from, source] of this.sources) {
+      const edges: ModuleEdge[] = source.imports.map((item) => {
+        const { path: to, external } = resolver.resolve(item.specifier, from);
+        return { ...item, from, to, external };
+      });
+      outgoing.set(from, edges);
+      for (const edge of edges) {
+        if (!edge.to || edge.to === from) continue;
+        const importers = incoming.get(edge.to) ?? [];
+        importers.push(edge);
+        incoming.set(edge.to, importers);
+      }
+    }
+    this.edges = { outgoing, incoming };
+    return this.edges;
+  }
+}
+
+const MODULE_GRAPHS = new Map<string, { graph: ModuleGraph; timestamp: number }>();
+const MAX_MODULE_GRAPHS = 5;
+
+export function getModuleGraph(key: string): ModuleGraph {
+  const existing = MODULE_GRAPHS.get(key);
+  if (existing) {
+    existing.timestamp = Date.now();
+    return existing.graph;
+  }
+  const graph = new ModuleGraph();
+  MODULE_GRAPHS.set(key, { graph, timestamp: Date.now() });
+  if (MODULE_GRAPHS.size > MAX_MODULE_GRAPHS) {
+    const oldest = [...MODULE_GRAPHS].sort((a, b) => a[1].timestamp - b[1].timestamp)[0];
+    MODULE_GRAPHS.delete(oldest[0]);
+  }
+  return graph;
+}
+
+// ----------------------------------------------------------------------------
+// Formatting
+// ----------------------------------------------------------------------------
+
+function listLines(lines: string[]): string[] {
+  return lines.length > MAX_LISTED ? [...lines.slice(0, MAX_LISTED), `  … ${lines.length - MAX_LISTED} more`] : lines;
+}
+
+// Direct edges with their line and import form, then files further away with the file
+// they are reached through
+export function formatDependencyGraph(
+  graph: ModuleGraph,
+  filePath: string,
+  options: { direction: 'imports' | 'dependents' | 'both'; depth: number }
+): string {
+  const out = [filePath];
+
+  if (options.direction !== 'dependents') {
+    const edges = graph.dependencies(filePath);
+    const internal = edges.filter(edge => edge.to);
+    const external = [...new Set(edges.map(edge => edge.external).filter((name): name is string => Boolean(name)))];
+    const unresolved = edges.filter(edge => !edge.to && !edge.external);
+    const deeper = options.depth > 1 ? graph.transitiveDependencies([filePath], options.depth).filter(file => file.depth > 1) : [];
+    out.push('', `Imports (${internal.length}):`);
+    out.push(...listLines(internal.map(edge => `  ${edge.line}: '${edge.specifier}' → ${edge.to} [${edge.kind}]`)));
+    if (deeper.length > 0) {
+      out.push(`Indirect imports (${deeper.length}):`, ...listLines(deeper.map(file => `  ${file.path} (depth ${file.depth}, via ${file.via})`)));
+    }
+    if (external.length > 0) out.push(`Packages: ${external.join(', ')}`);
+    if (unresolved.length > 0) {
+      out.push(`Unresolved (${unresolved.length}):`, ...unresolved.map(edge => `  ${edge.line}: '${edge.specifier}'`));
+    }
+  }
+
+  if (options.direction !== 'imports') {
+    const edges = graph.dependents(filePath);
+    const deeper = options.depth > 1 ? graph.transitiveDependents([filePath], options.depth).filter(file => file.depth > 1) : [];
+    out.push('', `Imported by (${edges.length}):`);
+    out.push(...listLines(edges.map(edge => `  ${edge.from}:${edge.line} [${edge.kind}]`)));
+    if (deeper.length > 0) {
+      out.push(`Indirect dependents (${deeper.length}):`, ...listLines(deeper.map(file => `  ${file.path} (depth ${file.depth}, via ${file.via})`)));
+    }
+  }
+
+  return out.join('\n');
+}
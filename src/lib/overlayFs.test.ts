@@ -0,0 +1,120 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { applyChangeset, failedRunChunks, OverlayFileSystem } from './overlayFs';
+
+const base: Record<string, string> = {
+  'src/a.ts': 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n',
+};
+
+const readBase = async (path: string) => {
+  if (!(path in base)) throw new Error(`File ${path} not found`);
+  return base[path];
+};
+
+test('reads see overlay writes, the base stays untouched', async () => {
+  const overlay = new OverlayFileSystem(readBase);
+  assert.strictEqual(await overlay.writeFile('src/a.ts', 'changed\n'), 'edit');
+  assert.strictEqual(await overlay.writeFile('./src/new.ts', 'export {};\n'), 'create');
+
+  assert.strictEqual(await overlay.readFile('src/a.ts'), 'changed\n');
+  assert.strictEqual(await overlay.readFile('src/new.ts'), 'export {};\n');
+  assert.ok(base['src/a.ts'].startsWith('one'));
+
+  overlay.recordCommand('npm test');
+  const changeset = overlay.getChangeset();
+  assert.deepStrictEqual(changeset.files.map(f => [f.path, f.action]), [['src/a.ts', 'edit'], ['src/new.ts', 'create']]);
+  assert.deepStrictEqual(changeset.commands, ['npm test']);
+  assert.match(changeset.patch, /^--- \/dev\/null\n\+\+\+ b\/src\/new\.ts\n@@ -0,0 \+1,1 @@\n\+export \{\};\n/m);
+});
+
+test('apply refuses the whole changeset when a file drifted', async () => {
+  const overlay = new OverlayFileSystem(readBase);
+  await overlay.writeFile('src/a.ts', 'changed\n');
+  await overlay.writeFile('src/new.ts', 'new\n');
+  const changeset = overlay.getChangeset();
+
+  const disk: Record<string, string> = { ...base };
+  const target = {
+    readFile: async (path: string) => disk[path] ?? null,
+    writeFiles: async (files: Array<{ path: string; content: string | null }>) => {
+      for (const file of files) if (file.content !== null) disk[file.path] = file.content;
+    },
+  };
+
+  disk['src/a.ts'] = 'edited by someone else\n';
+  const conflicted = await applyChangeset(changeset, target);
+  assert.deepStrictEqual(conflicted.applied, []);
+  assert.strictEqual(conflicted.conflicts[0].path, 'src/a.ts');
+  assert.strictEqual(disk['src/new.ts'], undefined);
+
+  disk['src/a.ts'] = base['src/a.ts'];
+  const applied = await applyChangeset(changeset, target);
+  assert.deepStrictEqual(applied.applied, ['src/a.ts', 'src/new.ts']);
+  assert.strictEqual(disk['src/a.ts'], 'changed\n');
+});
+
+test('deletes and moves are staged, reported once and applied together', async () => {
+  const overlay = new OverlayFileSystem(async (path) => {
+    const files: Record<string, string> = { 'src/old.ts': 'export const a = 1;\n', 'src/gone.ts': 'bye\n' };
+    if (!(path in files)) throw new Error(`File ${path} not found`);
+    return files[path];
+  });
+
+  await overlay.moveFile('src/old.ts', 'src/lib/new.ts');
+  await overlay.writeFile('src/lib/new.ts', 'export const a = 2;\n');
+  await overlay.deleteFile('src/gone.ts');
+  await assert.rejects(overlay.readFile('src/old.ts'), /deleted/);
+  await assert.rejects(overlay.moveFile('src/missing.ts', 'src/x.ts'), /not found/);
+
+  const changeset = overlay.getChangeset();
+  assert.deepStrictEqual(changeset.files.map(f => [f.action, f.path, f.after]), [
+    ['move', 'src/lib/new.ts', 'export const a = 2;\n'],
+    ['delete', 'src/gone.ts', null],
+  ]);
+  assert.match(changeset.patch, /^rename to src\/lib\/new\.ts\n--- a\/src\/old\.ts\n\+\+\+ b\/src\/lib\/new\.ts\n/m);
+  assert.match(changeset.patch, /^--- a\/src\/gone\.ts\n\+\+\+ \/dev\/null\n@@ -1,1 \+0,0 @@\n-bye\n$/m);
+});
+
+test('chained moves collapse into one entry and apply as delete plus create', async () => {
+  const overlay = new OverlayFileSystem(readBase);
+  await overlay.moveFile('src/a.ts', 'src/b.ts');
+  await overlay.moveFile('src/b.ts', 'src/c.ts');
+  await assert.rejects(overlay.moveFile('src/c.ts', 'src/c.ts'), /same/);
+  await overlay.writeFile('src/tmp.ts', 'tmp\n');
+  await overlay.deleteFile('src/tmp.ts');
+
+  const changeset = overlay.getChangeset();
+  assert.deepStrictEqual(changeset.files.map(f => [f.action, f.fromPath, f.path]), [['move', 'src/a.ts', 'src/c.ts']]);
+  assert.strictEqual(changeset.patch, 'diff --git a/src/a.ts b/src/c.ts\nrename from src/a.ts\nrename to src/c.ts\n');
+  assert.deepStrictEqual(overlay.stagedPaths(), ['src/c.ts']);
+
+  const disk: Record<string, string> = { ...base };
+  const target = {
+    readFile: async (path: string) => disk[path] ?? null,
+    writeFiles: async (files: Array<{ path: string; content: string | null }>) => {
+      for (const file of files) {
+        if (file.content === null) delete disk[file.path];
+        else disk[file.path] = file.content;
+      }
+    },
+  };
+
+  disk['src/c.ts'] = 'someone else\n';
+  assert.deepStrictEqual((await applyChangeset(changeset, target)).conflicts.map(c => c.path), ['src/c.ts']);
+
+  delete disk['src/c.ts'];
+  await applyChangeset(changeset, target);
+  assert.deepStrictEqual(Object.keys(disk), ['src/c.ts']);
+  assert.strictEqual(disk['src/c.ts'], base['src/a.ts']);
+});
+
+test('a failed run hands staged edits back instead of dropping them', async () => {
+  const overlay = new OverlayFileSystem(readBase);
+  assert.deepStrictEqual(failedRunChunks('Rate limited', overlay.getChangeset()), [{ type: 'error', error: 'Rate limited' }]);
+
+  await overlay.writeFile('src/a.ts', base['src/a.ts'].replace('two', '2'));
+  const [warning, done] = failedRunChunks('Rate limited', overlay.getChangeset());
+  assert.match(warning.content!, /Rate limited\. The changes are kept below/);
+  assert.strictEqual(done.type, 'done');
+  assert.deepStrictEqual(done.dryRun?.files.map(file => file.path), ['src/a.ts']);
+});
@@ -0,0 +1,205 @@
+// ============================================================================
+// OVERLAY FILESYSTEM - In-memory writes layered over GitHub or local files
+// Dry runs edit the overlay only; the result is a changeset of unified diffs
+// that can be reviewed and applied in one step
+// ============================================================================
+
+import { createRenameDiff, createUnifiedDiff } from './diff';
+import { AgenticStreamChunk, DryRunChangeset, DryRunFileChange } from '../types';
+
+function normalizePath(filePath: string): string {
+  return filePath.trim().replace(/^\.?\/+/, '');
+}
+
+export class OverlayFileSystem {
+  private files = new Map<string, { before: string | null; after: string | null }>(); // after is null once deleted
+  private moves = new Map<string, string>(); // Destination → original path
+  private commands: string[] = [];
+
+  // readBase throws when the file does not exist in the underlying workspace
+  constructor(private readBase: (path: string) => Promise<string>) {}
+
+  has(filePath: string): boolean {
+    return this.files.has(normalizePath(filePath));
+  }
+
+  // Paths that currently hold staged content (created, edited or moved here)
+  stagedPaths(): string[] {
+    return [...this.files].filter(([, entry]) => entry.after !== null).map(([path]) => path);
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const key = normalizePath(filePath);
+    const entry = this.files.get(key);
+    if (!entry) return this.readBase(filePath);
+    if (entry.after === null) throw new Error(`File ${key} not found (deleted in this run)`);
+    return entry.after;
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    try {
+      await this.readFile(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async writeFile(filePath: string, content: string): Promise<'create' | 'edit'> {
+    const key = normalizePath(filePath);
+    const entry = this.files.get(key);
+    if (entry) {
+      entry.after = content;
+      return entry.before === null ? 'create' : 'edit';
+    }
+
+    let before: string | null;
+    try {
+      before = await this.readBase(filePath);
+    } catch {
+      before = null; // New file
+    }
+    this.files.set(key, { before, after: content });
+    return before === null ? 'create' : 'edit';
+  }
+
+  // Throws when the file does not exist
+  async deleteFile(filePath: string): Promise<void> {
+    const key = normalizePath(filePath);
+    const entry = this.files.get(key);
+    if (entry) {
+      if (entry.after === null) throw new Error(`File ${key} not found (already deleted in this run)`);
+      if (entry.before === null) this.files.delete(key); // Created in this run - nothing to record
+      else entry.after = null;
+    } else {
+      this.files.set(key, { before: await this.readBase(filePath), after: null });
+    }
+    this.moves.delete(key);
+  }
+
+  // Throws when the source is missing or the destination already exists
+  async moveFile(fromPath: string, toPath: string): Promise<void> {
+    const from = normalizePath(fromPath);
+    const to = normalizePath(toPath);
+    if (from === to) throw new Error(`Source and destination are the same: ${from}`);
+    const content = await this.readFile(from);
+    if (await this.exists(to)) throw new Error(`File ${to} already exists`);
+
+    const origin = this.moves.get(from) ?? from;
+    await this.deleteFile(from);
+    await this.writeFile(to, content);
+    if (origin !== to) this.moves.set(to, origin);
+  }
+
+  // Commands never run in a dry run - they are listed for the user instead
+  recordCommand(command: string): void {
+    this.commands.push(command);
+  }
+
+  getChangeset(): DryRunChangeset {
+    const files: DryRunFileChange[] = [];
+    const reported = new Set<string>();
+
+    // A delete plus a create of the moved content is reported as one move
+    for (const [to, from] of this.moves) {
+      const source = this.files.get(from);
+      const target = this.files.get(to);
+      if (!source || source.before === null || source.after !== null || !target || target.before !== null || target.after === null) continue;
+      files.push({
+        path: to,
+        fromPath: from,
+        action: 'move',
+        ...createRenameDiff(from, to, source.before, target.after),
+        before: source.before,
+        after: target.after,
+      });
+      reported.add(from).add(to);
+    }
+
+    for (const [path, { before, after }] of this.files) {
+      if (before === after || reported.has(path)) continue;
+      const { diff, additions, deletions } = createUnifiedDiff(path, before, after);
+      const action = before === null ? 'create' : after === null ? 'delete' : 'edit';
+      files.push({ path, action, additions, deletions, diff, before, after });
+    }
+    return {
+      files,
+      commands: [...this.commands],
+      patch: files.map(file => file.diff).join(''),
+    };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Apply a reviewed changeset. Every file is checked against the content the
+// dry run started from before anything is written; any drift aborts the apply.
+// ----------------------------------------------------------------------------
+
+export interface ChangesetTarget {
+  readFile(path: string): Promise<string | null>; // null when the file does not exist
+  writeFiles(files: Array<{ path: string; content: string | null; action: 'create' | 'edit' | 'delete' }>): Promise<void>; // null content deletes
+}
+
+export interface ApplyChangesetResult {
+  applied: string[];
+  conflicts: Array<{ path: string; reason: string }>;
+}
+
+// Files to write for a changeset; a move becomes a delete of the old path plus a create
+export function changesetWrites(changeset: DryRunChangeset): Parameters<ChangesetTarget['writeFiles']>[0] {
+  return changeset.files.flatMap(file => {
+    if (file.action === 'move' && file.fromPath) {
+      return [
+        { path: file.fromPath, content: null, action: 'delete' as const },
+        { path: file.path, content: file.after, action: 'create' as const },
+      ];
+    }
+    return [{ path: file.path, content: file.after, action: file.action === 'move' ? 'create' as const : file.action }];
+  });
+}
+
+export async function applyChangeset(changeset: DryRunChangeset, target: ChangesetTarget): Promise<ApplyChangesetResult> {
+  const conflicts: ApplyChangesetResult['conflicts'] = [];
+
+  for (const file of changeset.files) {
+    if (file.action === 'move' && file.fromPath) {
+      const source = await target.readFile(file.fromPath);
+      if (source !== file.before) {
+        conflicts.push({
+          path: file.fromPath,
+          reason: source === null ? 'File was deleted after the dry run' : 'File changed after the dry run',
+        });
+      }
+      if (await target.readFile(file.path) !== null) {
+        conflicts.push({ path: file.path, reason: 'File was created after the dry run' });
+      }
+      continue;
+    }
+
+    const current = await target.readFile(file.path);
+    if (current === file.before) continue;
+    conflicts.push({
+      path: file.path,
+      reason: file.before === null
+        ? 'File was created after the dry run'
+        : current === null ? 'File was deleted after the dry run' : 'File changed after the dry run',
+    });
+  }
+
+  if (conflicts.length > 0) {
+    return { applied: [], conflicts };
+  }
+
+  await target.writeFiles(changesetWrites(changeset));
+  return { applied: changeset.files.map(file => file.path), conflicts };
+}
+
+// The last chunks of a run that threw - edits staged before the failure are handed
+// back as a reviewable changeset instead of being dropped with the error
+export function failedRunChunks(message: string, staged?: DryRunChangeset): Partial<AgenticStreamChunk>[] {
+  if (!staged || staged.files.length === 0) return [{ type: 'error', error: message }];
+  return [
+    { type: 'text', content: `\n\n⚠️ Run failed: ${message}. The changes are kept below.` },
+    { type: 'done', dryRun: staged },
+  ];
+}
@@ -0,0 +1,101 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { applyFilePatch, applyPatchSet, gitBlobSha, parseUnifiedDiff, PatchTarget } from './patch';
+
+const source = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n';
+
+test('blob SHA matches git hash-object', () => {
+  assert.strictEqual(gitBlobSha('hello\n'), 'ce013625030ba8dba906f756967f9e9ca394464a');
+});
+
+test('applies several hunks in one pass, tolerating shifted line numbers', () => {
+  const [patch] = parseUnifiedDiff([
+    'diff --git a/src/a.ts b/src/a.ts',
+    `index ${gitBlobSha(source).slice(0, 7)}..1234567 100644`,
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -2,2 +2,2 @@',
+    '-two',
+    '+TWO',
+    ' three',
+    '@@ -10,2 +10,3 @@',
+    ' eight',
+    '+eight and a half',
+    ' nine',
+    '',
+  ].join('\n'));
+
+  const result = applyFilePatch(patch, source);
+  assert.strictEqual(result.success, true);
+  assert.strictEqual(result.content, source.replace('two\n', 'TWO\n').replace('eight\n', 'eight\neight and a half\n'));
+  assert.deepStrictEqual([result.additions, result.deletions], [2, 1]);
+  assert.deepStrictEqual(result.notes, ['src/a.ts: hunk 2 applied at line 8 (offset -2)']);
+
+  const stale = applyFilePatch(patch, source.replace('ten', 'TEN'));
+  assert.match(stale.error!, /changed since the patch was made/);
+});
+
+test('a failing hunk names the hunk and shows the closest text', () => {
+  const [patch] = parseUnifiedDiff('--- a/src/a.ts\n+++ b/src/a.ts\n@@ -4,3 +4,3 @@\n four\n-fife\n+FIVE\n six\n');
+  const result = applyFilePatch(patch, source);
+
+  assert.strictEqual(result.success, false);
+  assert.match(result.error!, /^Hunk 1 of 1 in src\/a\.ts does not match the file: @@ -4,3 \+4,3 @@/);
+  assert.match(result.error!, /Closest text is at line 4 \(2 of 3 lines match\)/);
+  assert.match(result.error!, /!\s+5 \| five   ← expected: "fife"/);
+});
+
+test('line-range edits use the numbering of the version read and need its sha', () => {
+  const sha = gitBlobSha(source).slice(0, 12);
+  const edits = [
+    { start_line: 9, end_line: 10, replacement: 'the end' },
+    { start_line: 1, end_line: 0, replacement: '// header\n' },
+    { start_line: 3, end_line: 3, replacement: '' },
+  ];
+
+  const result = applyFilePatch({ path: 'src/a.ts', kind: 'modify', sha, edits }, source);
+  assert.strictEqual(result.content, '// header\none\ntwo\nfour\nfive\nsix\nseven\neight\nthe end\n');
+
+  assert.match(applyFilePatch({ path: 'src/a.ts', kind: 'modify', edits }, source).error!, /need the sha/);
+  const overlapping = [{ start_line: 2, end_line: 4, replacement: 'x' }, { start_line: 4, end_line: 5, replacement: 'y' }];
+  assert.match(applyFilePatch({ path: 'src/a.ts', kind: 'modify', sha, edits: overlapping }, source).error!, /overlap/);
+});
+
+test('a patch set writes nothing when any file fails, and renames with the rest', async () => {
+  const disk: Record<string, string> = { 'a.txt': 'a\n', 'b.txt': 'b\n' };
+  const target: PatchTarget = {
+    readFile: async (path) => disk[path] ?? null,
+    writeFile: async (path, content) => { disk[path] = content; },
+    deleteFile: async (path) => { delete disk[path]; },
+    moveFile: async (from, to) => { disk[to] = disk[from]; delete disk[from]; },
+  };
+
+  const broken = parseUnifiedDiff('--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-a\n+A\n--- a/b.txt\n+++ b/b.txt\n@@ -1 +1 @@\n-x\n+X\n');
+  const failed = await applyPatchSet(broken, target);
+  assert.strictEqual(failed.success, false);
+  assert.match(failed.error!, /No files were changed/);
+  assert.deepStrictEqual(disk, { 'a.txt': 'a\n', 'b.txt': 'b\n' });
+
+  const patches = parseUnifiedDiff([
+    'diff --git a/a.txt b/docs/a.txt',
+    'rename from a.txt',
+    'rename to docs/a.txt',
+    'diff --git a/new.txt b/new.txt',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/new.txt',
+    '@@ -0,0 +1 @@',
+    '+new',
+    '\\ No newline at end of file',
+    'diff --git a/b.txt b/b.txt',
+    'deleted file mode 100644',
+    '--- a/b.txt',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-b',
+  ].join('\n'));
+  const applied = await applyPatchSet(patches, target);
+  assert.strictEqual(applied.success, true);
+  assert.deepStrictEqual(applied.files.map(f => [f.action, f.path]), [['move', 'docs/a.txt'], ['create', 'new.txt'], ['delete', 'b.txt']]);
+  assert.deepStrictEqual(disk, { 'docs/a.txt': 'a\n', 'new.txt': 'new' });
+});
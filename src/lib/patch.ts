@@ -0,0 +1,433 @@
+// ============================================================================
+// PATCHES - Unified diffs and line-anchored edits, applied all-or-nothing
+// Every file is checked before anything is written; a failed hunk reports
+// where it was expected and the closest text actually in the file
+// ============================================================================
+
+import { createHash } from 'crypto';
+import { createUnifiedDiff, describeFileChange } from './diff';
+import { FileChange } from '../types';
+
+export interface LineEdit {
+  start_line: number; // 1-based, inclusive
+  end_line: number; // start_line - 1 inserts before start_line without replacing anything
+  replacement: string;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  lines: Array<{ type: ' ' | '-' | '+'; text: string }>;
+  newNoEol: boolean; // "\ No newline at end of file" after the last new-side line
+}
+
+export interface FilePatch {
+  path: string;
+  fromPath?: string; // Rename source
+  kind: 'create' | 'modify' | 'delete';
+  sha?: string; // Blob SHA (or a prefix) of the version the patch was made against
+  hunks?: DiffHunk[];
+  edits?: LineEdit[];
+}
+
+export interface FilePatchResult {
+  success: boolean;
+  content?: string | null; // null when the patch deletes the file
+  additions?: number;
+  deletions?: number;
+  notes?: string[]; // Hunks that applied away from their stated line
+  error?: string;
+}
+
+const MAX_LISTED_LINES = 12;
+const MAX_MATCH_CELLS = 2_000_000; // Bounds the nearest-match scan on very large files
+
+// Same hash git and GitHub use for file contents
+export function gitBlobSha(content: string): string {
+  return createHash('sha1')
+    .update(`blob ${Buffer.byteLength(content, 'utf8')}\0`)
+    .update(content, 'utf8')
+    .digest('hex');
+}
+
+// Lines without terminators; CRLF files are matched on bare lines and written back with CRLF
+function toLines(content: string): { lines: string[]; eol: boolean; newline: string } {
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  if (content === '') return { lines: [], eol: false, newline };
+  const eol = content.endsWith('\n');
+  const body = eol ? content.slice(0, content.endsWith('\r\n') ? -2 : -1) : content;
+  return { lines: body.split(/\r?\n/), eol, newline };
+}
+
+function fromLines(lines: string[], eol: boolean, newline: string): string {
+  return lines.length === 0 ? '' : lines.join(newline) + (eol ? newline : '');
+}
+
+// ----------------------------------------------------------------------------
+// Parsing - lenient about hunk line counts, which hand-written diffs often get wrong
+// ----------------------------------------------------------------------------
+
+function stripDiffPath(value: string): string {
+  return value.replace(/\t.*$/, '').trim().replace(/^[ab]\//, '');
+}
+
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: (DiffHunk & { blankTail: number }) | null = null;
+  let section: { from?: string; to?: string; renameFrom?: string; renameTo?: string; sha?: string; patched: boolean } | null = null;
+
+  const closeHunk = () => {
+    // Blank lines at the end of a hunk are trailing whitespace of the diff, not context
+    if (hunk && hunk.blankTail > 0) hunk.lines.splice(hunk.lines.length - hunk.blankTail);
+    hunk = null;
+  };
+  const closeSection = () => {
+    closeHunk();
+    // A pure rename has git headers but no ---/+++ lines
+    if (section && !section.patched && section.renameFrom && section.renameTo) {
+      patches.push({ path: section.renameTo, fromPath: section.renameFrom, kind: 'modify', sha: section.sha, hunks: [] });
+    }
+    section = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      closeSection();
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      section = { from: match?.[1], to: match?.[2], patched: false };
+      current = null;
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      closeHunk();
+      const oldPath = line.slice(4);
+      const newPath = lines[i + 1].slice(4);
+      const kind = oldPath.startsWith('/dev/null') ? 'create' : newPath.startsWith('/dev/null') ? 'delete' : 'modify';
+      const path = stripDiffPath(kind === 'delete' ? oldPath : newPath);
+      const from = kind === 'modify' ? (section?.renameFrom ?? stripDiffPath(oldPath)) : undefined;
+      current = { path, fromPath: from && from !== path ? from : undefined, kind, sha: section?.sha, hunks: [] };
+      patches.push(current);
+      if (section) section.patched = true;
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      closeHunk();
+      const match = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+      if (!match) throw new Error(`Malformed hunk header: ${line}`);
+      if (!current) throw new Error(`Hunk "${line}" has no file header - start each file with "--- a/path" and "+++ b/path"`);
+      hunk = { header: match[0], oldStart: Number(match[1]), lines: [], newNoEol: false, blankTail: 0 };
+      current.hunks!.push(hunk);
+      continue;
+    }
+
+    if (hunk) {
+      const type = line[0];
+      if (type === ' ' || type === '-' || type === '+') {
+        hunk.lines.push({ type, text: line.slice(1) });
+        hunk.blankTail = 0;
+        continue;
+      }
+      if (line === '') {
+        hunk.lines.push({ type: ' ', text: '' });
+        hunk.blankTail++;
+        continue;
+      }
+      if (line.startsWith('\\')) {
+        const last = hunk.lines[hunk.lines.length - 1];
+        if (last && last.type !== '-') hunk.newNoEol = true;
+        continue;
+      }
+      closeHunk();
+    }
+
+    if (section) {
+      const rename = line.match(/^rename (from|to) (.+)$/);
+      if (rename) section[rename[1] === 'from' ? 'renameFrom' : 'renameTo'] = rename[2];
+      const index = line.match(/^index ([0-9a-f]+)\.\.[0-9a-f]+/);
+      if (index && !/^0+$/.test(index[1])) section.sha = index[1];
+    }
+  }
+  closeSection();
+
+  if (patches.length === 0) {
+    throw new Error('No file headers found - a unified diff needs "--- a/path" and "+++ b/path" lines before each file\'s hunks');
+  }
+  return patches;
+}
+
+// ----------------------------------------------------------------------------
+// Nearest match - where a block of lines most nearly appears in a file
+// ----------------------------------------------------------------------------
+
+export interface NearestMatch {
+  start: number; // 0-based line index
+  matched: number; // Lines equal, ignoring surrounding whitespace
+}
+
+export function findNearestMatch(lines: string[], target: string[], near: number = 0): NearestMatch | null {
+  if (target.length === 0 || lines.length === 0) return null;
+  const windowCount = Math.max(1, lines.length - target.length + 1);
+  const span = Math.max(1, Math.floor(MAX_MATCH_CELLS / target.length));
+  const from = windowCount > span ? Math.max(0, Math.min(near - Math.floor(span / 2), windowCount - span)) : 0;
+  const to = Math.min(windowCount, from + span);
+  const wanted = target.map(line => line.trim());
+
+  let best: NearestMatch | null = null;
+  for (let start = from; start < to; start++) {
+    let matched = 0;
+    for (let i = 0; i < wanted.length && start + i < lines.length; i++) {
+      if (lines[start + i].trim() === wanted[i]) matched++;
+    }
+    if (
+      matched > 0 &&
+      (!best || matched > best.matched || (matched === best.matched && Math.abs(start - near) < Math.abs(best.start - near)))
+    ) {
+      best = { start, matched };
+    }
+  }
+  return best;
+}
+
+function formatNumbered(lines: string[], start: number, count: number, marks: Map<number, string> = new Map()): string {
+  const shown = lines.slice(start, start + Math.min(count, MAX_LISTED_LINES));
+  const width = String(start + shown.length).length;
+  const numbered = shown.map((line, i) => {
+    const mark = marks.get(start + i);
+    return `${mark ? '!' : ' '} ${String(start + i + 1).padStart(width)} | ${line}${mark ? `   ← expected: ${mark}` : ''}`;
+  });
+  return numbered.join('\n') + (count > MAX_LISTED_LINES ? '\n  ...' : '');
+}
+
+// Lines the caller expected next to the closest lines actually in the file
+export function describeMismatch(lines: string[], expected: string[], near: number): string {
+  const parts = [`Expected ${expected.length} line${expected.length === 1 ? '' : 's'}:`];
+  parts.push(expected.slice(0, MAX_LISTED_LINES).map(line => `    ${line}`).join('\n') + (expected.length > MAX_LISTED_LINES ? '\n    ...' : ''));
+
+  const nearest = findNearestMatch(lines, expected, near);
+  if (!nearest) {
+    const at = Math.min(Math.max(0, near), Math.max(0, lines.length - 1));
+    parts.push(lines.length === 0
+      ? 'The file is empty.'
+      : `No similar text found. The file at line ${at + 1} reads:\n${formatNumbered(lines, at, expected.length)}`);
+    return parts.join('\n');
+  }
+
+  const marks = new Map<number, string>();
+  expected.forEach((line, i) => {
+    const actual = lines[nearest.start + i];
+    if (actual !== undefined && actual !== line) {
+      marks.set(nearest.start + i, actual.trim() === line.trim() ? `${JSON.stringify(line)} (whitespace differs)` : JSON.stringify(line));
+    }
+  });
+  parts.push(`Closest text is at line ${nearest.start + 1} (${nearest.matched} of ${expected.length} lines match):`);
+  parts.push(formatNumbered(lines, nearest.start, expected.length, marks));
+  return parts.join('\n');
+}
+
+// ----------------------------------------------------------------------------
+// Applying to one file
+// ----------------------------------------------------------------------------
+
+// Exact match at the stated line first, then the nearest exact match in either direction
+function locate(lines: string[], target: string[], stated: number, minStart: number): number {
+  if (target.length === 0) return Math.min(Math.max(stated, minStart), lines.length);
+  const last = lines.length - target.length;
+  const matchesAt = (start: number) => target.every((line, i) => lines[start + i] === line);
+  for (let distance = 0; stated - distance >= minStart || stated + distance <= last; distance++) {
+    const up = stated - distance;
+    const down = stated + distance;
+    if (up >= minStart && up <= last && matchesAt(up)) return up;
+    if (down >= minStart && down <= last && down !== up && matchesAt(down)) return down;
+  }
+  return -1;
+}
+
+function applyHunks(patch: FilePatch, current: string): FilePatchResult {
+  const { lines, eol, newline } = toLines(current);
+  const hunks = patch.hunks ?? [];
+  const result: string[] = [];
+  const notes: string[] = [];
+  let cursor = 0; // Next original line not yet copied
+  let offset = 0; // How far earlier hunks landed from their stated lines
+  let endEol = eol;
+
+  for (let index = 0; index < hunks.length; index++) {
+    const hunk = hunks[index];
+    const oldLines = hunk.lines.filter(line => line.type !== '+').map(line => line.text);
+    const statedRaw = oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const at = locate(lines, oldLines, statedRaw + offset, cursor);
+
+    if (at < 0) {
+      return {
+        success: false,
+        error: `Hunk ${index + 1} of ${hunks.length} in ${patch.path} does not match the file: ${hunk.header}\n${describeMismatch(lines, oldLines, statedRaw + offset)}`,
+      };
+    }
+    if (at !== statedRaw) {
+      notes.push(`${patch.path}: hunk ${index + 1} applied at line ${at + 1} (offset ${at > statedRaw ? '+' : ''}${at - statedRaw})`);
+    }
+
+    result.push(...lines.slice(cursor, at));
+    // Context comes from the file itself, so whitespace the diff lost is kept
+    let oldIndex = at;
+    for (const line of hunk.lines) {
+      if (line.type === ' ') result.push(lines[oldIndex++]);
+      else if (line.type === '-') oldIndex++;
+      else result.push(line.text);
+    }
+    cursor = at + oldLines.length;
+    offset = at - statedRaw;
+    if (cursor === lines.length) endEol = !hunk.newNoEol;
+  }
+  result.push(...lines.slice(cursor));
+
+  if (patch.kind === 'delete') {
+    if (result.length > 0) {
+      return { success: false, error: `The patch deletes ${patch.path}, but ${result.length} line(s) would remain - the hunks do not cover the whole file` };
+    }
+    return { success: true, content: null, notes };
+  }
+  return { success: true, content: fromLines(result, endEol, newline), notes };
+}
+
+function applyLineEdits(patch: FilePatch, current: string): FilePatchResult {
+  const { lines, eol, newline } = toLines(current);
+  const edits = [...(patch.edits ?? [])].sort((a, b) => a.start_line - b.start_line);
+
+  for (let i = 0; i < edits.length; i++) {
+    const { start_line: start, end_line: end } = edits[i];
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || start > lines.length + 1 || end < start - 1 || end > lines.length) {
+      return { success: false, error: `Edit of lines ${start}-${end} is outside ${patch.path}, which has ${lines.length} lines` };
+    }
+    const previous = edits[i - 1];
+    if (previous && previous.end_line >= start) {
+      return { success: false, error: `Edits of lines ${previous.start_line}-${previous.end_line} and ${start}-${end} in ${patch.path} overlap - merge them into one edit` };
+    }
+  }
+
+  const result = [...lines];
+  // Bottom-up, so every edit uses the line numbers of the version that was read
+  for (const edit of [...edits].reverse()) {
+    const replacement = edit.replacement === '' ? [] : edit.replacement.replace(/\r?\n$/, '').split(/\r?\n/);
+    const removed = edit.end_line - edit.start_line + 1;
+    result.splice(edit.start_line - 1, removed, ...replacement);
+  }
+
+  return { success: true, content: fromLines(result, eol || lines.length === 0, newline), notes: [] };
+}
+
+// current is null when the file does not exist
+export function applyFilePatch(patch: FilePatch, current: string | null): FilePatchResult {
+  const result = applyToContent(patch, current);
+  if (!result.success || result.content === undefined) return result;
+  const { additions, deletions } = createUnifiedDiff(patch.path, current, result.content);
+  return { ...result, additions, deletions };
+}
+
+function applyToContent(patch: FilePatch, current: string | null): FilePatchResult {
+  const source = patch.fromPath ?? patch.path;
+  if (patch.kind === 'create') {
+    if (current !== null) return { success: false, error: `${patch.path} already exists - patch it as a modification instead` };
+    return applyHunks(patch, '');
+  }
+  if (current === null) return { success: false, error: `${source} not found` };
+
+  if (patch.edits && !patch.sha) {
+    return { success: false, error: `Line-range edits to ${source} need the sha shown by read_file, so the line numbers refer to the version you read` };
+  }
+  if (patch.sha) {
+    const actual = gitBlobSha(current);
+    if (!actual.startsWith(patch.sha.toLowerCase())) {
+      return {
+        success: false,
+        error: `${source} changed since the patch was made: expected blob ${patch.sha.slice(0, 12)}, current blob is ${actual.slice(0, 12)}. Re-read the file and rebuild the patch.`,
+      };
+    }
+  }
+
+  return patch.edits ? applyLineEdits(patch, current) : applyHunks(patch, current);
+}
+
+// ----------------------------------------------------------------------------
+// Applying a set of files - validated first, then written with rollback
+// ----------------------------------------------------------------------------
+
+export interface PatchTarget {
+  readFile(path: string): Promise<string | null>; // null when the file does not exist
+  writeFile(path: string, content: string): Promise<void>;
+  deleteFile(path: string): Promise<void>;
+  moveFile(fromPath: string, toPath: string): Promise<void>;
+}
+
+export interface PatchSetResult {
+  success: boolean;
+  files: FileChange[];
+  notes: string[];
+  error?: string;
+}
+
+export async function applyPatchSet(patches: FilePatch[], target: PatchTarget): Promise<PatchSetResult> {
+  const failed = (error: string): PatchSetResult => ({
+    success: false,
+    files: [],
+    notes: [],
+    error: `${error}\nNo files were changed - the patch is applied all-or-nothing.`,
+  });
+
+  const touched = new Set<string>();
+  for (const patch of patches) {
+    for (const path of [patch.path, patch.fromPath].filter((p): p is string => !!p)) {
+      if (touched.has(path)) return failed(`${path} appears more than once in the patch - combine its changes`);
+      touched.add(path);
+    }
+  }
+
+  const planned: Array<{ patch: FilePatch; before: string | null; after: string | null; result: FilePatchResult }> = [];
+  for (const patch of patches) {
+    const before = await target.readFile(patch.fromPath ?? patch.path);
+    if (patch.fromPath && await target.readFile(patch.path) !== null) {
+      return failed(`Cannot rename ${patch.fromPath} to ${patch.path}: the destination already exists`);
+    }
+    const result = applyFilePatch(patch, before);
+    if (!result.success) return failed(result.error || `Could not patch ${patch.path}`);
+    planned.push({ patch, before, after: result.content ?? null, result });
+  }
+
+  const undo: Array<() => Promise<void>> = [];
+  try {
+    for (const { patch, before, after } of planned) {
+      if (patch.fromPath && before !== null) {
+        await target.moveFile(patch.fromPath, patch.path);
+        undo.push(async () => {
+          await target.moveFile(patch.path, patch.fromPath!);
+          await target.writeFile(patch.fromPath!, before);
+        });
+        if (after !== null && after !== before) await target.writeFile(patch.path, after);
+      } else if (after === null) {
+        await target.deleteFile(patch.path);
+        undo.push(() => target.writeFile(patch.path, before!));
+      } else {
+        await target.writeFile(patch.path, after);
+        undo.push(() => before === null ? target.deleteFile(patch.path) : target.writeFile(patch.path, before));
+      }
+    }
+  } catch (error) {
+    for (const step of undo.reverse()) {
+      await step().catch(() => undefined);
+    }
+    return failed(`Writing the patch failed (${error instanceof Error ? error.message : 'Unknown error'}); files already written were restored`);
+  }
+
+  return {
+    success: true,
+    files: planned.map(({ patch, before, after }) => describeFileChange(patch.path, before, after, patch.fromPath)),
+    notes: planned.flatMap(({ result }) => result.notes ?? []),
+  };
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { advancePlan, applyPlanUpdate, normalizePlan, parsePlanResponse } from './planner';
+
+test('parses a JSON plan wrapped in prose', () => {
+  const plan = parsePlanResponse(`Here is the plan:
+{"goal": "Add a logout button", "steps": [
+  {"title": "Add handler", "files": ["src/app/page.tsx"]},
+  {"title": "Run type-check", "files": []}
+], "verification": ["npm run build"]}`);
+
+  assert.strictEqual(plan.goal, 'Add a logout button');
+  assert.deepStrictEqual(plan.steps.map(s => [s.id, s.title, s.status]), [
+    [1, 'Add handler', 'pending'],
+    [2, 'Run type-check', 'pending'],
+  ]);
+  assert.deepStrictEqual(plan.verification, ['npm run build']);
+});
+
+test('falls back to numbered lines when the response is not JSON', () => {
+  const plan = parsePlanResponse('1. Read the config\n2) Update the route\n- Verify');
+  assert.deepStrictEqual(plan.steps.map(s => s.title), ['Read the config', 'Update the route', 'Verify']);
+});
+
+test('steps advance as their files are edited', () => {
+  const plan = parsePlanResponse('{"steps": [{"title": "Edit both", "files": ["a.ts", "b.ts"]}, {"title": "Check", "files": []}]}');
+
+  assert.deepStrictEqual(advancePlan(plan, new Set(['a.ts'])).map(s => s.status), ['in_progress']);
+  assert.deepStrictEqual(advancePlan(plan, new Set(['a.ts'])), []);
+  assert.deepStrictEqual(advancePlan(plan, new Set(['a.ts', 'b.ts'])).map(s => s.status), ['done']);
+  assert.strictEqual(plan.steps[1].status, 'pending');
+
+  assert.strictEqual(applyPlanUpdate(plan, { step: 2, status: 'skipped', note: 'not needed' }).step?.status, 'skipped');
+  assert.ok(applyPlanUpdate(plan, { step: 9, status: 'done' }).error);
+});
+
+test('a plan from the client gets defaults or is rejected', () => {
+  const plan = normalizePlan({ goal: 'Ship it', steps: [{ id: 4, title: ' Edit ', status: 'done' }, { title: 'Check', files: ['a.ts'] }] });
+  assert.deepStrictEqual(plan?.steps, [
+    { id: 4, title: 'Edit', files: [], status: 'done' },
+    { id: 2, title: 'Check', files: ['a.ts'], status: 'pending' },
+  ]);
+  assert.deepStrictEqual(advancePlan(plan!, new Set(['a.ts'])).map(s => s.id), [2]);
+
+  assert.strictEqual(normalizePlan({ steps: 'one, two' }), null);
+  assert.strictEqual(normalizePlan({ steps: [{ title: 'Edit', files: 'a.ts' }] }), null);
+  assert.strictEqual(normalizePlan({ steps: [{ title: 'Edit', status: 'finished' }] }), null);
+  assert.strictEqual(normalizePlan({ steps: [{ files: [] }] }), null);
+});
@@ -0,0 +1,210 @@
+// ============================================================================
+// PLANNER - Optional planning phase before the agentic loop touches any files
+// Produces a numbered plan that is streamed to the UI and ticked off per step
+// ============================================================================
+
+import type { ClaudeClient } from './claude';
+import { ClaudeTool, PlanStep, PlanStepStatus, TaskPlan } from '../types';
+
+type PlanMessage = { role: 'user' | 'assistant'; content: string };
+
+const PLAN_STATUSES: PlanStepStatus[] = ['pending', 'in_progress', 'done', 'skipped'];
+const MAX_PLAN_STEPS = 12;
+
+const PLANNING_SYSTEM_PROMPT = `You plan coding tasks before they are executed. You cannot use tools in this phase.
+
+Return ONLY a JSON object with these keys:
+- "goal": one sentence describing the outcome the user wants
+- "steps": ordered array of { "title": string, "files": string[] } - each step is one concrete change, "files" lists the paths it will create or edit (empty for steps that only read or run commands)
+- "verification": array of short strings describing how the result will be checked
+
+Keep steps small and concrete (at most ${MAX_PLAN_STEPS}). Use exact paths from the file tree. Do not invent files that the task does not need.`;
+
+function toStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === 'string')
+    .map(v => v.trim())
+    .filter(Boolean);
+}
+
+export function parsePlanResponse(text: string): TaskPlan {
+  const createdAt = new Date().toISOString();
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]) as Record<string, unknown>;
+      const rawSteps = Array.isArray(parsed.steps) ? parsed.steps : [];
+      const steps: PlanStep[] = rawSteps
+        .map(step => typeof step === 'string' ? { title: step } : step as Record<string, unknown>)
+        .filter(step => step && typeof step.title === 'string' && step.title.trim())
+        .slice(0, MAX_PLAN_STEPS)
+        .map((step, index) => ({
+          id: index + 1,
+          title: String(step.title).trim(),
+          files: toStringArray(step.files),
+          status: 'pending' as const,
+        }));
+
+      if (steps.length > 0) {
+        return {
+          goal: typeof parsed.goal === 'string' ? parsed.goal.trim() : '',
+          steps,
+          verification: toStringArray(parsed.verification),
+          createdAt,
+        };
+      }
+    } catch {
+      // Fall through to line-based parsing
+    }
+  }
+
+  // Fallback: treat numbered or bulleted lines as steps
+  const steps = text.split('\n')
+    .map(line => line.match(/^\s*(?:\d+[.)]|[-*])\s+(.+)$/)?.[1]?.trim())
+    .filter((title): title is string => !!title)
+    .slice(0, MAX_PLAN_STEPS)
+    .map((title, index) => ({ id: index + 1, title, files: [], status: 'pending' as const }));
+
+  return { goal: '', steps, verification: [], createdAt };
+}
+
+// A plan sent back by the client (edited or approved in the UI). Missing files, statuses and
+// ids get their defaults; anything of the wrong type makes the whole plan invalid (null).
+export function normalizePlan(value: unknown): TaskPlan | null {
+  if (!value || typeof value !== 'object') return null;
+  const plan = value as Record<string, unknown>;
+  if (!Array.isArray(plan.steps) || plan.steps.length === 0) return null;
+  if (plan.goal !== undefined && typeof plan.goal !== 'string') return null;
+
+  const steps: PlanStep[] = [];
+  for (const [index, raw] of plan.steps.entries()) {
+    if (!raw || typeof raw !== 'object') return null;
+    const step = raw as Record<string, unknown>;
+    if (typeof step.title !== 'string' || !step.title.trim()) return null;
+    if (step.files !== undefined && (!Array.isArray(step.files) || step.files.some(file => typeof file !== 'string'))) return null;
+    if (step.status !== undefined && !PLAN_STATUSES.includes(step.status as PlanStepStatus)) return null;
+    if (step.note !== undefined && typeof step.note !== 'string') return null;
+    steps.push({
+      id: typeof step.id === 'number' && Number.isInteger(step.id) ? step.id : index + 1,
+      title: step.title.trim(),
+      files: toStringArray(step.files),
+      status: (step.status as PlanStepStatus | undefined) ?? 'pending',
+      ...(step.note ? { note: step.note as string } : {}),
+    });
+  }
+
+  return {
+    goal: typeof plan.goal === 'string' ? plan.goal : '',
+    steps,
+    verification: toStringArray(plan.verification),
+    createdAt: typeof plan.createdAt === 'string' ? plan.createdAt : new Date().toISOString(),
+  };
+}
+
+export function formatPlanForPrompt(plan: TaskPlan): string {
+  const steps = plan.steps.map(step => {
+    const files = step.files.length > 0 ? ` (${step.files.join(', ')})` : '';
+    const status = step.status === 'pending' ? '' : ` [${step.status}]`;
+    return `${step.id}. ${step.title}${files}${status}`;
+  }).join('\n');
+  const verification = plan.verification.length > 0
+    ? `\n\nVerification:\n${plan.verification.map(v => `- ${v}`).join('\n')}`
+    : '';
+
+  return `
+
+## TASK PLAN - FOLLOW IT
+${plan.goal ? `Goal: ${plan.goal}\n` : ''}${steps}${verification}
+
+Work through the steps in order. Skip steps already marked done. Call update_plan when a step is finished or no longer needed.`;
+}
+
+// ----------------------------------------------------------------------------
+// Planning call - a single tool-less request with the file tree as context
+// ----------------------------------------------------------------------------
+
+export async function generatePlan(
+  claude: ClaudeClient,
+  messages: PlanMessage[],
+  codeContext: string
+): Promise<{ plan: TaskPlan; cost: number }> {
+  const response = await claude.chat(messages, PLANNING_SYSTEM_PROMPT, codeContext, {
+    tools: [],
+    effort: 'low',
+  });
+
+  return { plan: parsePlanResponse(response.content), cost: response.cost };
+}
+
+export function getPlanTool(): ClaudeTool {
+  return {
+    name: 'update_plan',
+    description: `Mark a step of the task plan as in progress, done or skipped.
+
+Call this when you finish a step (especially steps without files), or when a step turns out to be unnecessary.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        step: {
+          type: 'number',
+          description: 'The step number from the plan',
+        },
+        status: {
+          type: 'string',
+          description: 'New status: in_progress, done or skipped',
+          enum: ['in_progress', 'done', 'skipped'],
+        },
+        note: {
+          type: 'string',
+          description: 'Optional short note, e.g. why the step was skipped',
+        },
+      },
+      required: ['step', 'status'],
+    },
+  };
+}
+
+export function applyPlanUpdate(plan: TaskPlan, input: Record<string, unknown>): { step?: PlanStep; error?: string } {
+  const step = plan.steps.find(s => s.id === Number(input.step));
+  if (!step) {
+    return { error: `Step ${input.step} does not exist. The plan has steps 1-${plan.steps.length}.` };
+  }
+
+  const status = input.status as PlanStepStatus;
+  if (!PLAN_STATUSES.includes(status)) {
+    return { error: `Invalid status "${input.status}". Use in_progress, done or skipped.` };
+  }
+
+  step.status = status;
+  if (typeof input.note === 'string' && input.note.trim()) {
+    step.note = input.note.trim();
+  }
+  return { step };
+}
+
+// ----------------------------------------------------------------------------
+// Tick steps off from the files edited so far. A step is in progress once any
+// of its files was edited and done once all of them were. Returns changed steps.
+// ----------------------------------------------------------------------------
+
+export function advancePlan(plan: TaskPlan, editedFiles: Set<string>): PlanStep[] {
+  const changed: PlanStep[] = [];
+
+  for (const step of plan.steps) {
+    if (step.status === 'done' || step.status === 'skipped' || step.files.length === 0) continue;
+
+    const edited = step.files.filter(file => editedFiles.has(file.replace(/^\/+/, '')));
+    const next: PlanStepStatus = edited.length === step.files.length
+      ? 'done'
+      : edited.length > 0 ? 'in_progress' : step.status;
+
+    if (next !== step.status) {
+      step.status = next;
+      changed.push(step);
+    }
+  }
+
+  return changed;
+}
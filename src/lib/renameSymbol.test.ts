@@ -0,0 +1,23 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { countIdentifier, isIdentifier, renameIdentifier } from './renameSymbol';
+
+test('renames whole identifiers only', () => {
+  const source = "import { getUser, getUserName } from './users';\nconst user = getUser(id); // getUser\nthis.getUser = $getUser;\n";
+  const { content, count } = renameIdentifier(source, 'getUser', 'fetchUser');
+
+  assert.strictEqual(count, 4);
+  assert.strictEqual(content, "import { fetchUser, getUserName } from './users';\nconst user = fetchUser(id); // fetchUser\nthis.fetchUser = $getUser;\n");
+});
+
+test('dollar signs are part of the identifier, not regex syntax', () => {
+  assert.strictEqual(countIdentifier('$store.x; $storeX; a$store', '$store'), 1);
+  assert.strictEqual(renameIdentifier('$store.x', '$store', '$state').content, '$state.x');
+});
+
+test('only plain identifiers are accepted as names', () => {
+  assert.ok(isIdentifier('_private$1'));
+  assert.ok(!isIdentifier('user.name'));
+  assert.ok(!isIdentifier('1st'));
+  assert.ok(!isIdentifier(''));
+});
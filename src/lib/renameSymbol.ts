@@ -0,0 +1,28 @@
+// ============================================================================
+// SYMBOL RENAME - Whole-identifier replacement used by rename_symbol_across_files
+// Text-based: matches in comments and strings are renamed too, scopes are not resolved
+// ============================================================================
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export function isIdentifier(name: string): boolean {
+  return IDENTIFIER.test(name);
+}
+
+// Occurrences of name not embedded in a longer identifier (fooBar and _foo do not match foo)
+function identifierPattern(name: string): RegExp {
+  return new RegExp(`(?<![\\w$])${name.replace(/\$/g, '\\$')}(?![\\w$])`, 'g');
+}
+
+export function countIdentifier(content: string, name: string): number {
+  return content.match(identifierPattern(name))?.length ?? 0;
+}
+
+export function renameIdentifier(content: string, oldName: string, newName: string): { content: string; count: number } {
+  let count = 0;
+  const renamed = content.replace(identifierPattern(oldName), () => {
+    count++;
+    return newName;
+  });
+  return { content: renamed, count };
+}
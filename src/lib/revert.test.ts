@@ -0,0 +1,158 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { gitBlobSha } from './patch';
+import { MemoryRunStore, RevertArchiveRunStore, RunStore, setRunStore } from './runRegistry';
+import { RevertJournal, attachRevertRecord, createLocalRevertTarget, revertRun, revertRuns, snapshotChangeset } from './revert';
+import { AgenticRunSnapshot } from '../types';
+
+function memoryFs(files: Record<string, string>) {
+  return {
+    files,
+    readFile: async (path: string) => {
+      if (!(path in files)) throw new Error(`Failed to read file ${path}`);
+      return files[path];
+    },
+    writeFile: async (path: string, content: string) => { files[path] = content; },
+    deleteFile: async (path: string) => { delete files[path]; },
+  };
+}
+
+async function saveRun(store: RunStore, id: string, journal: RevertJournal): Promise<void> {
+  const run: AgenticRunSnapshot = {
+    id,
+    ownerHash: 'owner',
+    status: 'completed',
+    createdAt: '',
+    updatedAt: '',
+    round: 1,
+    convo: [],
+    fileChanges: [],
+    seenFiles: [],
+    totalCost: 0,
+    events: [],
+    revert: { target: 'local', location: '/work', files: journal.snapshot() },
+  };
+  await store.save(run);
+}
+
+test('a local run is restored in one go and cannot be reverted twice', async () => {
+  const store = new MemoryRunStore();
+  setRunStore(store);
+  const fs = memoryFs({ 'a.ts': 'a2\n', 'new.ts': 'new\n', 'same.ts': 'same\n' });
+
+  // What the run did: edited a.ts twice, created new.ts, deleted old.ts, touched same.ts and put it back
+  const journal = new RevertJournal();
+  journal.record('a.ts', 'a0\n', 'a1\n');
+  journal.record('./a.ts', 'a1\n', 'a2\n');
+  journal.record('new.ts', null, 'new\n');
+  journal.record('old.ts', 'old\n', null);
+  journal.record('same.ts', 'same\n', 'changed\n');
+  journal.record('same.ts', 'changed\n', 'same\n');
+  assert.deepStrictEqual(journal.snapshot().map(file => file.path), ['a.ts', 'new.ts', 'old.ts']);
+  await saveRun(store, 'run-1', journal);
+
+  const elsewhere = await revertRun('run-1', createLocalRevertTarget(fs, '/other'));
+  assert.match(elsewhere.error!, /changed \/work, not \/other/);
+
+  const result = await revertRun('run-1', createLocalRevertTarget(fs, '/work'));
+  assert.strictEqual(result.success, true);
+  assert.deepStrictEqual(result.files.map(file => [file.action, file.path]), [['edit', 'a.ts'], ['delete', 'new.ts'], ['create', 'old.ts']]);
+  assert.deepStrictEqual(fs.files, { 'a.ts': 'a0\n', 'old.ts': 'old\n', 'same.ts': 'same\n' });
+  assert.ok((await store.load('run-1'))?.revert?.revertedAt);
+
+  assert.match((await revertRun('run-1', createLocalRevertTarget(fs, '/work'))).error!, /already reverted/);
+});
+
+test('files changed again since the run block the revert', async () => {
+  const store = new MemoryRunStore();
+  setRunStore(store);
+  const fs = memoryFs({ 'a.ts': 'edited by someone else\n', 'b.ts': 'b1\n' });
+
+  const journal = new RevertJournal();
+  journal.record('a.ts', 'a0\n', 'a1\n');
+  journal.record('b.ts', 'b0\n', 'b1\n');
+  journal.record('c.ts', null, 'c\n');
+  await saveRun(store, 'run-2', journal);
+
+  const result = await revertRun('run-2', createLocalRevertTarget(fs, '/work'));
+  assert.strictEqual(result.success, false);
+  assert.deepStrictEqual(result.conflicts, [
+    { path: 'a.ts', reason: 'Edited since the run' },
+    { path: 'c.ts', reason: 'Deleted since the run' },
+  ]);
+  assert.deepStrictEqual(fs.files, { 'a.ts': 'edited by someone else\n', 'b.ts': 'b1\n' });
+});
+
+test('a staged move records the source as deleted and the destination as created', () => {
+  const files = snapshotChangeset([
+    { path: 'docs/a.md', fromPath: 'a.md', action: 'move', before: 'text\n', after: 'text\n' },
+    { path: 'b.md', action: 'edit', before: 'b0\n', after: 'b1\n' },
+  ]);
+  assert.deepStrictEqual(files, [
+    { path: 'a.md', beforeSha: gitBlobSha('text\n'), afterSha: null },
+    { path: 'docs/a.md', beforeSha: null, afterSha: gitBlobSha('text\n') },
+    { path: 'b.md', beforeSha: gitBlobSha('b0\n'), afterSha: gitBlobSha('b1\n') },
+  ]);
+});
+
+test('rewinding several runs restores each file to before the first run that touched it', async () => {
+  const store = new MemoryRunStore();
+  setRunStore(store);
+  const fs = memoryFs({ 'a.ts': 'a2\n', 'b.ts': 'b1\n' });
+
+  const first = new RevertJournal();
+  first.record('a.ts', 'a0\n', 'a1\n');
+  first.record('tmp.ts', null, 'tmp\n');
+  await saveRun(store, 'run-3', first);
+  const second = new RevertJournal();
+  second.record('a.ts', 'a1\n', 'a2\n');
+  second.record('b.ts', 'b0\n', 'b1\n');
+  second.record('tmp.ts', 'tmp\n', null);
+  await saveRun(store, 'run-4', second);
+
+  const result = await revertRuns(['run-3', 'run-4'], createLocalRevertTarget(fs, '/work'));
+  assert.strictEqual(result.success, true);
+  assert.deepStrictEqual(result.files.map(file => file.path), ['a.ts', 'b.ts']); // tmp.ts came and went
+  assert.deepStrictEqual(fs.files, { 'a.ts': 'a0\n', 'b.ts': 'b0\n' });
+  assert.ok((await store.load('run-3'))?.revert?.revertedAt);
+});
+
+test('a run the memory store dropped is still reverted from its archived record', async () => {
+  const archive = new MemoryRunStore();
+  const store = new RevertArchiveRunStore(new MemoryRunStore(1), archive);
+  setRunStore(store);
+  const fs = memoryFs({ 'a.ts': 'a1\n' });
+
+  const journal = new RevertJournal();
+  journal.record('a.ts', 'a0\n', 'a1\n');
+  await saveRun(store, 'run-old', journal);
+  await saveRun(store, 'run-new', new RevertJournal());
+  assert.deepStrictEqual((await archive.load('run-old'))?.events, []);
+
+  const result = await revertRun('run-old', createLocalRevertTarget(fs, '/work'));
+  assert.strictEqual(result.success, true);
+  assert.deepStrictEqual(fs.files, { 'a.ts': 'a0\n' });
+  assert.ok((await archive.load('run-old'))?.revert?.revertedAt);
+});
+
+test('a dry run applied to the workspace later is reverted through its run', async () => {
+  const store = new MemoryRunStore();
+  setRunStore(store);
+  await saveRun(store, 'dry-run', new RevertJournal());
+  const fs = memoryFs({ 'docs/a.md': 'text\n', 'b.md': 'b1\n' });
+
+  const record = {
+    target: 'local' as const,
+    location: '/work',
+    files: snapshotChangeset([
+      { path: 'docs/a.md', fromPath: 'a.md', action: 'move', before: 'text\n', after: 'text\n' },
+      { path: 'b.md', action: 'edit', before: 'b0\n', after: 'b1\n' },
+    ], true),
+  };
+  assert.strictEqual(await attachRevertRecord('dry-run', 'someone else', record), false);
+  assert.strictEqual(await attachRevertRecord('dry-run', 'owner', record), true);
+
+  const result = await revertRun('dry-run', createLocalRevertTarget(fs, '/work'));
+  assert.strictEqual(result.success, true);
+  assert.deepStrictEqual(fs.files, { 'a.md': 'text\n', 'b.md': 'b0\n' });
+});
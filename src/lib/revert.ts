@@ -0,0 +1,256 @@
+// ============================================================================
+// REVERT - Undo an agentic run's file changes in one commit or write
+// Runs record each file's pre-edit blob SHA (GitHub) or content (local); a revert
+// restores them only if every file is still the way the run left it
+// ============================================================================
+
+import type { LocalFileSystem } from './filesystem';
+import { gitBlobSha } from './patch';
+import { getRunStore, loadRun } from './runRegistry';
+import { AgenticRunSnapshot, DryRunFileChange, FileChange, RevertFileSnapshot, RevertRunResult, RunRevertRecord } from '../types';
+
+// Where a revert writes; runs only revert into the location they changed
+export interface RevertTarget {
+  location: string;
+  // Current blob SHA of each path; null when the file does not exist
+  currentShas(paths: string[]): Promise<Map<string, string | null>>;
+  // Restore every file at once - all of them land or none do
+  restore(files: RevertFileSnapshot[], message: string): Promise<{ commitSha?: string; url?: string }>;
+}
+
+// The parts of GitHubClient a revert uses
+export interface RevertGitHubClient {
+  getBranchHead(branch: string): Promise<string>;
+  getBlobShas(paths: string[], commitSha: string): Promise<Map<string, string | null>>;
+  commitChangeset(
+    branch: string,
+    baseSha: string,
+    files: Array<{ path: string; content: null } | { path: string; blobSha: string }>,
+    message: string
+  ): Promise<{ success: boolean; sha?: string; url?: string; error?: string }>;
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.trim().replace(/^\.?\/+/, '');
+}
+
+function blobSha(content: string | null): string | null {
+  return content === null ? null : gitBlobSha(content);
+}
+
+export function githubLocation(owner: string, repo: string, branch: string): string {
+  return `${owner}/${repo}@${branch}`;
+}
+
+// ----------------------------------------------------------------------------
+// Recording
+// ----------------------------------------------------------------------------
+
+// Local runs write as they go: keep the content each path had before its first write
+export class RevertJournal {
+  private files = new Map<string, { before: string | null; after: string | null }>();
+
+  record(path: string, before: string | null, after: string | null): void {
+    const key = normalizePath(path);
+    const existing = this.files.get(key);
+    this.files.set(key, { before: existing ? existing.before : before, after });
+  }
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  snapshot(): RevertFileSnapshot[] {
+    return [...this.files]
+      .filter(([, file]) => file.before !== file.after) // Changed and changed back
+      .map(([path, file]) => ({
+        path,
+        beforeSha: blobSha(file.before),
+        afterSha: blobSha(file.after),
+        ...(file.before !== null ? { beforeContent: file.before } : {}),
+      }));
+  }
+}
+
+// GitHub runs stage through the overlay, whose changeset already holds both versions.
+// withContent keeps the pre-edit content too, for changesets applied to a local workspace.
+export function snapshotChangeset(files: DryRunFileChange[], withContent = false): RevertFileSnapshot[] {
+  const content = (before: string | null) => withContent && before !== null ? { beforeContent: before } : {};
+  return files.flatMap((file): RevertFileSnapshot[] => file.action === 'move' && file.fromPath
+    ? [
+        { path: file.fromPath, beforeSha: blobSha(file.before), afterSha: null, ...content(file.before) },
+        { path: file.path, beforeSha: null, afterSha: blobSha(file.after) },
+      ]
+    : [{ path: file.path, beforeSha: blobSha(file.before), afterSha: blobSha(file.after), ...content(file.before) }]);
+}
+
+// A dry run applied later is reverted like any other run: the record goes on the run that
+// produced the changeset. Returns false when that run is gone or already has changes of its own.
+export async function attachRevertRecord(runId: string, ownerHash: string, record: RunRevertRecord): Promise<boolean> {
+  const run = await loadRun(runId);
+  if (!run || run.ownerHash !== ownerHash || run.status === 'running' || (run.revert?.files.length ?? 0) > 0) return false;
+  run.revert = record;
+  await getRunStore().save(run);
+  return true;
+}
+
+// ----------------------------------------------------------------------------
+// Reverting
+// ----------------------------------------------------------------------------
+
+function conflictReason(file: RevertFileSnapshot, current: string | null): string | null {
+  if (current === file.afterSha) return null;
+  if (current === null) return 'Deleted since the run';
+  if (file.afterSha === null) return 'Created again since the run';
+  return 'Edited since the run';
+}
+
+function failed(error: string, conflicts: RevertRunResult['conflicts'] = []): RevertRunResult {
+  return { success: false, files: [], conflicts, error };
+}
+
+// Net effect of several runs on each file: the state before the first run that touched it,
+// and the state the last one left behind. Runs are given oldest first.
+export function mergeSnapshots(records: RevertFileSnapshot[][]): RevertFileSnapshot[] {
+  const merged = new Map<string, RevertFileSnapshot>();
+  for (const files of records) {
+    for (const file of files) {
+      const earlier = merged.get(file.path);
+      merged.set(file.path, earlier ? { ...earlier, afterSha: file.afterSha } : { ...file });
+    }
+  }
+  return [...merged.values()].filter(file => file.beforeSha !== file.afterSha);
+}
+
+export async function revertRun(runId: string, target: RevertTarget): Promise<RevertRunResult> {
+  return revertRuns([runId], target);
+}
+
+// Undo several runs (oldest first) in one commit or write, e.g. to rewind a conversation
+export async function revertRuns(runIds: string[], target: RevertTarget): Promise<RevertRunResult> {
+  const runs: AgenticRunSnapshot[] = [];
+  for (const runId of runIds) {
+    const run = await loadRun(runId);
+    if (!run) return failed(runIds.length > 1 ? `Run ${runId.slice(0, 8)} is no longer stored` : 'Run not found');
+    const label = runIds.length > 1 ? `Run ${runId.slice(0, 8)}` : 'This run';
+    if (run.status === 'running') return failed(`${label} is still going - stop it before reverting`);
+
+    const record = run.revert;
+    if (!record || record.files.length === 0) {
+      if (runIds.length > 1) continue; // Nothing to undo for this one
+      return failed('This run did not change any files');
+    }
+    if (record.revertedAt) {
+      return failed(`${label} was already reverted${record.revertCommitSha ? ` in ${record.revertCommitSha.slice(0, 7)}` : ''}`);
+    }
+    if (record.location !== target.location) {
+      return failed(`${label} changed ${record.location}, not ${target.location}`);
+    }
+    if (record.target === 'local' && record.files.some(file => file.beforeSha !== null && file.beforeContent === undefined)) {
+      return failed(`${label} has no pre-edit snapshot to restore`);
+    }
+    runs.push(run);
+  }
+  if (runs.length === 0) return failed('These runs did not change any files');
+
+  const files = mergeSnapshots(runs.map(run => run.revert!.files));
+  const current = await target.currentShas(files.map(file => file.path));
+  const conflicts = files
+    .map(file => ({ path: file.path, reason: conflictReason(file, current.get(file.path) ?? null) }))
+    .filter((conflict): conflict is { path: string; reason: string } => conflict.reason !== null);
+  if (conflicts.length > 0) {
+    return failed(
+      `${conflicts.length} file${conflicts.length > 1 ? 's were' : ' was'} changed again since the run - nothing was reverted`,
+      conflicts
+    );
+  }
+
+  const commits = runs.map(run => run.revert!.commitSha).filter((sha): sha is string => !!sha);
+  const message = [
+    runs.length === 1 ? `Revert agent run ${runs[0].id.slice(0, 8)}` : `Rewind ${runs.length} agent runs`,
+    '',
+    ...(commits.length > 0 ? [`This reverts ${commits.length === 1 ? 'commit' : 'commits'} ${commits.join(', ')}.`, ''] : []),
+    ...files.map(file => `- ${file.path}`),
+  ].join('\n');
+
+  let restored: { commitSha?: string; url?: string };
+  try {
+    restored = await target.restore(files, message);
+  } catch (error) {
+    return failed(`Revert failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const revertedAt = new Date().toISOString();
+  for (const run of runs) {
+    run.revert!.revertedAt = revertedAt;
+    run.revert!.revertCommitSha = restored.commitSha;
+    await getRunStore().save(run);
+  }
+
+  const changes: FileChange[] = files.map(file => ({
+    path: file.path,
+    action: file.afterSha === null ? 'create' : file.beforeSha === null ? 'delete' : 'edit',
+  }));
+  return { success: true, files: changes, conflicts: [], ...restored };
+}
+
+// ----------------------------------------------------------------------------
+// Targets
+// ----------------------------------------------------------------------------
+
+export function createLocalRevertTarget(
+  localFs: Pick<LocalFileSystem, 'readFile' | 'writeFile' | 'deleteFile'>,
+  workspacePath: string
+): RevertTarget {
+  const read = (path: string) => localFs.readFile(path).catch(() => null);
+  const write = (path: string, content: string | null) => content === null ? localFs.deleteFile(path) : localFs.writeFile(path, content);
+
+  return {
+    location: workspacePath,
+    currentShas: async (paths) => new Map(await Promise.all(paths.map(async (path) => [path, blobSha(await read(path))] as const))),
+    restore: async (files) => {
+      // Undo the writes already made if a later one fails
+      const undo: Array<{ path: string; content: string | null }> = [];
+      try {
+        for (const file of files) {
+          undo.push({ path: file.path, content: await read(file.path) });
+          await write(file.path, file.beforeSha === null ? null : file.beforeContent!);
+        }
+      } catch (error) {
+        for (const { path, content } of undo.reverse()) {
+          await write(path, content).catch(() => undefined);
+        }
+        throw error;
+      }
+      return {};
+    },
+  };
+}
+
+// Restored files reuse their pre-edit blobs, so nothing is uploaded again
+export function createGitHubRevertTarget(
+  github: RevertGitHubClient,
+  owner: string,
+  repo: string,
+  branch: string
+): RevertTarget {
+  let headSha = '';
+
+  return {
+    location: githubLocation(owner, repo, branch),
+    currentShas: async (paths) => {
+      headSha = await github.getBranchHead(branch);
+      return github.getBlobShas(paths, headSha);
+    },
+    restore: async (files, message) => {
+      const commit = await github.commitChangeset(
+        branch,
+        headSha, // Checked against the head the SHAs were read from
+        files.map(file => file.beforeSha === null ? { path: file.path, content: null } : { path: file.path, blobSha: file.beforeSha }),
+        message
+      );
+      if (!commit.success) throw new Error(commit.error || 'Commit failed');
+      return { commitSha: commit.sha, url: commit.url };
+    },
+  };
+}
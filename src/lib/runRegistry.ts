@@ -0,0 +1,290 @@
+// ============================================================================
+// RUN REGISTRY - Agentic runs that outlive the HTTP request that started them
+// Each round is checkpointed to a pluggable store; clients reattach by run ID
+// ============================================================================
+
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import { AgenticRunSnapshot, AgenticRunStatus } from '@/types';
+
+// ----------------------------------------------------------------------------
+// Stores
+// ----------------------------------------------------------------------------
+
+export interface RunStore {
+  load(id: string): Promise<AgenticRunSnapshot | null>;
+  save(snapshot: AgenticRunSnapshot): Promise<void>;
+}
+
+export class MemoryRunStore implements RunStore {
+  private runs = new Map<string, AgenticRunSnapshot>();
+
+  constructor(private maxRuns: number = 50) {}
+
+  async load(id: string): Promise<AgenticRunSnapshot | null> {
+    return this.runs.get(id) ?? null;
+  }
+
+  async save(snapshot: AgenticRunSnapshot): Promise<void> {
+    this.runs.delete(snapshot.id); // Re-insert so Map order tracks recency
+    this.runs.set(snapshot.id, snapshot);
+    while (this.runs.size > this.maxRuns) {
+      const oldest = this.runs.keys().next().value;
+      if (oldest === undefined) break;
+      this.runs.delete(oldest);
+    }
+  }
+}
+
+export class JsonFileRunStore implements RunStore {
+  constructor(private directory: string) {}
+
+  private filePath(id: string): string {
+    // Run IDs are UUIDs - reject anything else so IDs can't escape the directory
+    if (!/^[a-f0-9-]{36}$/i.test(id)) {
+      throw new Error(`Invalid run ID: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  async load(id: string): Promise<AgenticRunSnapshot | null> {
+    const fs = await import('fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf-8')) as AgenticRunSnapshot;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(snapshot: AgenticRunSnapshot): Promise<void> {
+    const fs = await import('fs/promises');
+    const target = this.filePath(snapshot.id);
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temp file first so a crash never leaves a half-written run
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(snapshot), 'utf-8');
+    await fs.rename(tmp, target);
+  }
+}
+
+// Runs in one store, and a copy of each finished run without its conversation and events in
+// another. Revert and rewind only need the copy, so they keep working for runs the first
+// store has dropped - after a restart, or past the memory store's limit.
+export class RevertArchiveRunStore implements RunStore {
+  constructor(private runs: RunStore, private archive: RunStore) {}
+
+  async load(id: string): Promise<AgenticRunSnapshot | null> {
+    return (await this.runs.load(id)) ?? this.archive.load(id);
+  }
+
+  async save(snapshot: AgenticRunSnapshot): Promise<void> {
+    await this.runs.save(snapshot);
+    if (snapshot.status === 'running') return; // A crash must not leave a run that looks busy forever
+    await this.archive.save({ ...snapshot, convo: [], events: [], seenFiles: [] });
+  }
+}
+
+let runStore: RunStore | null = null;
+
+// RUN_STORE=file persists runs under RUN_STORE_DIR (default .cache/runs). Otherwise runs are kept
+// in memory and only what a revert needs is written under REVERT_STORE_DIR (default .cache/reverts).
+export function getRunStore(): RunStore {
+  if (!runStore) {
+    runStore = process.env.RUN_STORE === 'file'
+      ? new JsonFileRunStore(process.env.RUN_STORE_DIR || path.join(process.cwd(), '.cache', 'runs'))
+      : new RevertArchiveRunStore(
+          new MemoryRunStore(),
+          new JsonFileRunStore(process.env.REVERT_STORE_DIR || path.join(process.cwd(), '.cache', 'reverts'))
+        );
+  }
+  return runStore;
+}
+
+export function setRunStore(store: RunStore): void {
+  runStore = store;
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+// ----------------------------------------------------------------------------
+// Live Runs
+// ----------------------------------------------------------------------------
+
+type RunListener = (line: string | null) => void; // null = run finished
+
+const LIVE_RUNS = new Map<string, LiveRun>();
+const FINISHED_RUN_RETENTION_MS = 10 * 60 * 1000; // Keep finished runs in memory briefly for fast replay
+
+export class LiveRun {
+  readonly snapshot: AgenticRunSnapshot;
+  private listeners = new Set<RunListener>();
+  private cancelled = false;
+  private commands = new Map<string, AbortController>(); // Running commands by tool use ID
+
+  constructor(ownerHash: string) {
+    const now = new Date().toISOString();
+    this.snapshot = {
+      id: randomUUID(),
+      ownerHash,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      round: 0,
+      convo: [],
+      fileChanges: [],
+      seenFiles: [],
+      totalCost: 0,
+      events: [],
+    };
+  }
+
+  get id(): string {
+    return this.snapshot.id;
+  }
+
+  get isFinished(): boolean {
+    return this.snapshot.status !== 'running';
+  }
+
+  emit(chunk: Record<string, unknown>): void {
+    const line = JSON.stringify(chunk);
+    this.snapshot.events.push(line);
+    for (const listener of this.listeners) {
+      listener(line);
+    }
+  }
+
+  async checkpoint(state: Partial<Pick<AgenticRunSnapshot, 'round' | 'convo' | 'fileChanges' | 'seenFiles' | 'totalCost' | 'revert'>>): Promise<void> {
+    Object.assign(this.snapshot, state, { updatedAt: new Date().toISOString() });
+    await this.persist();
+  }
+
+  async finish(status: Exclude<AgenticRunStatus, 'running'>, error?: string): Promise<void> {
+    this.snapshot.status = status;
+    this.snapshot.error = error;
+    this.snapshot.updatedAt = new Date().toISOString();
+    await this.persist();
+
+    for (const listener of this.listeners) {
+      listener(null);
+    }
+    this.listeners.clear();
+
+    setTimeout(() => LIVE_RUNS.delete(this.id), FINISHED_RUN_RETENTION_MS);
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    for (const controller of this.commands.values()) {
+      controller.abort();
+    }
+  }
+
+  // Register a running command so it can be cancelled on its own, without stopping the run
+  registerCommand(toolUseId: string): AbortSignal {
+    const controller = new AbortController();
+    if (this.cancelled) controller.abort();
+    this.commands.set(toolUseId, controller);
+    return controller.signal;
+  }
+
+  releaseCommand(toolUseId: string): void {
+    this.commands.delete(toolUseId);
+  }
+
+  cancelCommand(toolUseId: string): boolean {
+    const controller = this.commands.get(toolUseId);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
+
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  subscribe(listener: RunListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await getRunStore().save(this.snapshot);
+    } catch (error) {
+      // Persistence is best-effort - never break the live run because the store failed
+      console.warn(`Failed to persist run ${this.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+export function createRun(ownerHash: string): LiveRun {
+  const run = new LiveRun(ownerHash);
+  LIVE_RUNS.set(run.id, run);
+  return run;
+}
+
+export function getLiveRun(id: string): LiveRun | null {
+  return LIVE_RUNS.get(id) ?? null;
+}
+
+export async function loadRun(id: string): Promise<AgenticRunSnapshot | null> {
+  const live = LIVE_RUNS.get(id);
+  if (live) return live.snapshot;
+  try {
+    return await getRunStore().load(id);
+  } catch {
+    return null;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Streams - replay the event log from an offset, then follow the live run
+// ----------------------------------------------------------------------------
+
+export function createRunStream(runId: string, fromEvent: number = 0, snapshot?: AgenticRunSnapshot): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const live = LIVE_RUNS.get(runId);
+      const events = live ? live.snapshot.events : snapshot?.events ?? [];
+
+      const send = (line: string) => {
+        try {
+          controller.enqueue(encoder.encode(line + '\n'));
+        } catch {
+          // Client went away - the run keeps going without this subscriber
+          unsubscribe?.();
+        }
+      };
+
+      for (const line of events.slice(Math.max(0, fromEvent))) {
+        send(line);
+      }
+
+      if (!live || live.isFinished) {
+        controller.close();
+        return;
+      }
+
+      unsubscribe = live.subscribe(line => {
+        if (line === null) {
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+          return;
+        }
+        send(line);
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { diagnoseMissingString, findSimilarRegions, replaceUnique } from './strReplace';
+
+const file = [
+  'export function greet(user) {',
+  '\tif (user) {',
+  '\t\treturn `Hello ${user.name}`;',
+  '\t}',
+  "\treturn 'Hello';",
+  '}',
+  '',
+].join('\n');
+
+test('replaces a unique exact match and refuses ambiguous ones', () => {
+  assert.strictEqual(replaceUnique('a.ts', file, "'Hello'", "'Hi'").content, file.replace("'Hello'", "'Hi'"));
+  assert.match(replaceUnique('a.ts', 'x\nx\n', 'x', 'y').error!, /found 2 times/);
+});
+
+test('a whitespace-only mismatch is reported with line numbers, or applied when allowed', () => {
+  const oldStr = '  if (user) {\n    return `Hello ${user.name}`;\n  }';
+  const newStr = '  if (user) {\n    return `Hi ${user.name}`;\n  }';
+
+  const refused = replaceUnique('a.ts', file, oldStr, newStr);
+  assert.strictEqual(refused.success, false);
+  assert.match(refused.error!, /matches lines 2-4 except for whitespace \(the file indents with tabs, old_str with spaces\)/);
+  assert.match(refused.error!, /^\+\t\treturn `Hello \$\{user\.name\}`;$/m);
+
+  const fixed = replaceUnique('a.ts', file, oldStr, newStr, { autoFixWhitespace: true });
+  assert.strictEqual(fixed.note, 'old_str matched lines 2-4 after normalizing whitespace');
+  assert.strictEqual(fixed.content, file.replace('Hello ${user', 'Hi ${user'));
+});
+
+test('typos point at the closest region with an inline diff', () => {
+  const regions = findSimilarRegions(file, "  return 'Helo';\n}");
+  assert.deepStrictEqual([regions[0].startLine, regions[0].endLine], [5, 6]);
+  assert.ok(regions[0].similarity > 0.8);
+
+  const message = diagnoseMissingString('a.ts', file, "return 'Helo';");
+  assert.match(message, /Lines 5-5 \(\d+% similar\)/);
+  assert.match(message, /@@ old_str vs a\.ts:5 @@|@@ old_str vs a\.ts:5-5 @@/);
+  assert.match(message, /^-return 'Helo';\n\+\treturn 'Hello';$/m);
+});
+
+test('unrelated text yields no candidates', () => {
+  assert.match(diagnoseMissingString('a.ts', file, 'class Database {}'), /no similar text was found/);
+});
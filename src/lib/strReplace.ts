@@ -0,0 +1,282 @@
+// ============================================================================
+// STR_REPLACE - Unique-match replacement with diagnostics when old_str is missing
+// Finds where old_str most nearly is (whitespace-normalized, then edit distance)
+// and shows the difference, so the next attempt does not have to guess
+// ============================================================================
+
+import { createUnifiedDiff } from './diff';
+
+export interface StrReplaceResult {
+  success: boolean;
+  content?: string;
+  note?: string; // Set when old_str only matched after normalizing whitespace
+  error?: string;
+}
+
+export interface TextRegion {
+  start: number; // Offsets into the file content
+  end: number;
+  startLine: number; // 1-based
+  endLine: number;
+  similarity: number; // 0-1; 1 means equal ignoring whitespace
+}
+
+const MAX_CANDIDATES = 3;
+const MIN_SIMILARITY = 0.5;
+const MAX_DISTANCE_CHARS = 2000; // Longer texts are compared on their first 2000 characters
+
+function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < content.length; i++) {
+    if (content[i] === '\n') line++;
+  }
+  return line;
+}
+
+// ----------------------------------------------------------------------------
+// Whitespace-normalized matching
+// ----------------------------------------------------------------------------
+
+// Collapse whitespace runs to one space; map[i] is the original offset of normalized char i
+function normalizeWithMap(text: string): { normalized: string; map: number[] } {
+  let normalized = '';
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (normalized.length > 0 && normalized[normalized.length - 1] !== ' ') {
+        normalized += ' ';
+        map.push(i);
+      }
+      continue;
+    }
+    normalized += text[i];
+    map.push(i);
+  }
+  if (normalized.endsWith(' ')) {
+    normalized = normalized.slice(0, -1);
+    map.pop();
+  }
+  return { normalized, map };
+}
+
+// Regions equal to needle when all whitespace runs count as one space.
+// Each region is widened over the surrounding whitespace needle itself starts or ends with.
+export function findWhitespaceMatches(content: string, needle: string): TextRegion[] {
+  const { normalized: hay, map } = normalizeWithMap(content);
+  const target = normalizeWithMap(needle).normalized;
+  if (!target) return [];
+
+  const leadingNewlines = (needle.match(/^\s*/)?.[0].match(/\n/g) ?? []).length;
+  const trailingNewlines = (needle.match(/\s*$/)?.[0].match(/\n/g) ?? []).length;
+  const regions: TextRegion[] = [];
+
+  for (let at = hay.indexOf(target); at >= 0; at = hay.indexOf(target, at + 1)) {
+    // Only whole-token matches: "foo" should not match inside "foobar"
+    const before = hay[at - 1];
+    const after = hay[at + target.length];
+    if ((before && /\w/.test(before) && /^\w/.test(target)) || (after && /\w/.test(after) && /\w$/.test(target))) continue;
+
+    let start = map[at];
+    let end = map[at + target.length - 1] + 1;
+    if (/^\s/.test(needle)) start = widen(content, start, -1, leadingNewlines);
+    if (/\s$/.test(needle)) end = widen(content, end, 1, trailingNewlines);
+    regions.push({ start, end, startLine: lineAt(content, start), endLine: lineAt(content, end - 1), similarity: 1 });
+  }
+  return regions;
+}
+
+// Extend over spaces and tabs, and over at most `newlines` line breaks
+function widen(content: string, index: number, direction: -1 | 1, newlines: number): number {
+  let crossed = 0;
+  let i = index;
+  while (true) {
+    const ch = direction < 0 ? content[i - 1] : content[i];
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      i += direction;
+    } else if (ch === '\n' && crossed < newlines) {
+      crossed++;
+      i += direction;
+    } else {
+      return i;
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Edit-distance matching - line windows ranked by shared tokens, then scored
+// ----------------------------------------------------------------------------
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : 1 + Math.min(previous[j - 1], previous[j], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+}
+
+export function similarity(a: string, b: string): number {
+  const left = normalizeWithMap(a).normalized.slice(0, MAX_DISTANCE_CHARS);
+  const right = normalizeWithMap(b).normalized.slice(0, MAX_DISTANCE_CHARS);
+  const longest = Math.max(left.length, right.length);
+  return longest === 0 ? 1 : 1 - levenshtein(left, right) / longest;
+}
+
+function tokens(line: string): Set<string> {
+  return new Set(line.match(/[\w$]+|[^\s\w$]/g) ?? []);
+}
+
+export function findSimilarRegions(content: string, needle: string, limit: number = MAX_CANDIDATES): TextRegion[] {
+  const lines = content.split('\n');
+  const wanted = needle.replace(/^\s*\n|\n\s*$/g, '').split('\n');
+  const size = Math.min(wanted.length, lines.length);
+  if (size === 0) return [];
+
+  const lineTokens = lines.map(tokens);
+  const wantedTokens = wanted.map(tokens);
+  const offsets: number[] = [];
+  for (let i = 0, offset = 0; i < lines.length; offset += lines[i].length + 1, i++) offsets.push(offset);
+
+  // Cheap ranking first: the share of each requested line's tokens found on the matching line
+  const ranked: Array<{ start: number; score: number }> = [];
+  for (let start = 0; start + size <= lines.length; start++) {
+    let score = 0;
+    for (let i = 0; i < size; i++) {
+      const want = wantedTokens[i];
+      if (want.size === 0) continue;
+      let shared = 0;
+      for (const token of want) if (lineTokens[start + i].has(token)) shared++;
+      score += shared / want.size;
+    }
+    if (score > 0) ranked.push({ start, score });
+  }
+  ranked.sort((a, b) => b.score - a.score || a.start - b.start);
+
+  const regions: TextRegion[] = [];
+  for (const { start } of ranked) {
+    if (regions.length >= limit * 3) break;
+    if (regions.some(region => start + 1 <= region.endLine && start + size >= region.startLine)) continue; // Overlaps a better window
+    const end = offsets[start + size - 1] + lines[start + size - 1].length;
+    const score = similarity(content.slice(offsets[start], end), needle);
+    if (score >= MIN_SIMILARITY) {
+      regions.push({ start: offsets[start], end, startLine: start + 1, endLine: start + size, similarity: score });
+    }
+  }
+  return regions.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+}
+
+// ----------------------------------------------------------------------------
+// Diagnostics and replacement
+// ----------------------------------------------------------------------------
+
+function describeIndentation(text: string): string | null {
+  const indents = text.split('\n').map(line => line.match(/^[ \t]*/)![0]).filter(Boolean);
+  if (indents.some(indent => indent.includes('\t'))) return 'tabs';
+  if (indents.length > 0) return 'spaces';
+  return null;
+}
+
+// The requested text against one candidate, as a unified diff with file line numbers
+function inlineDiff(path: string, needle: string, content: string, region: TextRegion): string {
+  const actual = content.slice(region.start, region.end);
+  const { diff } = createUnifiedDiff('old_str', needle.endsWith('\n') ? needle : `${needle}\n`, actual.endsWith('\n') ? actual : `${actual}\n`);
+  const body = diff
+    .split('\n')
+    .slice(2) // Drop the ---/+++ headers
+    .filter(line => !line.startsWith('\\'))
+    .map(line => line.replace(/^@@ -\d+(,\d+)? \+(\d+)(,\d+)? @@/, (_, _old, newStart, newCount) =>
+      `@@ old_str vs ${path}:${region.startLine + Number(newStart) - 1}${newCount ? `-${region.startLine + Number(newStart) + Number(newCount.slice(1)) - 2}` : ''} @@`))
+    .join('\n')
+    .trimEnd();
+  return body || '(identical)';
+}
+
+export function diagnoseMissingString(path: string, content: string, needle: string): string {
+  const exact = findWhitespaceMatches(content, needle);
+  const candidates = exact.length > 0 ? exact.slice(0, MAX_CANDIDATES) : findSimilarRegions(content, needle);
+
+  if (candidates.length === 0) {
+    return `Error: old_str not found in ${path}, and no similar text was found. Check the path, or read_file the section you want to change.`;
+  }
+
+  const parts = [`Error: old_str not found in ${path}.`];
+  if (exact.length > 0) {
+    const fileIndent = describeIndentation(content.slice(exact[0].start, exact[0].end));
+    const requestedIndent = describeIndentation(needle);
+    const hint = fileIndent && requestedIndent && fileIndent !== requestedIndent
+      ? ` (the file indents with ${fileIndent}, old_str with ${requestedIndent})`
+      : '';
+    parts.push(exact.length === 1
+      ? `It matches lines ${exact[0].startLine}-${exact[0].endLine} except for whitespace${hint}:`
+      : `It matches ${exact.length} places except for whitespace${hint}, e.g.:`);
+  } else {
+    parts.push(`Closest match${candidates.length > 1 ? 'es' : ''} (lines starting with - are old_str, + are the file):`);
+  }
+
+  for (const region of candidates) {
+    if (exact.length === 0) {
+      parts.push(`Lines ${region.startLine}-${region.endLine} (${Math.round(region.similarity * 100)}% similar):`);
+    }
+    parts.push(inlineDiff(path, needle, content, region));
+  }
+  parts.push('Copy old_str exactly from the + lines above, or read_file those lines first.');
+  return parts.join('\n');
+}
+
+// Re-indent new_str by the same change the file needs relative to old_str
+function reindent(newStr: string, needle: string, actual: string): string {
+  const firstIndent = (text: string) => text.split('\n').find(line => line.trim())?.match(/^[ \t]*/)![0] ?? '';
+  const from = firstIndent(needle);
+  const to = firstIndent(actual);
+  if (from === to) return newStr;
+
+  const uniform = (indent: string) => indent.length > 0 && [...indent].every(ch => ch === indent[0]);
+  if (uniform(from) && uniform(to) && from[0] !== to[0] && from.length % to.length === 0) {
+    // Same depth in a different unit (e.g. two spaces per level vs one tab): convert every line
+    const perLevel = from.length / to.length;
+    return newStr.split('\n').map(line => {
+      const lead = line.match(from[0] === '\t' ? /^\t*/ : /^ */)![0];
+      return to[0].repeat(Math.floor(lead.length / perLevel)) + from[0].repeat(lead.length % perLevel) + line.slice(lead.length);
+    }).join('\n');
+  }
+  return newStr.split('\n').map(line => line.startsWith(from) ? to + line.slice(from.length) : line).join('\n');
+}
+
+export function replaceUnique(
+  path: string,
+  content: string,
+  oldStr: string,
+  newStr: string,
+  options: { autoFixWhitespace?: boolean } = {}
+): StrReplaceResult {
+  const count = oldStr ? content.split(oldStr).length - 1 : 0;
+  if (count > 1) {
+    return { success: false, error: `Error: old_str found ${count} times in ${path}. Must be unique - include more surrounding lines.` };
+  }
+  if (count === 1) {
+    return { success: true, content: content.replace(oldStr, () => newStr) };
+  }
+
+  // A single candidate that differs only in whitespace is unambiguous enough to apply
+  const matches = options.autoFixWhitespace ? findWhitespaceMatches(content, oldStr) : [];
+  if (matches.length === 1) {
+    const [match] = matches;
+    const actual = content.slice(match.start, match.end);
+    return {
+      success: true,
+      content: content.slice(0, match.start) + reindent(newStr, oldStr, actual) + content.slice(match.end),
+      note: `old_str matched lines ${match.startLine}-${match.endLine} after normalizing whitespace`,
+    };
+  }
+
+  return { success: false, error: diagnoseMissingString(path, content, oldStr) };
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { parseSummaryResponse } from './summarizer';
+
+test('a JSON summary is parsed, dropping entries that are not strings', () => {
+  const summary = parseSummaryResponse(JSON.stringify({
+    narrative: '  Adding dark mode to the settings page. ',
+    filesTouched: ['src/app/page.tsx', ' ', 42],
+    decisions: ['Use CSS variables', { nested: true }],
+    openTodos: 'not a list',
+  }), 6);
+  assert.deepStrictEqual(summary, {
+    narrative: 'Adding dark mode to the settings page.',
+    filesTouched: ['src/app/page.tsx', '42'],
+    decisions: ['Use CSS variables'],
+    openTodos: [],
+    constraints: [],
+    summarizedCount: 6,
+  });
+});
+
+test('JSON inside a code fence or surrounding prose is found', () => {
+  const summary = parseSummaryResponse('Here is the summary:\n```json\n{"narrative": "Fixing auth", "constraints": ["No new deps"]}\n```', 3);
+  assert.strictEqual(summary.narrative, 'Fixing auth');
+  assert.deepStrictEqual(summary.constraints, ['No new deps']);
+});
+
+test('unparseable output becomes the narrative', () => {
+  assert.deepStrictEqual(parseSummaryResponse(' The user asked for {a refactor ', 2), {
+    narrative: 'The user asked for {a refactor',
+    filesTouched: [],
+    decisions: [],
+    openTodos: [],
+    constraints: [],
+    summarizedCount: 2,
+  });
+  const truncated = parseSummaryResponse('{"narrative": "Cut off", "filesTouched": ["a.ts"', 2);
+  assert.strictEqual(truncated.narrative, '{"narrative": "Cut off", "filesTouched": ["a.ts"');
+});
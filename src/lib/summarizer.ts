@@ -0,0 +1,164 @@
+// ============================================================================
+// CONVERSATION SUMMARIZER - Compress older turns with a cheap model
+// Keeps files, decisions, TODOs and user constraints instead of dropping them
+// ============================================================================
+
+import { createHash } from 'crypto';
+import { ClaudeClient } from './claude';
+import { ConversationSummary, ModelType, APP_CONSTANTS } from '../types';
+
+type SummaryMessage = { role: 'user' | 'assistant'; content: string };
+
+export const SUMMARY_MODEL: ModelType = 'claude-haiku-4-5-20251001';
+
+// Module-level cache so summaries survive across requests (a new route handler runs per request)
+const SUMMARY_CACHE = new Map<string, { summary: ConversationSummary; fingerprint: string; timestamp: number }>();
+const SUMMARY_CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours
+const MAX_SUMMARY_ENTRIES = 100;
+const MAX_MESSAGE_CHARS = 4000; // Per message, keeps the Haiku call cheap
+
+const SUMMARY_SYSTEM_PROMPT = `You summarize earlier turns of a coding session so the assistant can continue without them.
+
+Return ONLY a JSON object with these keys:
+- "narrative": 2-4 sentences describing the task and where it stands
+- "filesTouched": file paths that were read, created or edited
+- "decisions": decisions that were made (approach, naming, libraries)
+- "openTodos": work that was requested or promised but not finished
+- "constraints": explicit user requirements and restrictions
+
+Use arrays of short strings. Keep exact file paths, identifiers and error messages. Do not invent anything.`;
+
+function cleanupSummaryCache(): void {
+  const now = Date.now();
+  for (const [key, value] of SUMMARY_CACHE.entries()) {
+    if (now - value.timestamp > SUMMARY_CACHE_TTL) SUMMARY_CACHE.delete(key);
+  }
+  if (SUMMARY_CACHE.size <= MAX_SUMMARY_ENTRIES) return;
+
+  const oldest = Array.from(SUMMARY_CACHE.entries()).sort((a, b) => a[1].timestamp - b[1].timestamp);
+  for (const [key] of oldest.slice(0, SUMMARY_CACHE.size - MAX_SUMMARY_ENTRIES)) {
+    SUMMARY_CACHE.delete(key);
+  }
+}
+
+function fingerprintMessages(messages: SummaryMessage[]): string {
+  const hash = createHash('sha1');
+  for (const m of messages) {
+    hash.update(`${m.role}\u0000${m.content}\u0001`);
+  }
+  return hash.digest('hex');
+}
+
+function toStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string | number => typeof v === 'string' || typeof v === 'number')
+    .map(v => String(v).trim())
+    .filter(Boolean);
+}
+
+function mergeUnique(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+export function parseSummaryResponse(text: string, summarizedCount: number): ConversationSummary {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]) as Record<string, unknown>;
+      return {
+        narrative: typeof parsed.narrative === 'string' ? parsed.narrative.trim() : '',
+        filesTouched: toStringArray(parsed.filesTouched),
+        decisions: toStringArray(parsed.decisions),
+        openTodos: toStringArray(parsed.openTodos),
+        constraints: toStringArray(parsed.constraints),
+        summarizedCount,
+      };
+    } catch {
+      // Fall through to plain-text summary
+    }
+  }
+
+  return {
+    narrative: text.trim(),
+    filesTouched: [],
+    decisions: [],
+    openTodos: [],
+    constraints: [],
+    summarizedCount,
+  };
+}
+
+export function formatSummaryForPrompt(summary: ConversationSummary): string {
+  const section = (title: string, items: string[]) =>
+    items.length > 0 ? `\n${title}:\n${items.map(i => `- ${i}`).join('\n')}` : '';
+
+  return `[Summary of the previous ${summary.summarizedCount} messages]
+${summary.narrative || 'No narrative available.'}${section('Files touched', summary.filesTouched)}${section('Decisions', summary.decisions)}${section('Open TODOs', summary.openTodos)}${section('User constraints', summary.constraints)}`;
+}
+
+function formatTranscript(messages: SummaryMessage[]): string {
+  return messages.map(m => {
+    const content = m.content.length > MAX_MESSAGE_CHARS
+      ? `${m.content.slice(0, MAX_MESSAGE_CHARS)}\n...(truncated)`
+      : m.content;
+    return `### ${m.role.toUpperCase()}\n${content}`;
+  }).join('\n\n');
+}
+
+// ----------------------------------------------------------------------------
+// Summarize everything except the most recent turns
+// Cached summaries are reused as-is, or extended with only the new messages
+// ----------------------------------------------------------------------------
+
+export async function summarizeConversation(
+  anthropicKey: string,
+  conversationId: string | undefined,
+  messages: SummaryMessage[],
+  keepRecent: number = APP_CONSTANTS.SUMMARY_KEEP_RECENT
+): Promise<{ summary: ConversationSummary; cost: number; cached: boolean }> {
+  cleanupSummaryCache();
+
+  const older = messages.slice(0, -keepRecent);
+  const cacheKey = conversationId || fingerprintMessages(messages.slice(0, 1));
+  const cached = SUMMARY_CACHE.get(cacheKey);
+
+  // Reuse the cached summary only if the messages it covers are unchanged
+  const cachedIsValid = cached
+    && cached.summary.summarizedCount <= older.length
+    && cached.fingerprint === fingerprintMessages(older.slice(0, cached.summary.summarizedCount));
+
+  if (cached && cachedIsValid && cached.summary.summarizedCount === older.length) {
+    cached.timestamp = Date.now();
+    return { summary: cached.summary, cost: 0, cached: true };
+  }
+
+  const previous = cached && cachedIsValid ? cached.summary : null;
+  const newMessages = previous ? older.slice(previous.summarizedCount) : older;
+
+  const prompt = previous
+    ? `Existing summary of earlier messages:\n${JSON.stringify(previous)}\n\nUpdate it with these newer messages:\n\n${formatTranscript(newMessages)}`
+    : `Summarize these messages:\n\n${formatTranscript(newMessages)}`;
+
+  const claude = new ClaudeClient(anthropicKey, SUMMARY_MODEL);
+  const response = await claude.chat([{ role: 'user', content: prompt }], SUMMARY_SYSTEM_PROMPT, '', {
+    tools: [],
+    effort: 'low',
+  });
+
+  let summary = parseSummaryResponse(response.content, older.length);
+  if (previous) {
+    // Never lose list entries the previous summary already captured
+    summary = {
+      ...summary,
+      narrative: summary.narrative || previous.narrative,
+      filesTouched: mergeUnique(previous.filesTouched, summary.filesTouched),
+      decisions: mergeUnique(previous.decisions, summary.decisions),
+      constraints: mergeUnique(previous.constraints, summary.constraints),
+    };
+  }
+
+  SUMMARY_CACHE.set(cacheKey, { summary, fingerprint: fingerprintMessages(older), timestamp: Date.now() });
+
+  return { summary, cost: response.cost, cached: false };
+}
@@ -0,0 +1,114 @@
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+import { ModuleResolver } from './moduleGraph';
+import { SymbolProject, findDefinitions, findReferences, listSymbols } from './symbols';
+
+const FILES = [
+  {
+    path: 'src/auth.ts',
+    content: `// useAuth reads the session
+export function useAuth() {
+  return { user: null };
+}
+
+export class Session {
+  token = '';
+  refresh(): void {}
+}
+`,
+  },
+  {
+    path: 'src/app/page.tsx',
+    content: `import { useAuth } from '../auth';
+
+export default function Page() {
+  const auth = useAuth();
+  return <p title="useAuth">{String(auth.user)}</p>;
+}
+`,
+  },
+  {
+    path: 'src/legacy.js',
+    content: `function useAuth() {
+  return null;
+}
+module.exports = { useAuth };
+`,
+  },
+];
+
+test('files are outlined with members under their container', () => {
+  const symbols = listSymbols(FILES[0].path, FILES[0].content);
+  assert.deepStrictEqual(
+    symbols.map(symbol => [symbol.line, symbol.kind, symbol.name, symbol.container]),
+    [
+      [2, 'function', 'useAuth', undefined],
+      [6, 'class', 'Session', undefined],
+      [7, 'property', 'token', 'Session'],
+      [8, 'method', 'refresh', 'Session'],
+    ]
+  );
+  assert.strictEqual(symbols[0].column, 17);
+  assert.strictEqual(symbols[0].text, 'export function useAuth() {');
+});
+
+test('parsed blobs resolve a name through the imports of the file using it', () => {
+  assert.deepStrictEqual(findDefinitions('useAuth', FILES).map(definition => definition.path), ['src/auth.ts', 'src/legacy.js']);
+  const [definition, ...others] = findDefinitions('useAuth', FILES, 'src/app/page.tsx');
+  assert.strictEqual(others.length, 0);
+  assert.deepStrictEqual([definition.path, definition.line, definition.column], ['src/auth.ts', 2, 17]);
+
+  // The string and the comment are not references, and legacy.js has its own useAuth
+  const references = findReferences('useAuth', FILES, definition);
+  assert.deepStrictEqual(
+    references.map(reference => `${reference.path}:${reference.line}:${reference.column}${reference.isDefinition ? ' def' : ''}`),
+    ['src/app/page.tsx:1:10', 'src/app/page.tsx:4:16', 'src/auth.ts:2:17 def']
+  );
+});
+
+test('aliased imports resolve through the tsconfig paths of the tree', () => {
+  const files = [
+    FILES[0],
+    FILES[2],
+    { path: 'src/app/settings/page.tsx', content: "import { useAuth } from '@/auth';\n\nexport const user = useAuth().user;\n" },
+  ];
+  const resolver = new ModuleResolver([...files.map(file => file.path), 'tsconfig.json'], [
+    { path: 'tsconfig.json', content: '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }' },
+  ]);
+  const [definition, ...others] = findDefinitions('useAuth', files, 'src/app/settings/page.tsx', resolver);
+  assert.strictEqual(others.length, 0);
+  assert.strictEqual(definition.path, 'src/auth.ts');
+  assert.deepStrictEqual(
+    findReferences('useAuth', files, definition, resolver).map(reference => `${reference.path}:${reference.line}`),
+    ['src/app/settings/page.tsx:1', 'src/app/settings/page.tsx:3', 'src/auth.ts:2']
+  );
+});
+
+test('the language service follows imports and ignores same-named locals', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'symbols-'));
+  try {
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true, noLib: true }, include: ['src'] }));
+    fs.writeFileSync(path.join(root, 'src/math.ts'), 'export function add(a: number, b: number) {\n  return a + b;\n}\n');
+    fs.writeFileSync(path.join(root, 'src/main.ts'), "import { add } from './math';\n\nconst total = add(1, 2);\n");
+    fs.writeFileSync(path.join(root, 'src/other.ts'), 'function add() {}\nadd();\n');
+
+    const project = new SymbolProject(root);
+    const [definition] = project.findDefinition('add', 'src/main.ts', 3);
+    assert.deepStrictEqual([definition.path, definition.line, definition.kind], ['src/math.ts', 1, 'function']);
+    assert.deepStrictEqual(
+      project.findReferences('add', 'src/math.ts').map(reference => `${reference.path}:${reference.line}`),
+      ['src/main.ts:1', 'src/main.ts:3', 'src/math.ts:1']
+    );
+
+    // A dry-run edit is seen without touching the disk
+    project.setStagedFiles([{ path: 'src/main.ts', content: "import { add } from './math';\n\nadd(1, 2);\nadd(3, 4);\n" }]);
+    assert.strictEqual(project.findReferences('add', 'src/math.ts').length, 4);
+    assert.throws(() => project.findDefinition('missing'), /No declaration named "missing"/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,432 @@
+// ============================================================================
+// SYMBOLS - Definitions, references and outlines for TypeScript/JavaScript
+// Local mode runs a TypeScript language service over the workspace. GitHub mode
+// parses the blobs that mention a name and follows their relative imports, so its
+// references are syntactic: identifiers are matched, types are not checked.
+// ============================================================================
+
+import path from 'path';
+import ts from 'typescript';
+import { SymbolLocation } from '../types';
+import { ModuleResolver } from './moduleGraph';
+
+// A file handed to the blob-based lookups
+export interface SourceText {
+  path: string;
+  content: string;
+}
+
+const SOURCE_FILE = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/i;
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'];
+const IGNORED_DIRECTORIES = ['**/node_modules', '**/.git', '**/.next', '**/dist', '**/build', '**/coverage'];
+const MAX_LINE_LENGTH = 200;
+const MAX_PROJECT_FILES = 5000;
+const MAX_NAVIGATE_ITEMS = 20;
+
+// Include globs for grep_search that select the files these tools understand
+export const SOURCE_GLOBS = ['*.{ts,tsx,js,jsx,mts,cts,mjs,cjs}'];
+
+export function isSymbolSource(filePath: string): boolean {
+  return SOURCE_FILE.test(filePath);
+}
+
+// ----------------------------------------------------------------------------
+// Parsing
+// ----------------------------------------------------------------------------
+
+function scriptKind(filePath: string): ts.ScriptKind {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.tsx') return ts.ScriptKind.TSX;
+  if (ext === '.jsx') return ts.ScriptKind.JSX;
+  if (ext === '.js' || ext === '.mjs' || ext === '.cjs') return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function parseSource(filePath: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind(filePath));
+}
+
+function declarationKind(node: ts.Node): string | undefined {
+  switch (node.kind) {
+    case ts.SyntaxKind.FunctionDeclaration:
+      return 'function';
+    case ts.SyntaxKind.ClassDeclaration:
+      return 'class';
+    case ts.SyntaxKind.InterfaceDeclaration:
+      return 'interface';
+    case ts.SyntaxKind.TypeAliasDeclaration:
+      return 'type';
+    case ts.SyntaxKind.EnumDeclaration:
+      return 'enum';
+    case ts.SyntaxKind.EnumMember:
+      return 'enum member';
+    case ts.SyntaxKind.ModuleDeclaration:
+      return 'namespace';
+    case ts.SyntaxKind.MethodDeclaration:
+    case ts.SyntaxKind.MethodSignature:
+      return 'method';
+    case ts.SyntaxKind.PropertyDeclaration:
+    case ts.SyntaxKind.PropertySignature:
+      return 'property';
+    case ts.SyntaxKind.GetAccessor:
+    case ts.SyntaxKind.SetAccessor:
+      return 'accessor';
+    case ts.SyntaxKind.VariableDeclaration: {
+      const initializer = (node as ts.VariableDeclaration).initializer;
+      if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) return 'function';
+      if (initializer && ts.isClassExpression(initializer)) return 'class';
+      return 'variable';
+    }
+    default:
+      return undefined;
+  }
+}
+
+function declarationName(node: ts.Node): ts.Identifier | ts.PrivateIdentifier | undefined {
+  const name = (node as ts.NamedDeclaration).name;
+  return name && (ts.isIdentifier(name) || ts.isPrivateIdentifier(name)) ? name : undefined;
+}
+
+function identifiersNamed(sourceFile: ts.SourceFile, name: string): ts.Identifier[] {
+  const found: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === name) found.push(node);
+    node.forEachChild(visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+function locate(
+  sourceFile: ts.SourceFile,
+  filePath: string,
+  start: number,
+  symbol: Pick<SymbolLocation, 'name' | 'kind' | 'container' | 'isDefinition'>
+): SymbolLocation {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+  const starts = sourceFile.getLineStarts();
+  const text = sourceFile.text.slice(starts[line], starts[line + 1] ?? sourceFile.text.length).trim();
+  return {
+    path: filePath,
+    line: line + 1,
+    column: character + 1,
+    ...symbol,
+    text: text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}…` : text,
+  };
+}
+
+function byPosition(a: SymbolLocation, b: SymbolLocation): number {
+  return a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column;
+}
+
+// Declarations of one file: top-level ones and the members of classes, interfaces, enums
+// and namespaces. Locals inside function bodies are left out.
+export function listSymbols(filePath: string, content: string): SymbolLocation[] {
+  const sourceFile = parseSource(filePath, content);
+  const symbols: SymbolLocation[] = [];
+  const visit = (node: ts.Node, container?: string) => {
+    const kind = declarationKind(node);
+    const name = kind ? declarationName(node) : undefined;
+    if (kind && name) {
+      symbols.push(locate(sourceFile, filePath, name.getStart(sourceFile), { name: name.text, kind, container, isDefinition: true }));
+    }
+    if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)) {
+      node.forEachChild(child => visit(child, name?.text ?? container));
+    } else if (ts.isSourceFile(node) || ts.isModuleBlock(node) || ts.isVariableStatement(node) || ts.isVariableDeclarationList(node)) {
+      node.forEachChild(child => visit(child, container));
+    }
+  };
+  visit(sourceFile);
+  return symbols;
+}
+
+// ----------------------------------------------------------------------------
+// Parsed blobs (GitHub mode)
+// ----------------------------------------------------------------------------
+
+// Local names a file imports (or re-exports) from other modules, with the file the module
+// resolves to (unset for packages and unknown files) and the name the module exports
+function importedNames(sourceFile: ts.SourceFile, filePath: string, resolver: ModuleResolver): Map<string, { module?: string; name: string }> {
+  const names = new Map<string, { module?: string; name: string }>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const module = resolver.resolve(statement.moduleSpecifier.text, filePath).path;
+      const clause = statement.importClause;
+      if (clause?.name) names.set(clause.name.text, { module, name: 'default' });
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) {
+          names.set(element.name.text, { module, name: (element.propertyName ?? element.name).text });
+        }
+      }
+    } else if (ts.isExportDeclaration(statement) && statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const module = resolver.resolve(statement.moduleSpecifier.text, filePath).path;
+      if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        for (const element of statement.exportClause.elements) {
+          names.set(element.name.text, { module, name: (element.propertyName ?? element.name).text });
+        }
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      // const { a, b: c } = require('./x')
+      for (const declaration of statement.declarationList.declarations) {
+        const init = declaration.initializer;
+        if (!init || !ts.isCallExpression(init) || !ts.isIdentifier(init.expression) || init.expression.text !== 'require') continue;
+        const [specifier] = init.arguments;
+        if (!specifier || !ts.isStringLiteral(specifier)) continue;
+        const module = resolver.resolve(specifier.text, filePath).path;
+        if (ts.isIdentifier(declaration.name)) {
+          names.set(declaration.name.text, { module, name: 'default' });
+        } else if (ts.isObjectBindingPattern(declaration.name)) {
+          for (const element of declaration.name.elements) {
+            if (!ts.isIdentifier(element.name)) continue;
+            const imported = element.propertyName && ts.isIdentifier(element.propertyName) ? element.propertyName.text : element.name.text;
+            names.set(element.name.text, { module, name: imported });
+          }
+        }
+      }
+    }
+  }
+  return names;
+}
+
+function importsFrom(sourceFile: ts.SourceFile, filePath: string, name: string, definitionPath: string, resolver: ModuleResolver): boolean {
+  return importedNames(sourceFile, filePath, resolver).get(name)?.module === definitionPath;
+}
+
+// Without a resolver for the whole tree, imports resolve among the given files and relative paths only
+function filesResolver(files: SourceText[]): ModuleResolver {
+  return new ModuleResolver(files.map(file => file.path), []);
+}
+
+// Declarations of name in the given files. With fromPath, a declaration in that file or in
+// the module it imports the name from wins over same-named declarations elsewhere.
+export function findDefinitions(name: string, files: SourceText[], fromPath?: string, resolver = filesResolver(files)): SymbolLocation[] {
+  const definitions = files
+    .filter(file => isSymbolSource(file.path))
+    .flatMap(file => listSymbols(file.path, file.content).filter(symbol => symbol.name === name));
+  const from = fromPath ? files.find(file => file.path === fromPath) : undefined;
+  if (!from) return definitions.sort(byPosition);
+
+  const local = definitions.filter(definition => definition.path === from.path);
+  if (local.length > 0) return local;
+  const sourceFile = parseSource(from.path, from.content);
+  const imported = definitions.filter(definition => !definition.container && importsFrom(sourceFile, from.path, name, definition.path, resolver));
+  return (imported.length > 0 ? imported : definitions).sort(byPosition);
+}
+
+// Identifiers spelled name, never matches in strings or comments. Given a top-level
+// definition, only its own file and files importing the name from its module are searched,
+// so a same-named local elsewhere is not reported.
+export function findReferences(name: string, files: SourceText[], definition?: SymbolLocation, resolver = filesResolver(files)): SymbolLocation[] {
+  const references: SymbolLocation[] = [];
+  for (const file of files) {
+    if (!isSymbolSource(file.path)) continue;
+    const sourceFile = parseSource(file.path, file.content);
+    if (definition && !definition.container && file.path !== definition.path && !importsFrom(sourceFile, file.path, name, definition.path, resolver)) {
+      continue;
+    }
+    for (const identifier of identifiersNamed(sourceFile, name)) {
+      const declared = declarationName(identifier.parent) === identifier ? declarationKind(identifier.parent) : undefined;
+      references.push(locate(sourceFile, file.path, identifier.getStart(sourceFile), {
+        name,
+        kind: declared ?? definition?.kind ?? 'reference',
+        isDefinition: Boolean(declared),
+      }));
+    }
+  }
+  return references.sort(byPosition);
+}
+
+// ----------------------------------------------------------------------------
+// Language service (local mode)
+// ----------------------------------------------------------------------------
+
+// Used when the workspace has neither tsconfig.json nor jsconfig.json
+const DEFAULT_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  jsx: ts.JsxEmit.Preserve,
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+// A language service over a workspace on disk. Every lookup re-reads the config and the
+// file list; files whose mtime is unchanged keep their parse from the previous lookup.
+export class SymbolProject {
+  private service: ts.LanguageService;
+  private options = DEFAULT_OPTIONS;
+  private fileNames: string[] = [];
+  private staged = new Map<string, { content: string; version: number }>(); // By absolute path
+  private stagedVersion = 0;
+
+  constructor(private root: string) {
+    const host: ts.LanguageServiceHost = {
+      getScriptFileNames: () => this.fileNames,
+      getScriptVersion: (fileName) => {
+        const staged = this.staged.get(fileName);
+        return staged ? `staged:${staged.version}` : String(ts.sys.getModifiedTime?.(fileName)?.getTime() ?? 0);
+      },
+      getScriptSnapshot: (fileName) => {
+        const content = this.staged.get(fileName)?.content ?? ts.sys.readFile(fileName);
+        return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+      },
+      getCurrentDirectory: () => this.root,
+      getCompilationSettings: () => this.options,
+      getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+      fileExists: (fileName) => this.staged.has(fileName) || ts.sys.fileExists(fileName),
+      readFile: (fileName) => this.staged.get(fileName)?.content ?? ts.sys.readFile(fileName),
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories,
+    };
+    this.service = ts.createLanguageService(host, ts.createDocumentRegistry());
+  }
+
+  // Dry-run edits live in the overlay, not on disk; they stand in for the disk contents
+  setStagedFiles(files: SourceText[]): void {
+    const staged = new Map<string, { content: string; version: number }>();
+    for (const file of files.filter(file => isSymbolSource(file.path))) {
+      const fileName = this.absolute(file.path);
+      const current = this.staged.get(fileName);
+      staged.set(fileName, current?.content === file.content ? current : { content: file.content, version: ++this.stagedVersion });
+    }
+    this.staged = staged;
+  }
+
+  findDefinition(name: string, fromPath?: string, line?: number): SymbolLocation[] {
+    this.refresh();
+    const found = new Map<string, SymbolLocation>();
+    for (const { fileName, position } of this.positions(name, fromPath, line)) {
+      for (const info of this.service.getDefinitionAtPosition(fileName, position) ?? []) {
+        const location = this.toLocation(info.fileName, info.textSpan.start, {
+          name: info.name,
+          kind: info.kind,
+          container: info.containerName || undefined,
+          isDefinition: true,
+        });
+        if (location) found.set(`${location.path}:${location.line}:${location.column}`, location);
+      }
+    }
+    return [...found.values()].sort(byPosition);
+  }
+
+  findReferences(name: string, fromPath?: string, line?: number): SymbolLocation[] {
+    this.refresh();
+    const found = new Map<string, SymbolLocation>();
+    for (const { fileName, position } of this.positions(name, fromPath, line)) {
+      for (const symbol of this.service.findReferences(fileName, position) ?? []) {
+        for (const reference of symbol.references) {
+          const location = this.toLocation(reference.fileName, reference.textSpan.start, {
+            name,
+            kind: symbol.definition.kind,
+            container: symbol.definition.containerName || undefined,
+            isDefinition: reference.isDefinition,
+          });
+          if (location) found.set(`${location.path}:${location.line}:${location.column}`, location);
+        }
+      }
+    }
+    return [...found.values()].sort(byPosition);
+  }
+
+  private absolute(filePath: string): string {
+    return path.resolve(this.root, filePath).split(path.sep).join('/');
+  }
+
+  private refresh(): void {
+    const configPath = ['tsconfig.json', 'jsconfig.json'].map(name => path.join(this.root, name)).find(file => ts.sys.fileExists(file));
+    let fileNames: string[];
+    if (configPath) {
+      const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+      const parsed = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, this.root, undefined, configPath);
+      this.options = configPath.endsWith('jsconfig.json') ? { ...parsed.options, allowJs: true } : parsed.options;
+      fileNames = parsed.fileNames;
+    } else {
+      this.options = DEFAULT_OPTIONS;
+      fileNames = ts.sys.readDirectory(this.root, SOURCE_EXTENSIONS, IGNORED_DIRECTORIES, ['**/*']);
+    }
+    // Files created in a dry run exist only in the overlay
+    const listed = new Set(fileNames);
+    this.fileNames = [...fileNames, ...[...this.staged.keys()].filter(fileName => !listed.has(fileName))].slice(0, MAX_PROJECT_FILES);
+  }
+
+  private program(): ts.Program {
+    const program = this.service.getProgram();
+    if (!program) throw new Error('TypeScript project could not be loaded');
+    return program;
+  }
+
+  // Where to ask the service: the name in fromPath (on line, when given), or else every
+  // declaration in the project whose name is exactly name
+  private positions(name: string, fromPath?: string, line?: number): Array<{ fileName: string; position: number }> {
+    const program = this.program();
+    if (fromPath) {
+      const sourceFile = program.getSourceFile(this.absolute(fromPath));
+      if (!sourceFile) throw new Error(`${fromPath} is not part of the TypeScript project`);
+      const occurrences = identifiersNamed(sourceFile, name).filter(identifier =>
+        !line || sourceFile.getLineAndCharacterOfPosition(identifier.getStart(sourceFile)).line === line - 1
+      );
+      if (occurrences.length === 0) throw new Error(`"${name}" does not occur in ${fromPath}${line ? ` on line ${line}` : ''}`);
+      return [{ fileName: sourceFile.fileName, position: occurrences[0].getStart(sourceFile) }];
+    }
+
+    const positions: Array<{ fileName: string; position: number }> = [];
+    for (const item of this.service.getNavigateToItems(name, MAX_NAVIGATE_ITEMS, undefined, true)) {
+      if (item.name !== name || item.matchKind !== 'exact') continue;
+      const sourceFile = program.getSourceFile(item.fileName);
+      // The item spans the whole declaration; the service wants the name inside it
+      const identifier = sourceFile && identifiersNamed(sourceFile, name).find(node => node.getStart(sourceFile) >= item.textSpan.start);
+      if (identifier) positions.push({ fileName: item.fileName, position: identifier.getStart(sourceFile) });
+    }
+    if (positions.length === 0) throw new Error(`No declaration named "${name}" in the project`);
+    return positions;
+  }
+
+  private toLocation(
+    fileName: string,
+    start: number,
+    symbol: Pick<SymbolLocation, 'name' | 'kind' | 'container' | 'isDefinition'>
+  ): SymbolLocation | undefined {
+    const sourceFile = this.program().getSourceFile(fileName);
+    if (!sourceFile) return undefined;
+    const relative = path.relative(this.root, fileName).split(path.sep).join('/');
+    return locate(sourceFile, relative, start, symbol);
+  }
+}
+
+const SYMBOL_PROJECTS = new Map<string, { project: SymbolProject; timestamp: number }>();
+const MAX_SYMBOL_PROJECTS = 3;
+
+export function getSymbolProject(root: string): SymbolProject {
+  const existing = SYMBOL_PROJECTS.get(root);
+  if (existing) {
+    existing.timestamp = Date.now();
+    return existing.project;
+  }
+  const project = new SymbolProject(root);
+  SYMBOL_PROJECTS.set(root, { project, timestamp: Date.now() });
+  if (SYMBOL_PROJECTS.size > MAX_SYMBOL_PROJECTS) {
+    const oldest = [...SYMBOL_PROJECTS].sort((a, b) => a[1].timestamp - b[1].timestamp)[0];
+    SYMBOL_PROJECTS.delete(oldest[0]);
+  }
+  return project;
+}
+
+// ----------------------------------------------------------------------------
+// Formatting
+// ----------------------------------------------------------------------------
+
+// "path:line:column: source line", with the kind of each declaration
+export function formatSymbolLocations(locations: SymbolLocation[]): string {
+  return locations.map(location => {
+    const label = location.isDefinition ? `  [${location.kind}${location.container ? ` in ${location.container}` : ''}]` : '';
+    return `${location.path}:${location.line}:${location.column}: ${location.text}${label}`;
+  }).join('\n');
+}
+
+// One line per declaration, members indented under their container
+export function formatOutline(symbols: SymbolLocation[]): string {
+  return symbols.map(symbol => `${symbol.line}: ${symbol.container ? '  ' : ''}${symbol.kind} ${symbol.name}`).join('\n');
+}
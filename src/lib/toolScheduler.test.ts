@@ -0,0 +1,58 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { runToolCalls, SchedulableToolCall } from './toolScheduler';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function call(id: string, name: string, input: Record<string, unknown> = {}): SchedulableToolCall {
+  return { id, name, input };
+}
+
+test('read-only calls overlap up to the concurrency limit', async () => {
+  let active = 0;
+  let maxActive = 0;
+  const calls = [1, 2, 3, 4, 5].map(i => call(`r${i}`, 'read_file', { path: `f${i}.ts` }));
+
+  await runToolCalls(calls, async () => {
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await delay(10);
+    active--;
+    return 'ok';
+  }, { concurrency: 3 });
+
+  assert.strictEqual(maxActive, 3);
+});
+
+test('results come back in the original order', async () => {
+  const calls = [call('a', 'read_file', { path: 'a.ts' }), call('b', 'grep_search', { query: 'x' })];
+
+  const results = await runToolCalls(calls, async (c) => {
+    await delay(c.id === 'a' ? 20 : 1);
+    return c.id;
+  });
+
+  assert.deepStrictEqual(results.map(r => r.result), ['a', 'b']);
+  assert.ok(results.every(r => r.durationMs >= 0 && r.waitMs >= 0));
+});
+
+test('mutations are serialized and reads wait for earlier edits to the same file', async () => {
+  const order: string[] = [];
+  const calls = [
+    call('edit1', 'str_replace', { path: 'a.ts' }),
+    call('edit2', 'create_file', { path: 'b.ts' }),
+    call('verify', 'verify_edit', { path: 'a.ts' }),
+    call('other', 'read_file', { path: 'c.ts' }),
+  ];
+
+  await runToolCalls(calls, async (c) => {
+    order.push(`start:${c.id}`);
+    await delay(c.id === 'edit1' ? 15 : 5);
+    order.push(`end:${c.id}`);
+    return c.id;
+  }, { concurrency: 4 });
+
+  assert.ok(order.indexOf('end:edit1') < order.indexOf('start:edit2'));
+  assert.ok(order.indexOf('end:edit1') < order.indexOf('start:verify'));
+  assert.ok(order.indexOf('start:other') < order.indexOf('end:edit1'));
+});
@@ -0,0 +1,125 @@
+// ============================================================================
+// TOOL SCHEDULER - Run independent tool calls of a round concurrently
+// Read-only tools run in parallel; mutating tools stay serialized and ordered
+// ============================================================================
+
+export interface SchedulableToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ScheduledToolResult<T> {
+  call: SchedulableToolCall;
+  index: number; // Position in the original call list
+  result: T;
+  startedAt: number; // Epoch ms when execution began
+  waitMs: number; // Time spent waiting for dependencies / a free slot
+  durationMs: number; // Execution time
+}
+
+// Tools that never change the workspace and can safely overlap
+export const READ_ONLY_TOOLS = new Set(['read_file', 'search_files', 'grep_search', 'find_definition', 'find_references', 'list_symbols', 'dependency_graph', 'verify_edit', 'web_search', 'web_fetch']);
+
+// Tools that change files or run arbitrary commands
+export const MUTATING_TOOLS = new Set(['str_replace', 'create_file', 'apply_patch', 'delete_file', 'move_file', 'rename_symbol_across_files', 'run_command']);
+
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+export function isReadOnlyTool(name: string): boolean {
+  return READ_ONLY_TOOLS.has(name);
+}
+
+// Paths a call touches. null = unknown scope (whole workspace), e.g. grep_search or run_command
+export function getToolPaths(call: SchedulableToolCall): string[] | null {
+  const input = call.input || {};
+  const paths = [input.path, input.from_path, input.to_path]
+    .filter((p): p is string => typeof p === 'string' && p.length > 0);
+
+  if (call.name === 'web_search' || call.name === 'web_fetch' || call.name === 'update_plan') return []; // Touches nothing in the workspace
+  return paths.length > 0 ? paths : null;
+}
+
+function callsConflict(earlier: SchedulableToolCall, later: SchedulableToolCall): boolean {
+  const earlierReadOnly = isReadOnlyTool(earlier.name);
+  const laterReadOnly = isReadOnlyTool(later.name);
+
+  if (earlierReadOnly && laterReadOnly) return false;
+  if (!earlierReadOnly && !laterReadOnly) return true; // Mutations are fully serialized
+
+  const earlierPaths = getToolPaths(earlier);
+  const laterPaths = getToolPaths(later);
+  if (earlierPaths === null || laterPaths === null) return true;
+  return earlierPaths.some(p => laterPaths.includes(p));
+}
+
+function createSemaphore(limit: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return {
+    async acquire(): Promise<void> {
+      if (active < limit) {
+        active++;
+        return;
+      }
+      await new Promise<void>(resolve => waiting.push(resolve));
+    },
+    release(): void {
+      const next = waiting.shift();
+      if (next) {
+        next(); // Hand the slot directly to the next waiter
+      } else {
+        active--;
+      }
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Execute calls respecting dependencies and the concurrency limit.
+// Results are returned in the original order; onComplete fires in completion order.
+// ----------------------------------------------------------------------------
+
+export async function runToolCalls<T>(
+  calls: SchedulableToolCall[],
+  execute: (call: SchedulableToolCall) => Promise<T>,
+  options: {
+    concurrency?: number;
+    onComplete?: (result: ScheduledToolResult<T>) => void;
+  } = {}
+): Promise<Array<ScheduledToolResult<T>>> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_TOOL_CONCURRENCY));
+  const semaphore = createSemaphore(concurrency);
+  const scheduledAt = Date.now();
+  const tasks: Array<Promise<ScheduledToolResult<T>>> = [];
+
+  calls.forEach((call, index) => {
+    const dependencies = tasks.filter((_, i) => callsConflict(calls[i], call));
+
+    tasks.push((async () => {
+      // Dependencies settle (success or failure) before this call may start
+      await Promise.allSettled(dependencies);
+      await semaphore.acquire();
+
+      const startedAt = Date.now();
+      try {
+        const result = await execute(call);
+        const scheduled: ScheduledToolResult<T> = {
+          call,
+          index,
+          result,
+          startedAt,
+          waitMs: startedAt - scheduledAt,
+          durationMs: Date.now() - startedAt,
+        };
+        options.onComplete?.(scheduled);
+        return scheduled;
+      } finally {
+        semaphore.release();
+      }
+    })());
+  });
+
+  return Promise.all(tasks);
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import {
+  FixtureProvider,
+  normalizeResults,
+  parseBraveResponse,
+  parseJsonEndpointResponse,
+  parseSearxngResponse,
+} from './webSearch';
+
+test('normalizes results into deduplicated citations', () => {
+  const citations = normalizeResults([
+    { url: 'https://example.com/a', title: 'A <strong>match</strong>', snippet: 'First &amp; best' },
+    { url: 'https://example.com/a', title: 'Duplicate' },
+    { url: 'javascript:alert(1)', title: 'Unsafe' },
+    { url: 'not a url' },
+    { url: 'https://example.com/b' },
+  ]);
+
+  assert.deepStrictEqual(citations, [
+    { url: 'https://example.com/a', title: 'A match', snippet: 'First & best', startIndex: 0, endIndex: 0 },
+    { url: 'https://example.com/b', title: undefined, snippet: undefined, startIndex: 0, endIndex: 0 },
+  ]);
+});
+
+test('adapters map provider-specific fields', () => {
+  assert.deepStrictEqual(
+    parseSearxngResponse({ results: [{ url: 'https://s.dev', title: 'S', content: 'snip' }] }),
+    [{ url: 'https://s.dev', title: 'S', snippet: 'snip' }]
+  );
+  assert.deepStrictEqual(
+    parseBraveResponse({ web: { results: [{ url: 'https://b.dev', title: 'B', description: 'desc' }] } }),
+    [{ url: 'https://b.dev', title: 'B', snippet: 'desc' }]
+  );
+  assert.deepStrictEqual(
+    parseJsonEndpointResponse(
+      { data: { items: [{ link: 'https://j.dev', name: 'J', summary: { text: 'nested' } }] } },
+      { resultsPath: 'data.items', urlField: 'link', titleField: 'name', snippetField: 'summary.text' }
+    ),
+    [{ url: 'https://j.dev', title: 'J', snippet: 'nested' }]
+  );
+});
+
+test('fixture provider matches queries by substring and caps results', async () => {
+  const provider = new FixtureProvider({
+    'next.js': [
+      { url: 'https://nextjs.org/docs', title: 'Docs' },
+      { url: 'https://nextjs.org/blog', title: 'Blog' },
+    ],
+  });
+
+  const results = await provider.search('latest Next.js release', { maxResults: 1 });
+  assert.deepStrictEqual(results.map(r => r.url), ['https://nextjs.org/docs']);
+  assert.deepStrictEqual(await provider.search('unrelated'), []);
+});
@@ -0,0 +1,234 @@
+// ============================================================================
+// WEB SEARCH - Pluggable search providers behind the web_search tool
+// Every provider normalizes its results into Citations for the Sources UI
+// ============================================================================
+
+import { Citation } from '../types';
+
+export interface SearchOptions {
+  maxResults?: number;
+}
+
+export interface SearchProvider {
+  name: string;
+  search(query: string, options?: SearchOptions): Promise<Citation[]>;
+}
+
+type RawResult = { url?: unknown; title?: unknown; snippet?: unknown };
+
+const DEFAULT_MAX_RESULTS = 5;
+const SEARCH_TIMEOUT_MS = 10000;
+const MAX_SNIPPET_CHARS = 300;
+
+// ----------------------------------------------------------------------------
+// Normalization
+// ----------------------------------------------------------------------------
+
+function cleanText(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  return value
+    .replace(/<[^>]*>/g, '') // Providers often highlight matches with <strong>/<b>
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function normalizeResults(results: RawResult[], maxResults: number = DEFAULT_MAX_RESULTS): Citation[] {
+  const seen = new Set<string>();
+  const citations: Citation[] = [];
+
+  for (const result of results) {
+    if (typeof result.url !== 'string') continue;
+
+    let url: URL;
+    try {
+      url = new URL(result.url);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+    if (seen.has(url.href)) continue;
+    seen.add(url.href);
+
+    const snippet = cleanText(result.snippet);
+    citations.push({
+      url: url.href,
+      title: cleanText(result.title) || undefined,
+      snippet: snippet ? snippet.slice(0, MAX_SNIPPET_CHARS) : undefined,
+      // Search results are not tied to a span of the answer text
+      startIndex: 0,
+      endIndex: 0,
+    });
+
+    if (citations.length >= maxResults) break;
+  }
+
+  return citations;
+}
+
+export function formatSearchResults(query: string, citations: Citation[]): string {
+  if (citations.length === 0) {
+    return `No web results for "${query}". Try different keywords.`;
+  }
+
+  const lines = citations.map((c, i) =>
+    `${i + 1}. ${c.title || c.url}\n   ${c.url}${c.snippet ? `\n   ${c.snippet}` : ''}`
+  );
+  return `Web results for "${query}":\n\n${lines.join('\n\n')}\n\nUse web_fetch on a URL for full details. Cite sources by URL.`;
+}
+
+async function fetchJson(url: string, headers: Record<string, string> = {}): Promise<unknown> {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', ...headers },
+    signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Search request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Read a dotted path like "web.results" out of a JSON response
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').filter(Boolean).reduce<unknown>(
+    (current, key) => current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+    value
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Providers
+// ----------------------------------------------------------------------------
+
+export function parseSearxngResponse(data: unknown): RawResult[] {
+  const results = getPath(data, 'results');
+  if (!Array.isArray(results)) return [];
+  return results.map((r: Record<string, unknown>) => ({ url: r.url, title: r.title, snippet: r.content }));
+}
+
+export class SearxngProvider implements SearchProvider {
+  name = 'searxng';
+
+  constructor(private baseUrl: string) {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<Citation[]> {
+    const url = new URL('/search', this.baseUrl);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json'); // Requires "json" in the instance's search.formats
+    const data = await fetchJson(url.toString());
+    return normalizeResults(parseSearxngResponse(data), options.maxResults);
+  }
+}
+
+export function parseBraveResponse(data: unknown): RawResult[] {
+  const results = getPath(data, 'web.results');
+  if (!Array.isArray(results)) return [];
+  return results.map((r: Record<string, unknown>) => ({ url: r.url, title: r.title, snippet: r.description }));
+}
+
+export class BraveProvider implements SearchProvider {
+  name = 'brave';
+
+  constructor(private apiKey: string) {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<Citation[]> {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const url = new URL('https://api.search.brave.com/res/v1/web/search');
+    url.searchParams.set('q', query);
+    url.searchParams.set('count', String(Math.min(20, maxResults)));
+    const data = await fetchJson(url.toString(), { 'X-Subscription-Token': this.apiKey });
+    return normalizeResults(parseBraveResponse(data), maxResults);
+  }
+}
+
+export interface JsonEndpointConfig {
+  url: string; // "{query}" is replaced with the encoded query; otherwise ?q= is appended
+  resultsPath?: string; // Dotted path to the results array (default: "results")
+  urlField?: string;
+  titleField?: string;
+  snippetField?: string;
+  headers?: Record<string, string>;
+}
+
+export function parseJsonEndpointResponse(data: unknown, config: Omit<JsonEndpointConfig, 'url' | 'headers'>): RawResult[] {
+  const results = Array.isArray(data) ? data : getPath(data, config.resultsPath || 'results');
+  if (!Array.isArray(results)) return [];
+  return results.map(r => ({
+    url: getPath(r, config.urlField || 'url'),
+    title: getPath(r, config.titleField || 'title'),
+    snippet: getPath(r, config.snippetField || 'snippet'),
+  }));
+}
+
+export class JsonEndpointProvider implements SearchProvider {
+  name = 'json';
+
+  constructor(private config: JsonEndpointConfig) {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<Citation[]> {
+    const encoded = encodeURIComponent(query);
+    let url = this.config.url;
+    if (url.includes('{query}')) {
+      url = url.replace('{query}', encoded);
+    } else {
+      url += `${url.includes('?') ? '&' : '?'}q=${encoded}`;
+    }
+    const data = await fetchJson(url, this.config.headers);
+    return normalizeResults(parseJsonEndpointResponse(data, this.config), options.maxResults);
+  }
+}
+
+// Canned results keyed by query substring - for tests and offline development
+export class FixtureProvider implements SearchProvider {
+  name = 'fixture';
+
+  constructor(private fixtures: Record<string, RawResult[]>) {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<Citation[]> {
+    const lower = query.toLowerCase();
+    const key = Object.keys(this.fixtures).find(k => lower.includes(k.toLowerCase()));
+    return normalizeResults(key ? this.fixtures[key] : [], options.maxResults);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Provider selection from the environment
+// WEB_SEARCH_PROVIDER picks one explicitly; otherwise the first configured wins
+// ----------------------------------------------------------------------------
+
+let searchProvider: SearchProvider | null | undefined;
+
+function createProviderFromEnv(): SearchProvider | null {
+  const env = process.env;
+  const provider = env.WEB_SEARCH_PROVIDER || (env.BRAVE_SEARCH_API_KEY ? 'brave' : env.SEARXNG_URL ? 'searxng' : env.WEB_SEARCH_JSON_URL ? 'json' : '');
+
+  switch (provider) {
+    case 'brave':
+      return env.BRAVE_SEARCH_API_KEY ? new BraveProvider(env.BRAVE_SEARCH_API_KEY) : null;
+    case 'searxng':
+      return env.SEARXNG_URL ? new SearxngProvider(env.SEARXNG_URL) : null;
+    case 'json':
+      return env.WEB_SEARCH_JSON_URL
+        ? new JsonEndpointProvider({
+            url: env.WEB_SEARCH_JSON_URL,
+            resultsPath: env.WEB_SEARCH_JSON_RESULTS_PATH,
+            headers: env.WEB_SEARCH_JSON_AUTH ? { Authorization: env.WEB_SEARCH_JSON_AUTH } : undefined,
+          })
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function getSearchProvider(): SearchProvider | null {
+  if (searchProvider === undefined) {
+    searchProvider = createProviderFromEnv();
+  }
+  return searchProvider;
+}
+
+export function setSearchProvider(provider: SearchProvider | null): void {
+  searchProvider = provider;
+}
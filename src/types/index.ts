@@ -13,9 +13,12 @@ export interface Message {
   content: string;
   timestamp: Date;
   cost?: number;
+  costByModel?: Partial<Record<ModelType, number>>; // Run cost split by the model that incurred it
   savedPercent?: number;
   tokensUsed?: TokenUsage;
   filesChanged?: FileChange[];
+  runId?: string; // Agentic run that produced filesChanged, for reverting it
+  revertedAt?: string;
   files?: UploadedFile[];
   isStreaming?: boolean;
   thinkingContent?: string;
@@ -27,6 +30,40 @@ export interface Message {
   prUrl?: string;
   prNumber?: number;
   previewUrl?: string;
+  // Summary of older turns that replaced them in the agentic context
+  contextSummary?: ConversationSummary;
+  // Task plan produced by the planning phase, ticked off as the run progresses
+  plan?: TaskPlan;
+  // Changes a dry run would have made, waiting to be applied
+  dryRun?: DryRunChangeset;
+}
+
+// Numbered plan produced before execution when plan-first mode is on
+export type PlanStepStatus = 'pending' | 'in_progress' | 'done' | 'skipped';
+
+export interface PlanStep {
+  id: number;
+  title: string;
+  files: string[]; // Files the step expects to touch
+  status: PlanStepStatus;
+  note?: string;
+}
+
+export interface TaskPlan {
+  goal: string;
+  steps: PlanStep[];
+  verification: string[]; // How the result will be checked
+  createdAt: string;
+}
+
+// Structured summary of older conversation turns (produced by a cheap model)
+export interface ConversationSummary {
+  narrative: string;
+  filesTouched: string[];
+  decisions: string[];
+  openTodos: string[];
+  constraints: string[];
+  summarizedCount: number; // How many leading messages this summary covers
 }
 
 // ----------------------------------------------------------------------------
@@ -52,11 +89,21 @@ export interface DebuggerEvent {
 // Tool action for displaying tool usage in ActionBlock
 export interface ToolAction {
   id: string;
-  type: 'web_search' | 'web_fetch' | 'read_file' | 'str_replace' | 'create_file' | 'grep_search' | 'search_files' | 'verify_edit';
+  type: 'web_search' | 'web_fetch' | 'read_file' | 'str_replace' | 'create_file' | 'apply_patch' | 'delete_file' | 'move_file' | 'rename_symbol_across_files' | 'grep_search' | 'search_files' | 'find_definition' | 'find_references' | 'list_symbols' | 'dependency_graph' | 'verify_edit' | 'run_command';
   status: 'running' | 'complete' | 'error';
   summary: string;
   details?: string;
   result?: string;
+  // run_command only - live terminal output
+  command?: string;
+  output?: CommandOutputLine[];
+  // Files the call changed, with their diffs
+  fileChanges?: FileChange[];
+}
+
+export interface CommandOutputLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
 }
 
 export interface TokenUsage {
@@ -68,12 +115,27 @@ export interface TokenUsage {
 
 export interface FileChange {
   path: string;
-  action: 'create' | 'edit' | 'delete';
+  action: 'create' | 'edit' | 'delete' | 'move';
+  fromPath?: string; // Previous path of a moved file
   additions?: number;
   deletions?: number;
   diff?: string;
 }
 
+// Would-be change recorded by a dry run; before is null for new files, after is null for deleted ones.
+// For a move, before is the content at fromPath.
+export interface DryRunFileChange extends FileChange {
+  before: string | null;
+  after: string | null;
+}
+
+export interface DryRunChangeset {
+  files: DryRunFileChange[];
+  commands: string[]; // run_command calls that were skipped
+  patch: string; // All file diffs concatenated, applicable with git apply
+  appliedAt?: string; // Set once the user applied the changeset
+}
+
 export interface UploadedFile {
   name: string;
   type: string;
@@ -117,6 +179,19 @@ export interface Conversation {
   totalCost?: number;
   filesChanged?: FileChange[];
   isComplete?: boolean;
+  checkpoints?: ConversationCheckpoint[]; // Oldest first
+}
+
+// Repo state after an assistant message that changed files. Rewinding to it reverts
+// the runs of every later checkpoint and drops the later messages.
+export interface ConversationCheckpoint {
+  messageId: string; // The assistant message whose run produced this state
+  runId: string; // Its run keeps the pre-edit snapshot (local) or blob SHAs (GitHub)
+  createdAt: string;
+  target: 'github' | 'local';
+  commitSha?: string; // GitHub: the commit the run landed
+  filesChanged: number;
+  unavailable?: boolean; // The server no longer stores the run - the conversation cannot be rewound past it
 }
 
 export interface Session {
@@ -150,6 +225,28 @@ export interface RepoTree {
   children?: RepoTree[];
 }
 
+// One matching line from grep_search; line is 1-based in the file
+export interface GrepMatch {
+  path: string;
+  line: number;
+  content: string;
+  before?: string[]; // Context lines, when asked for
+  after?: string[];
+}
+
+// A declaration or reference found by find_definition, find_references or list_symbols;
+// line and column are 1-based
+export interface SymbolLocation {
+  path: string;
+  line: number;
+  column: number;
+  name: string;
+  kind: string; // function, class, method, interface, type, enum, variable, property...
+  container?: string; // Enclosing class, interface or namespace
+  text: string; // The source line, trimmed
+  isDefinition?: boolean;
+}
+
 export interface Branch {
   name: string;
   sha: string;
@@ -178,10 +275,24 @@ export interface PullRequest {
 
 export type WebSearchMode = 'off' | 'manual' | 'auto';
 export type ToolExecutionMode = 'direct' | 'hybrid' | 'programmatic';
+export type ApprovalMode = 'auto' | 'approve-writes' | 'approve-all';
+
+// Rules for run_command. Patterns are globs ("npm *") or regexes ("/^git (status|diff)/")
+export interface CommandPolicy {
+  allow: string[]; // Empty = everything not denied is allowed
+  deny: string[];
+  forbiddenPaths: string[]; // Commands may not reference these paths ("~" = home directory)
+  allowNetwork: boolean;
+  limits: {
+    cpuSeconds: number;
+    maxOutputBytes: number;
+    wallClockMs: number;
+  };
+}
 
 export interface Settings {
   // File Access Mode
-  fileAccessMode: 'github' | 'local'; // NEW: Choose between GitHub API or local filesystem
+  fileAccessMode: 'github' | 'local' | 'clone'; // GitHub API, a local checkout, or a managed shallow clone of the repo
   localWorkspacePath?: string; // NEW: Path to local workspace (e.g., /workspaces/my-project)
   
   // Deployment
@@ -194,6 +305,12 @@ export interface Settings {
   
   // Tool Execution
   toolExecutionMode: ToolExecutionMode;
+  maxParallelTools: number; // Concurrency limit for read-only tool calls within a round
+  approvalMode: ApprovalMode; // Pause for a human before running (mutating) tool calls
+  planFirst: boolean; // Produce a numbered plan before touching any files
+  autoFixWhitespace: boolean; // Apply str_replace when old_str differs from the file only in whitespace
+  autoContextTokens: number; // Code picked from the repository index for each message; 0 turns it off
+  commandPolicy: CommandPolicy; // Sandbox rules for run_command in local mode
 
   // Features
   enableWebSearch: boolean;
@@ -211,7 +328,19 @@ export interface Settings {
     enabled: boolean;
     perMessage: number;
     perDay: number;
+    overBudget: 'downgrade' | 'stop'; // What to do when a round's projected cost exceeds the budget
   };
+  modelRouting: ModelRoutingSettings; // Pick the model per agentic round
+}
+
+// Phase of an agentic round as seen by the model router
+export type RoutingPhase = 'explore' | 'edit' | 'recovery';
+
+export interface ModelRoutingSettings {
+  mode: 'off' | 'auto'; // off = every round uses Settings.model
+  exploreModel: ModelType; // Searching and listing files
+  editModel: ModelType; // Reading code closely and making edits
+  recoveryModel: ModelType; // After tool errors or repeated actions
 }
 
 // ----------------------------------------------------------------------------
@@ -259,6 +388,9 @@ export interface MessageCost {
 
 export interface ChatRequest {
   messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  conversationId?: string; // Used to cache conversation summaries across requests
+  plan?: TaskPlan; // User-reviewed plan to execute instead of planning again
+  dryRun?: boolean; // Write to an in-memory overlay and return the changeset instead
   settings: Settings;
   repoContext: {
     owner: string;
@@ -299,7 +431,7 @@ export interface PostEditState {
   prUrl?: string;
   prNumber?: number;
   previewUrl?: string;
-  status: 'pending' | 'pushed' | 'pr_created' | 'confirmed' | 'discarded';
+  status: 'pending' | 'pushed' | 'pr_created' | 'confirmed' | 'discarded' | 'reverted';
 }
 
 // ----------------------------------------------------------------------------
@@ -344,6 +476,7 @@ export interface ToolProperty {
   type: string;
   description: string;
   enum?: string[];
+  items?: { type: string; properties?: Record<string, unknown>; required?: string[] }; // Element schema of array properties
 }
 
 // ----------------------------------------------------------------------------
@@ -358,6 +491,34 @@ export const DEFAULT_SETTINGS: Settings = {
   model: 'claude-sonnet-4-5-20250929',
   effort: 'low',
   toolExecutionMode: 'direct', // Fastest - use hybrid/programmatic for cost optimization
+  maxParallelTools: 4,
+  approvalMode: 'auto',
+  planFirst: false,
+  autoFixWhitespace: true,
+  autoContextTokens: 4000,
+  commandPolicy: {
+    allow: [],
+    deny: [
+      'sudo *',
+      'su *',
+      'rm -rf /*',
+      'rm -rf ~*',
+      'mkfs*',
+      'dd *of=/dev/*',
+      'shutdown*',
+      'reboot*',
+      'git push *--force*',
+      '/(curl|wget)[^|]*\\|\\s*(ba|z)?sh/',
+      '/:\\(\\)\\s*\\{/',
+    ],
+    forbiddenPaths: ['~/.ssh', '~/.aws', '~/.gnupg', '~/.config/gh', '/etc/shadow', '/etc/sudoers'],
+    allowNetwork: true,
+    limits: {
+      cpuSeconds: 120,
+      maxOutputBytes: 1024 * 1024,
+      wallClockMs: 120000,
+    },
+  },
   enableWebSearch: true,
   webSearchMode: 'auto',
   enableExtendedThinking: false,
@@ -371,6 +532,13 @@ export const DEFAULT_SETTINGS: Settings = {
     enabled: true,
     perMessage: 0.15,
     perDay: 10.0,
+    overBudget: 'downgrade',
+  },
+  modelRouting: {
+    mode: 'off',
+    exploreModel: 'claude-haiku-4-5-20251001',
+    editModel: 'claude-sonnet-4-5-20250929',
+    recoveryModel: 'claude-opus-4-5-20251101',
   },
 };
 
@@ -436,12 +604,22 @@ export const APP_CONSTANTS = {
 
   // Stuck detection - how many times same tool calls can repeat
   MAX_REPEATED_TOOL_CALLS: 2,
+
+  // Terminal output kept per run_command action in the UI
+  MAX_TERMINAL_LINES: 300,
+
+  // Conversation summarization - older turns are summarized, recent ones kept verbatim
+  SUMMARY_KEEP_RECENT: 4,
+  SUMMARY_MIN_MESSAGES: 7,
 } as const;
 
 // ----------------------------------------------------------------------------
 // Agentic Loop Types
 // ----------------------------------------------------------------------------
 
+// Escalation steps when rounds stop making progress
+export type LoopEscalation = 'hint' | 'replan' | 'stop';
+
 export interface AgenticState {
   round: number;
   seenFiles: Set<string>;
@@ -451,8 +629,9 @@ export interface AgenticState {
 }
 
 export interface AgenticStreamChunk {
-  type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'tool_start' | 'round_start' | 'stuck_warning' | 'done' | 'error';
+  type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'tool_start' | 'round_start' | 'stuck_warning' | 'summary' | 'run_start' | 'approval_required' | 'approval_resolved' | 'command_denied' | 'command_output' | 'budget' | 'plan' | 'plan_update' | 'context' | 'done' | 'error';
   content?: string;
+  runId?: string;
   round?: number;
   toolCall?: { id: string; name: string; input: Record<string, unknown> };
   toolUseId?: string;
@@ -465,6 +644,106 @@ export interface AgenticStreamChunk {
   seenFiles?: string[];
   prUrl?: string;
   prNumber?: number;
+  summary?: ConversationSummary;
+  approval?: ApprovalRequest;
+  approvalId?: string;
+  decision?: ApprovalDecision['action'];
+  plan?: TaskPlan;
+  step?: PlanStep;
+  citations?: Citation[];
+  command?: string;
+  violation?: CommandPolicyViolation;
+  lines?: CommandOutputLine[]; // command_output: batch of new lines for toolUseId
+  // Pre-flight budget check on budget chunks
+  model?: ModelType;
+  action?: 'proceed' | 'downgrade' | 'refuse';
+  projectedCost?: number;
+  inputTokens?: number;
+  tokenSource?: 'api' | 'local';
+  spentToday?: number;
+  // Model routing: phase and reason on round_start, per-model cost on done
+  phase?: RoutingPhase;
+  reason?: string; // Also why a stuck_warning escalated
+  costByModel?: Partial<Record<ModelType, number>>;
+  escalation?: LoopEscalation; // stuck_warning: hint, forced re-plan or stop
+  stalledRounds?: number;
+  dryRun?: DryRunChangeset; // done: the would-be changeset of a dry run
+  commitSha?: string; // done: the commit a GitHub run landed
+  error?: string; // error: why the run failed
+  contextChunks?: Array<{ path: string; startLine: number; endLine: number; symbol?: string }>; // context: code added automatically
+  // Per-tool timing on tool_result chunks, which also carry the files that call changed in fileChanges
+  startedAt?: number;
+  waitMs?: number;
+  durationMs?: number;
+}
+
+// Why run_command refused a command - returned to the model and logged in the debugger
+export interface CommandPolicyViolation {
+  rule: 'deny' | 'allow' | 'forbidden_path' | 'network';
+  pattern?: string;
+  segment: string; // The part of the command that violated the rule
+  reason: string;
+}
+
+// Human-in-the-loop approval of a tool call before it runs
+export interface ApprovalRequest {
+  id: string;
+  runId: string;
+  toolCall: { id: string; name: string; input: Record<string, unknown> };
+  kind: 'diff' | 'command' | 'tool';
+  preview: string; // Proposed diff, command line, or tool input
+  createdAt: string;
+}
+
+export type ApprovalDecision =
+  | { action: 'accept' }
+  | { action: 'reject'; reason?: string }
+  | { action: 'edit'; input: Record<string, unknown> };
+
+export type AgenticRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Persisted state of an agentic run - lets clients reattach or replay after a disconnect
+export interface AgenticRunSnapshot {
+  id: string;
+  ownerHash: string; // Hash of the Anthropic key that started the run
+  status: AgenticRunStatus;
+  createdAt: string;
+  updatedAt: string;
+  round: number;
+  convo: unknown[];
+  fileChanges: FileChange[];
+  seenFiles: string[];
+  totalCost: number;
+  events: string[]; // Serialized stream chunks, in emit order
+  error?: string;
+  revert?: RunRevertRecord; // What the run changed, for reverting it later
+}
+
+// Pre-edit state of every file a run changed. A revert restores it only if
+// each file is still the way the run left it.
+export interface RevertFileSnapshot {
+  path: string;
+  beforeSha: string | null; // Blob SHA before the run touched the file; null if the run created it
+  afterSha: string | null; // Blob SHA the run left behind; null if the run deleted it
+  beforeContent?: string; // Local mode only - there is no object store to restore the blob from
+}
+
+export interface RunRevertRecord {
+  target: 'github' | 'local';
+  location: string; // owner/repo@branch, or the local workspace path
+  commitSha?: string; // GitHub: the commit the run landed
+  files: RevertFileSnapshot[];
+  revertedAt?: string;
+  revertCommitSha?: string;
+}
+
+export interface RevertRunResult {
+  success: boolean;
+  files: FileChange[]; // What the revert changed
+  conflicts: Array<{ path: string; reason: string }>; // Files changed again since the run; nothing is written
+  commitSha?: string;
+  url?: string;
+  error?: string;
 }
 
 // Model display names for UI